@@ -0,0 +1,248 @@
+/**
+ * The two n8n webhook contracts, answered deterministically from the input:
+ * the same request always produces the same response.
+ *
+ * Stage 1 (normalization): {csv_data} from the webhook providers, or the
+ * two-stage payload ({sampleRows, ...} or a markdown table) → {normalizedData}
+ * Stage 2 (enrichment): normalizedData, or the whole Stage 1 response →
+ * {analysis, summary}
+ */
+
+const VENDOR_FIELD = /^(vendor|supplier|vendor[ _]?name|supplier[ _]?name|company|provider)$/i;
+const SPEND_FIELD = /^(spend|amount|annual[ _]?spend|total[ _]?spend|cost|value|total)$/i;
+const CATEGORY_FIELD = /^(category|type|class)$/i;
+const SEGMENT_FIELD = /^(segment|department|business[ _]?unit)$/i;
+const CURRENCY_FIELD = /^(currency|ccy)$/i;
+
+// Alternatives offered by the enhanced workflow, by category keyword
+const ALTERNATIVES = [
+  { match: /software|saas|licen[cs]e/i, vendors: ['Zoho', 'Freshworks', 'Odoo'] },
+  { match: /cloud|hosting|infra/i, vendors: ['Hetzner', 'DigitalOcean', 'OVHcloud'] },
+  { match: /hardware|device|laptop/i, vendors: ['Lenovo', 'Dell Technologies', 'HP Inc.'] },
+  { match: /consult|service/i, vendors: ['Regional boutique firm', 'Freelance marketplace', 'In-house team'] },
+  { match: /./, vendors: ['Alternative supplier A', 'Alternative supplier B'] }
+];
+
+/**
+ * 32-bit FNV-1a: stable numbers from vendor names
+ */
+export function hashString(text) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * RFC 4180 CSV (quoted fields, doubled quotes, newlines in quotes) → row objects
+ */
+export function parseCsv(text) {
+  const records = [];
+  let record = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [headers = [], ...rows] = records.filter(row => row.some(value => value.trim() !== ''));
+  return rows.map(row => Object.fromEntries(headers.map((header, index) => [header.trim(), row[index] ?? ''])));
+}
+
+/**
+ * Markdown table (| a | b |) → row objects; the separator row is skipped
+ */
+export function parseMarkdownTable(text) {
+  const lines = text.split('\n').map(line => line.trim()).filter(line => line.startsWith('|'));
+  const cells = line => line.replace(/^\||\|$/g, '').split('|').map(cell => cell.trim());
+  const [headerLine, ...rest] = lines;
+  if (!headerLine) return [];
+
+  const headers = cells(headerLine);
+  return rest
+    .filter(line => !/^\|?[\s:|-]+\|?$/.test(line))
+    .map(line => Object.fromEntries(cells(line).map((value, index) => [headers[index], value])));
+}
+
+function pick(row, pattern) {
+  const key = Object.keys(row).find(name => pattern.test(name.trim()));
+  return key === undefined ? undefined : row[key];
+}
+
+function toNumber(value) {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : 0;
+  const cleaned = String(value ?? '').replace(/[^0-9.-]/g, '');
+  const number = Number(cleaned);
+  return Number.isFinite(number) ? number : 0;
+}
+
+function rowsFromStage1Body(body) {
+  if (typeof body === 'string') return parseMarkdownTable(body);
+  if (body && typeof body.csv_data === 'string') return parseCsv(body.csv_data);
+  if (body && Array.isArray(body.sampleRows)) return body.sampleRows;
+  return null;
+}
+
+/**
+ * Stage 1: group rows by vendor and total their spend
+ */
+export function normalize(body) {
+  const rows = rowsFromStage1Body(body);
+  if (!rows) {
+    return { status: 400, body: { error: 'Expected {csv_data}, {sampleRows} or a markdown table' } };
+  }
+
+  const vendors = new Map();
+  rows.forEach(row => {
+    const name = String(pick(row, VENDOR_FIELD) ?? '').trim();
+    if (!name) return;
+
+    const key = name.toLowerCase();
+    const vendor = vendors.get(key) || { vendor: name, category: '', segment: '', currency: '', spend: 0, rows: 0 };
+    vendor.spend += toNumber(pick(row, SPEND_FIELD));
+    vendor.rows += 1;
+    vendor.category ||= String(pick(row, CATEGORY_FIELD) ?? '').trim();
+    vendor.segment ||= String(pick(row, SEGMENT_FIELD) ?? '').trim();
+    vendor.currency ||= String(pick(row, CURRENCY_FIELD) ?? '').trim().toUpperCase();
+    vendors.set(key, vendor);
+  });
+
+  const list = Array.from(vendors.values())
+    .map(vendor => ({ ...vendor, spend: Math.round(vendor.spend * 100) / 100 }))
+    .sort((a, b) => b.spend - a.spend || a.vendor.localeCompare(b.vendor));
+
+  return {
+    status: 200,
+    body: {
+      normalizedData: {
+        source: 'mock-n8n',
+        totals: { rows: rows.length, vendors: list.length, spend: list.reduce((sum, vendor) => sum + vendor.spend, 0) },
+        vendors: list
+      }
+    }
+  };
+}
+
+function formatMoney(amount, currency) {
+  const rounded = Math.round(amount);
+  if (/^[A-Z]{3}$/.test(currency || '')) {
+    try {
+      return new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 0 }).format(rounded);
+    } catch {
+      // Unknown ISO code; fall through to a plain number
+    }
+  }
+  return rounded.toLocaleString('en-US');
+}
+
+function analyzeVendor(vendor, index, enhanced) {
+  const hash = hashString(vendor.vendor.toLowerCase());
+  const minRate = 5 + (hash % 8); // 5-12%
+  const maxRate = minRate + 4 + ((hash >>> 3) % 6); // 4-9 points above
+  const change = ((hash >>> 6) % 13) - 4; // -4% to +8%
+  const confidence = Math.round((0.6 + ((hash >>> 10) % 36) / 100) * 100) / 100;
+  const riskLevel = maxRate > 16 ? 'High' : maxRate > 11 ? 'Medium' : 'Low';
+  const category = vendor.category || 'Other';
+  const currency = vendor.currency || undefined;
+
+  const item = {
+    id: `mock-${index + 1}`,
+    vendor: vendor.vendor,
+    segment: vendor.segment || 'Other',
+    category,
+    type: 'Recurring',
+    item: vendor.vendor,
+    pastSpend: vendor.spend,
+    projectedSpend: Math.round(vendor.spend * (1 + change / 100) * 100) / 100,
+    ...(currency ? { currency } : {}),
+    projectedChange: `${change > 0 ? '+' : ''}${change}%`,
+    savingsRange: `${formatMoney(vendor.spend * minRate / 100, currency)} to ${formatMoney(vendor.spend * maxRate / 100, currency)}`,
+    savingsPercentage: `${minRate}-${maxRate}%`,
+    confidence,
+    details: {
+      description: `${vendor.vendor} accounts for ${vendor.rows} line(s) of ${category} spend`,
+      implementation: riskLevel === 'High'
+        ? 'Run a competitive tender before the next renewal'
+        : 'Renegotiate volume pricing with the incumbent',
+      timeline: riskLevel === 'Low' ? '1-3 months' : '3-6 months',
+      riskLevel
+    }
+  };
+
+  if (enhanced) {
+    const { vendors } = ALTERNATIVES.find(entry => entry.match.test(category));
+    item.alternatives = vendors
+      .filter(name => name.toLowerCase() !== vendor.vendor.toLowerCase())
+      .slice(0, 2)
+      .map((name, offset) => ({
+        vendor: name,
+        estimatedPrice: formatMoney(vendor.spend * (1 - (maxRate - offset * 2) / 100), currency),
+        feasibility: offset === 0 ? 'High' : 'Medium'
+      }));
+  }
+
+  return { item, min: vendor.spend * minRate / 100, max: vendor.spend * maxRate / 100 };
+}
+
+/**
+ * Stage 2: savings analysis per vendor, with a summary that matches the items
+ */
+export function enrich(body, { enhanced = false } = {}) {
+  const normalized = body && typeof body === 'object' && 'normalizedData' in body ? body.normalizedData : body;
+  if (!normalized || !Array.isArray(normalized.vendors)) {
+    return { status: 400, body: { error: 'Expected normalizedData with a vendors array' } };
+  }
+
+  const results = normalized.vendors.map((vendor, index) => analyzeVendor(vendor, index, enhanced));
+  const analysis = results.map(result => result.item);
+  const pastSpend = analysis.reduce((sum, item) => sum + item.pastSpend, 0);
+  const projectedSpend = analysis.reduce((sum, item) => sum + item.projectedSpend, 0);
+  const potentialSavings = {
+    min: Math.round(results.reduce((sum, result) => sum + result.min, 0)),
+    max: Math.round(results.reduce((sum, result) => sum + result.max, 0))
+  };
+
+  return {
+    status: 200,
+    body: {
+      analysis,
+      summary: {
+        pastSpend,
+        projectedSpend,
+        potentialSavings,
+        roi: pastSpend > 0 ? Math.round((potentialSavings.min + potentialSavings.max) / 2 / pastSpend * 100) : 0,
+        currency: analysis.find(item => item.currency)?.currency
+      }
+    }
+  };
+}
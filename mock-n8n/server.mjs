@@ -0,0 +1,258 @@
+#!/usr/bin/env node
+/**
+ * Mock n8n server for running the upload → dashboard flow offline.
+ *
+ *   npm run mock:n8n -- --port 5679 --latency 500 --error 429 --error-count 2
+ *
+ * Any POST path ending in "normalize"/"normalization" answers the Stage 1
+ * contract and any ending in "enrich"/"enrichment" the Stage 2 contract;
+ * paths containing "enhanced" add vendor alternatives. See README.md.
+ */
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { enrich, normalize } from './contracts.mjs';
+
+const ERROR_MODES = ['429', '500', 'malformed', 'timeout'];
+const MAX_LOGGED_REQUESTS = 50;
+const HELD_REQUEST_MS = 10 * 60 * 1000; // How long a "timeout" request stays open
+
+function parseOptions(argv) {
+  const flags = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const next = argv[i + 1];
+    if (next === undefined || next.startsWith('--')) {
+      flags[arg.slice(2)] = true;
+    } else {
+      flags[arg.slice(2)] = next;
+      i++;
+    }
+  }
+
+  const option = (name, envName, fallback) => flags[name] ?? process.env[envName] ?? fallback;
+  const options = {
+    port: Number(option('port', 'MOCK_N8N_PORT', 5679)),
+    latency: Number(option('latency', 'MOCK_N8N_LATENCY', 0)),
+    apiKey: option('api-key', 'MOCK_N8N_API_KEY', ''),
+    error: option('error', 'MOCK_N8N_ERROR', ''),
+    errorCount: Number(option('error-count', 'MOCK_N8N_ERROR_COUNT', Infinity)),
+    errorPath: option('error-path', 'MOCK_N8N_ERROR_PATH', ''),
+    fixtures: resolve(option('fixtures', 'MOCK_N8N_FIXTURES', join(dirname(fileURLToPath(import.meta.url)), 'fixtures'))),
+    record: Boolean(option('record', 'MOCK_N8N_RECORD', false)),
+    replay: Boolean(option('replay', 'MOCK_N8N_REPLAY', false)),
+    upstream: option('upstream', 'MOCK_N8N_UPSTREAM', ''),
+    upstreamApiKey: option('upstream-api-key', 'MOCK_N8N_UPSTREAM_API_KEY', '')
+  };
+
+  if (options.error && !ERROR_MODES.includes(String(options.error))) {
+    throw new Error(`--error must be one of ${ERROR_MODES.join(', ')}`);
+  }
+  return options;
+}
+
+const options = parseOptions(process.argv.slice(2));
+
+// Error injection, changeable at runtime through POST /__mock/errors
+let injection = options.error
+  ? { mode: String(options.error), remaining: options.errorCount, path: String(options.errorPath) }
+  : null;
+const requestLog = [];
+
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+function stageOf(path) {
+  if (/(normalize|normalization)\/?$/i.test(path)) return 'normalize';
+  if (/(enrich|enrichment)\/?$/i.test(path)) return 'enrich';
+  return null;
+}
+
+const fixtureName = path => path.replace(/^\/+|\/+$/g, '').replace(/[^a-z0-9-]+/gi, '_');
+
+function fixturePath(path, rawBody) {
+  const digest = createHash('sha256').update(rawBody).digest('hex').slice(0, 16);
+  return join(options.fixtures, `${fixtureName(path)}-${digest}.json`);
+}
+
+/**
+ * A recorded fixture for the path whatever its request body, for --replay
+ */
+function replayFixturePath(path) {
+  if (!existsSync(options.fixtures)) return null;
+  const pattern = new RegExp(`^${fixtureName(path)}-[0-9a-f]{16}\\.json$`);
+  const file = readdirSync(options.fixtures).filter(name => pattern.test(name)).sort()[0];
+  return file ? join(options.fixtures, file) : null;
+}
+
+function setCors(res) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, API-KEY, X-Request-ID, X-Mock-Error');
+  res.setHeader('Access-Control-Expose-Headers', 'Retry-After, X-Request-ID');
+}
+
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(typeof body === 'string' ? body : JSON.stringify(body));
+}
+
+async function readBody(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * The error to inject for this request, if any. A X-Mock-Error header
+ * applies to that request only.
+ */
+function takeInjectedError(req, path) {
+  const header = req.headers['x-mock-error'];
+  if (typeof header === 'string' && ERROR_MODES.includes(header)) return header;
+  if (!injection || injection.remaining <= 0 || (injection.path && !path.includes(injection.path))) return null;
+
+  injection.remaining -= 1;
+  const mode = injection.mode;
+  if (injection.remaining <= 0) injection = null;
+  return mode;
+}
+
+function respondWithError(req, res, mode) {
+  switch (mode) {
+    case '429':
+      return send(res, 429, { error: 'Rate limit exceeded (mock)' }, { 'Retry-After': '1' });
+    case '500':
+      return send(res, 500, { error: 'Workflow execution failed (mock)' });
+    case 'malformed':
+      return send(res, 200, '{"analysis": [{"vendor": "Truncated');
+    case 'timeout': {
+      // Never answer; the client's timeout or abort ends the request
+      const timer = setTimeout(() => res.destroy(), HELD_REQUEST_MS);
+      req.on('close', () => clearTimeout(timer));
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Forward to the real workflow (same path) and return its status and body text
+ */
+async function callUpstream(req, path, rawBody) {
+  const response = await fetch(new URL(path, options.upstream), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      // The app sends no key; it comes from the option or the proxy in front of the mock
+      ...(options.upstreamApiKey || req.headers['api-key'] ? { 'API-KEY': options.upstreamApiKey || String(req.headers['api-key']) } : {})
+    },
+    body: rawBody
+  });
+  return { status: response.status, text: await response.text() };
+}
+
+async function handleWebhook(req, res, path) {
+  const stage = stageOf(path);
+  if (!stage) return send(res, 404, { error: `No mock workflow at ${path}` });
+
+  if (options.apiKey && req.headers['api-key'] !== options.apiKey) {
+    return send(res, 401, { error: 'Missing or wrong API-KEY header' });
+  }
+
+  const rawBody = await readBody(req);
+  if (options.latency > 0) await sleep(options.latency);
+
+  const injected = takeInjectedError(req, path);
+  if (injected) return respondWithError(req, res, injected);
+
+  const fixture = fixturePath(path, rawBody);
+  const replayed = existsSync(fixture) ? fixture : options.replay ? replayFixturePath(path) : null;
+  if (replayed) {
+    const recorded = JSON.parse(readFileSync(replayed, 'utf8'));
+    return send(res, recorded.status, recorded.body);
+  }
+
+  let result;
+  if (options.upstream) {
+    const upstream = await callUpstream(req, path, rawBody);
+    result = { status: upstream.status, body: upstream.text };
+  } else {
+    let body;
+    try {
+      body = rawBody ? JSON.parse(rawBody) : null;
+    } catch {
+      return send(res, 400, { error: 'Request body is not JSON' });
+    }
+    result = stage === 'normalize' ? normalize(body) : enrich(body, { enhanced: /enhanced/i.test(path) });
+  }
+
+  if (options.record && result.status < 400) {
+    mkdirSync(options.fixtures, { recursive: true });
+    writeFileSync(fixture, JSON.stringify({ path, status: result.status, body: result.body }, null, 2));
+    console.log(`[MockN8n] Recorded ${fixture}`);
+  }
+  return send(res, result.status, result.body);
+}
+
+function handleControl(req, res, path, rawBody) {
+  if (path === '/__mock/health') return send(res, 200, { ok: true, injection });
+  if (path === '/__mock/requests') return send(res, 200, requestLog);
+
+  if (path === '/__mock/errors' && req.method === 'DELETE') {
+    injection = null;
+    return send(res, 200, { injection });
+  }
+  if (path === '/__mock/errors' && req.method === 'POST') {
+    const { mode, count = Infinity, path: errorPath = '' } = JSON.parse(rawBody || '{}');
+    if (!ERROR_MODES.includes(String(mode))) {
+      return send(res, 400, { error: `mode must be one of ${ERROR_MODES.join(', ')}` });
+    }
+    injection = { mode: String(mode), remaining: count, path: errorPath };
+    return send(res, 200, { injection });
+  }
+  return send(res, 404, { error: `Unknown control endpoint ${path}` });
+}
+
+const server = createServer(async (req, res) => {
+  setCors(res);
+  const path = new URL(req.url || '/', 'http://localhost').pathname;
+  const started = Date.now();
+
+  res.on('finish', () => {
+    requestLog.unshift({
+      at: new Date(started).toISOString(),
+      method: req.method,
+      path,
+      requestId: req.headers['x-request-id'] || null,
+      status: res.statusCode,
+      ms: Date.now() - started
+    });
+    requestLog.length = Math.min(requestLog.length, MAX_LOGGED_REQUESTS);
+    console.log(`[MockN8n] ${req.method} ${path} → ${res.statusCode} (${Date.now() - started}ms)`);
+  });
+
+  try {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      return res.end();
+    }
+    if (path.startsWith('/__mock/')) return handleControl(req, res, path, await readBody(req));
+    if (req.method !== 'POST') return send(res, 405, { error: 'Webhooks accept POST only' });
+    await handleWebhook(req, res, path);
+  } catch (error) {
+    console.error('[MockN8n] Error:', error);
+    if (!res.headersSent) send(res, 500, { error: String(error?.message || error) });
+  }
+});
+
+server.listen(options.port, () => {
+  console.log(`[MockN8n] Listening on http://localhost:${options.port}`);
+  if (options.latency) console.log(`[MockN8n] Latency: ${options.latency}ms`);
+  if (injection) console.log(`[MockN8n] Injecting ${injection.mode} for ${injection.remaining} request(s)`);
+  if (options.upstream) console.log(`[MockN8n] Forwarding to ${options.upstream}${options.record ? ' and recording' : ''}`);
+  else if (options.record) console.log(`[MockN8n] Recording fixtures to ${options.fixtures}`);
+  if (options.replay) console.log(`[MockN8n] Replaying fixtures from ${options.fixtures} for any request body`);
+});
@@ -0,0 +1,215 @@
+#!/usr/bin/env node
+/**
+ * OpenAI-compatible stand-in for running the chat offline.
+ *
+ *   npm run mock:openai -- --port 5680 --token-delay 40
+ *
+ * Implements GET /v1/models and POST /v1/chat/completions, streamed as
+ * server-sent events when the request sets `stream: true`. Answers are built
+ * from the request itself, so they mention the spend figures in the prompt.
+ * When the request offers tools, the first turn calls one and the next answers
+ * from its result. See README.md.
+ */
+
+import { createServer } from 'node:http';
+
+function parseOptions(argv) {
+  const flags = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const next = argv[i + 1];
+    if (next === undefined || next.startsWith('--')) {
+      flags[arg.slice(2)] = true;
+    } else {
+      flags[arg.slice(2)] = next;
+      i++;
+    }
+  }
+
+  const option = (name, envName, fallback) => flags[name] ?? process.env[envName] ?? fallback;
+  return {
+    port: Number(option('port', 'MOCK_OPENAI_PORT', 5680)),
+    tokenDelay: Number(option('token-delay', 'MOCK_OPENAI_TOKEN_DELAY', 40)),
+    apiKey: option('api-key', 'MOCK_OPENAI_API_KEY', '')
+  };
+}
+
+const options = parseOptions(process.argv.slice(2));
+
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+function setCors(res) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Request-ID');
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * A deterministic answer: the question echoed back with whatever figures the
+ * system prompt carries
+ */
+function composeReply(messages) {
+  const system = messages.find(message => message.role === 'system')?.content || '';
+  const question = [...messages].reverse().find(message => message.role === 'user')?.content || '';
+  const fact = label => system.match(new RegExp(`${label}: ([^\\n]+)`))?.[1];
+
+  const facts = [
+    fact('Total Annual Spend') && `- Total annual spend: ${fact('Total Annual Spend')}`,
+    fact('Potential Savings') && `- Potential savings: ${fact('Potential Savings')}`,
+    fact('Top Categories') && `- Top categories: ${fact('Top Categories')}`
+  ].filter(Boolean);
+
+  return [
+    `This is the offline mock assistant. You asked: "${question.trim()}"`,
+    '',
+    facts.length > 0 ? 'From the loaded analysis:' : 'No analysis data was included in the request.',
+    ...facts,
+    '',
+    'Connect a real OpenAI-compatible endpoint for actual recommendations.'
+  ].join('\n');
+}
+
+/**
+ * The tool a question calls for, when the request offers it
+ */
+function chooseToolCall(messages, tools) {
+  const offered = new Set(tools.map(tool => tool.function?.name));
+  const question = ([...messages].reverse().find(message => message.role === 'user')?.content || '').toLowerCase();
+  const candidates = [
+    [/contract|expir|renew/, 'list_expiring_contracts', { withinMonths: 12 }],
+    [/saving|save/, 'savings_scenario', {}],
+    [/.*/, 'aggregate_spend', { groupBy: /categor/.test(question) ? 'category' : 'vendor', limit: 5 }]
+  ];
+  const match = candidates.find(([pattern, name]) => pattern.test(question) && offered.has(name));
+  const id = `call_mock_${Date.now().toString(36)}`;
+  if (match) return { id, name: match[1], arguments: JSON.stringify(match[2]) };
+  // Any other tool (such as the model check's) is called without arguments
+  const first = tools[0]?.function?.name;
+  return first ? { id, name: first, arguments: '{}' } : null;
+}
+
+function replyFromToolResults(messages) {
+  const results = messages.filter(message => message.role === 'tool').map(message => message.content);
+  return [
+    'This is the offline mock assistant. The data lookup returned:',
+    '',
+    ...results.map(result => (result.length > 600 ? `${result.slice(0, 600)}…` : result)),
+    '',
+    'Connect a real OpenAI-compatible endpoint for an actual answer.'
+  ].join('\n');
+}
+
+// Words with their trailing whitespace, so the chunks join back to the reply
+const tokenize = text => text.match(/\S+\s*|\s+/g) || [];
+
+async function streamCompletion(res, model, reply, toolCall) {
+  const id = `chatcmpl-mock-${Date.now().toString(36)}`;
+  const created = Math.floor(Date.now() / 1000);
+  let closed = false;
+  // Fires when the client goes away mid-stream (and after the end, when it no longer matters)
+  res.on('close', () => {
+    closed = true;
+  });
+
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+  const event = (delta, finishReason = null) =>
+    res.write(`data: ${JSON.stringify({ id, object: 'chat.completion.chunk', created, model, choices: [{ index: 0, delta, finish_reason: finishReason }] })}\n\n`);
+
+  event({ role: 'assistant' });
+  if (toolCall) {
+    // Name first, then the arguments in two pieces, as real streams split them
+    const half = Math.ceil(toolCall.arguments.length / 2);
+    event({ tool_calls: [{ index: 0, id: toolCall.id, type: 'function', function: { name: toolCall.name, arguments: '' } }] });
+    event({ tool_calls: [{ index: 0, function: { arguments: toolCall.arguments.slice(0, half) } }] });
+    event({ tool_calls: [{ index: 0, function: { arguments: toolCall.arguments.slice(half) } }] });
+    event({}, 'tool_calls');
+    return res.end('data: [DONE]\n\n');
+  }
+  for (const token of tokenize(reply)) {
+    if (closed) {
+      console.log('[MockOpenAI] Client stopped the stream');
+      return;
+    }
+    event({ content: token });
+    if (options.tokenDelay > 0) await sleep(options.tokenDelay);
+  }
+  event({}, 'stop');
+  res.end('data: [DONE]\n\n');
+}
+
+async function handleCompletion(req, res) {
+  let body;
+  try {
+    body = JSON.parse(await readBody(req));
+  } catch {
+    return send(res, 400, { error: { message: 'Request body is not JSON', type: 'invalid_request_error' } });
+  }
+  if (!Array.isArray(body.messages)) {
+    return send(res, 400, { error: { message: 'messages is required', type: 'invalid_request_error' } });
+  }
+
+  const model = body.model || 'mock-model';
+  const lastRole = body.messages[body.messages.length - 1]?.role;
+  const toolCall = Array.isArray(body.tools) && lastRole === 'user' ? chooseToolCall(body.messages, body.tools) : null;
+  const reply = lastRole === 'tool' ? replyFromToolResults(body.messages) : composeReply(body.messages);
+  if (body.stream) return streamCompletion(res, model, reply, toolCall);
+
+  if (options.tokenDelay > 0) await sleep(options.tokenDelay * 10);
+  return send(res, 200, {
+    id: `chatcmpl-mock-${Date.now().toString(36)}`,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [{
+      index: 0,
+      message: toolCall
+        ? { role: 'assistant', content: null, tool_calls: [{ id: toolCall.id, type: 'function', function: { name: toolCall.name, arguments: toolCall.arguments } }] }
+        : { role: 'assistant', content: reply },
+      finish_reason: toolCall ? 'tool_calls' : 'stop'
+    }],
+    usage: { prompt_tokens: 0, completion_tokens: tokenize(reply).length, total_tokens: tokenize(reply).length }
+  });
+}
+
+const server = createServer(async (req, res) => {
+  setCors(res);
+  const path = new URL(req.url || '/', 'http://localhost').pathname.replace(/\/+$/, '');
+  const started = Date.now();
+  res.on('finish', () => console.log(`[MockOpenAI] ${req.method} ${path} → ${res.statusCode} (${Date.now() - started}ms)`));
+
+  try {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      return res.end();
+    }
+    if (options.apiKey && req.headers.authorization !== `Bearer ${options.apiKey}`) {
+      return send(res, 401, { error: { message: 'Invalid API key', type: 'invalid_request_error' } });
+    }
+    if (req.method === 'GET' && path === '/v1/models') {
+      // max_model_len is how vLLM reports the context window
+      return send(res, 200, { object: 'list', data: [{ id: 'mock-model', object: 'model', owned_by: 'mock', max_model_len: 8192 }] });
+    }
+    if (req.method === 'POST' && path === '/v1/chat/completions') return await handleCompletion(req, res);
+    return send(res, 404, { error: { message: `No mock route for ${req.method} ${path}`, type: 'invalid_request_error' } });
+  } catch (error) {
+    console.error('[MockOpenAI] Error:', error);
+    if (!res.headersSent) send(res, 500, { error: { message: String(error?.message || error), type: 'server_error' } });
+  }
+});
+
+server.listen(options.port, () => {
+  console.log(`[MockOpenAI] Listening on http://localhost:${options.port}/v1`);
+  if (options.tokenDelay) console.log(`[MockOpenAI] ${options.tokenDelay}ms between streamed tokens`);
+});
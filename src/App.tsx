@@ -1,4 +1,4 @@
-import { useState, Suspense, lazy } from 'react';
+import { useRef, useState, Suspense, lazy } from 'react';
 import { AnimatePresence } from 'framer-motion';
 import Login from './components/Login';
 import UploadPage from './components/UploadPage';
@@ -10,9 +10,13 @@ import ChatToggleButton from './components/chat/ChatToggleButton';
 const Profile = lazy(() => import('./components/Profile'));
 const ChatInterface = lazy(() => import('./components/chat/ChatInterface'));
 import { conversationDataManager, generateFileId, generateMessageId } from './services/conversationData';
-import { sendChatMessage } from './services/chatService';
-import type { SpendAnalysis, SummaryMetrics } from './types';
-import type { ChatContext, ChatMessage } from './services/conversationData';
+import { streamChatMessage } from './services/chatService';
+import { getConfig } from './services/appConfig';
+import { conversationIdForAnalysis, loadConversation } from './services/workspaceDb';
+import { logError } from './utils/errorHandling';
+import { findVendorCitations } from './utils/vendorCitations';
+import type { AnalysisMeta, CachedResultInfo, QuarantinedItem, SpendAnalysis, SummaryMetrics, VendorFocus } from './types';
+import type { ChatContext, ChatMessage, ChatToolCall } from './services/conversationData';
 
 type AppState = 'login' | 'upload' | 'dashboard' | 'profile';
 
@@ -20,6 +24,8 @@ function App() {
   const [currentState, setCurrentState] = useState<AppState>('login');
   const [excelAnalysis, setExcelAnalysis] = useState<SpendAnalysis[] | null>(null);
   const [excelSummary, setExcelSummary] = useState<SummaryMetrics | null>(null);
+  const [quarantinedItems, setQuarantinedItems] = useState<QuarantinedItem[]>([]);
+  const [cachedResult, setCachedResult] = useState<CachedResultInfo | null>(null);
   
   // Chat state
   const [isChatOpen, setIsChatOpen] = useState(false);
@@ -31,6 +37,11 @@ function App() {
     topCategories: [],
     topVendors: []
   });
+  // Reply being generated, with the tools it has called so far
+  const [streamingReply, setStreamingReply] = useState<{ content: string; toolCalls: ChatToolCall[] } | null>(null);
+  const chatAbort = useRef<AbortController | null>(null);
+  // Vendor cited in the chat to show in the analysis table
+  const [focusedVendor, setFocusedVendor] = useState<VendorFocus | null>(null);
 
   // User state (simplified for demo)
   const [user] = useState({
@@ -46,32 +57,53 @@ function App() {
   };
 
   // Upload completion handler
-  const handleAnalysisComplete = (analysis: SpendAnalysis[], summary: SummaryMetrics) => {
-    console.log('[App] Analysis complete with:', { analysis, summary });
+  const handleAnalysisComplete = async (analysis: SpendAnalysis[], summary: SummaryMetrics, meta?: AnalysisMeta) => {
+    console.log('[App] Analysis complete with:', { analysis, summary, meta });
     setExcelAnalysis(analysis);
     setExcelSummary(summary);
+    setQuarantinedItems(meta?.quarantined || []);
+    setCachedResult(meta?.cached ?? null);
     
-    // Store in conversation data manager
-    const fileId = generateFileId(user.name || 'procurement-analysis');
-    conversationDataManager.storeAnalysis(
-      fileId, 
-      'Procurement Analysis',
-      [], // rawData - could be populated if needed
-      analysis, 
-      summary
-    );
+    // Stored analyses keep their chat; reopening one restores its history
+    const fileId = meta?.analysisId
+      ? conversationIdForAnalysis(meta.analysisId)
+      : generateFileId(user.name || 'procurement-analysis');
+    const storedConversation = meta?.analysisId
+      ? await loadConversation(fileId).catch(error => {
+          logError('App', error);
+          return undefined;
+        })
+      : undefined;
+    
+    if (storedConversation) {
+      conversationDataManager.restore({ ...storedConversation, rawData: meta?.rows ?? [], analysisResults: analysis, summaryMetrics: summary });
+    } else {
+      conversationDataManager.storeAnalysis(
+        fileId, 
+        meta?.fileNames.join(', ') || 'Procurement Analysis',
+        meta?.rows ?? [],
+        analysis, 
+        summary
+      );
+    }
     setChatContext(conversationDataManager.getChatContext(fileId));
     
     setCurrentState('dashboard');
   };
 
   // Navigation handlers
-  const handleProfileClick = () => setCurrentState('profile');
+  const handleProfileClick = () => {
+    setFocusedVendor(null);
+    setCurrentState('profile');
+  };
   const handleBackToDashboard = () => setCurrentState('dashboard');
   const handleLogout = () => {
     setCurrentState('login');
+    setFocusedVendor(null);
     setExcelAnalysis(null);
     setExcelSummary(null);
+    setQuarantinedItems([]);
+    setCachedResult(null);
     setChatContext({ 
       availableFiles: [], 
       totalVendors: 0, 
@@ -82,49 +114,59 @@ function App() {
     });
   };
 
-  // Chat message handler
+  // Chat message handler: the reply streams into streamingReply, then joins the history
   const handleSendMessage = async (message: string) => {
     console.log('[App] Sending chat message:', message);
+    const fileId = chatContext.currentFile?.fileId;
+    // Copied before the new message is added, since the manager appends in place
+    const history = [...(chatContext.currentFile?.conversationHistory || [])];
+    
+    const userMessage: ChatMessage = {
+      id: generateMessageId(),
+      role: 'user',
+      content: message,
+      timestamp: new Date(),
+      context: { fileId }
+    };
+    if (fileId) {
+      conversationDataManager.addChatMessage(fileId, userMessage);
+      setChatContext(conversationDataManager.getChatContext(fileId));
+    }
+    
+    const controller = new AbortController();
+    chatAbort.current = controller;
+    setStreamingReply({ content: '', toolCalls: [] });
     
     try {
-      const data = await sendChatMessage(
-        message,
-        chatContext,
-        chatContext.currentFile?.conversationHistory || []
-      );
+      const data = await streamChatMessage(message, chatContext, history, {
+        signal: controller.signal,
+        onDelta: content => setStreamingReply(prev => ({ content, toolCalls: prev?.toolCalls ?? [] })),
+        onToolCall: call => setStreamingReply(prev => ({ content: prev?.content ?? '', toolCalls: [...(prev?.toolCalls ?? []), call] }))
+      });
       console.log('[App] Chat response:', data);
       
-      if (data.success) {
-        // Add messages to conversation history
-        const userMessage: ChatMessage = {
-          id: generateMessageId(),
-          role: 'user',
-          content: message,
-          timestamp: new Date(),
-          context: {
-            fileId: chatContext.currentFile?.fileId
-          }
-        };
-        
-        const aiMessage: ChatMessage = {
-          id: generateMessageId(),
-          role: 'assistant',
-          content: data.response || 'Sorry, I encountered an issue processing your request.',
-          timestamp: new Date(),
-          context: {
-            fileId: chatContext.currentFile?.fileId
-          }
-        };
-        
-        if (chatContext.currentFile) {
-          conversationDataManager.addChatMessage(chatContext.currentFile.fileId, userMessage);
-          conversationDataManager.addChatMessage(chatContext.currentFile.fileId, aiMessage);
-          setChatContext(conversationDataManager.getChatContext(chatContext.currentFile.fileId));
-        }
-      } else {
+      if (!data.success) {
         console.error('[App] Chat error:', data);
         throw new Error(data.error || 'Chat request failed');
       }
+      
+      const content = data.response || (data.truncated ? '' : 'Sorry, I encountered an issue processing your request.');
+      const citations = findVendorCitations(content, chatContext.currentFile?.analysisResults ?? []);
+      const aiMessage: ChatMessage = {
+        id: generateMessageId(),
+        role: 'assistant',
+        content,
+        timestamp: new Date(),
+        truncated: data.truncated,
+        offline: data.offline,
+        toolCalls: data.toolCalls,
+        context: { fileId, ...citations }
+      };
+      
+      if (fileId) {
+        conversationDataManager.addChatMessage(fileId, aiMessage);
+        setChatContext(conversationDataManager.getChatContext(fileId));
+      }
     } catch (error) {
       console.error('[App] Chat request failed:', error);
       
@@ -134,28 +176,30 @@ function App() {
         role: 'assistant',
         content: "I'm sorry, I'm having trouble connecting right now. Please try again in a moment.",
         timestamp: new Date(),
-        context: {
-          fileId: chatContext.currentFile?.fileId
-        }
+        context: { fileId }
       };
       
-      if (chatContext.currentFile) {
-        const userMessage: ChatMessage = {
-          id: generateMessageId(),
-          role: 'user',
-          content: message,
-          timestamp: new Date()
-        };
-        
-        conversationDataManager.addChatMessage(chatContext.currentFile.fileId, userMessage);
-        conversationDataManager.addChatMessage(chatContext.currentFile.fileId, errorMessage);
-        setChatContext(conversationDataManager.getChatContext(chatContext.currentFile.fileId));
+      if (fileId) {
+        conversationDataManager.addChatMessage(fileId, errorMessage);
+        setChatContext(conversationDataManager.getChatContext(fileId));
       }
+    } finally {
+      if (chatAbort.current === controller) chatAbort.current = null;
+      setStreamingReply(null);
     }
   };
 
+  const handleStopGeneration = () => {
+    chatAbort.current?.abort();
+  };
+
+  const handleVendorClick = (vendor: string) => {
+    console.log('[App] Showing cited vendor:', vendor);
+    setFocusedVendor({ vendor, requestedAt: Date.now() });
+  };
+
   const hasAnalysisData = excelAnalysis && excelAnalysis.length > 0;
-  const showChat = currentState === 'dashboard';
+  const showChat = currentState === 'dashboard' && getConfig().features.chat;
 
   const renderCurrentView = () => {
     switch (currentState) {
@@ -170,6 +214,9 @@ function App() {
             companyData={user}
             initialAnalysis={excelAnalysis}
             initialSummary={excelSummary}
+            quarantined={quarantinedItems}
+            cachedResult={cachedResult}
+            focusedVendor={focusedVendor}
             onProfileClick={handleProfileClick}
             onLogout={handleLogout}
           />
@@ -203,6 +250,9 @@ function App() {
               onClose={() => setIsChatOpen(false)}
               chatContext={chatContext}
               onSendMessage={handleSendMessage}
+              streamingReply={streamingReply}
+              onStopGeneration={handleStopGeneration}
+              onVendorClick={handleVendorClick}
             />
           </Suspense>
           
@@ -1,33 +1,37 @@
-import React, { useState, memo, useCallback } from 'react';
+import React, { useState, memo, useCallback, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { ChevronDown, Info } from 'lucide-react';
-import type { SpendAnalysis } from '../types';
+import type { SpendAnalysis, VendorFocus } from '../types';
+import { DEFAULT_REPORTING_CURRENCY, formatMoney, formatMoneyCompact } from '../utils/currency';
 
 interface AnalysisTableProps {
   data: SpendAnalysis[];
+  focus?: VendorFocus | null; // Row to open, e.g. from a vendor cited in the chat
 }
 
-const AnalysisTable = ({ data }: AnalysisTableProps) => {
+// How long a focused row stays highlighted
+const HIGHLIGHT_MS = 2500;
+
+const AnalysisTable = ({ data, focus = null }: AnalysisTableProps) => {
   const [expandedRow, setExpandedRow] = useState<string | null>(null);
   const [hoveredCell, setHoveredCell] = useState<string | null>(null);
+  const [highlightedRow, setHighlightedRow] = useState<string | null>(null);
+  const rowRefs = useRef(new Map<string, HTMLTableRowElement>());
 
-  const formatCurrency = (amount: number) => {
-    if (amount >= 1000000) {
-      return `€${(amount / 1000000).toFixed(1)}M`;
-    } else if (amount >= 1000) {
-      return `€${(amount / 1000).toFixed(0)}K`;
-    } else {
-      return `€${amount.toFixed(0)}`;
-    }
-  };
+  // Every row is converted to the same reporting currency before analysis
+  const currency = data.find(item => item.currency)?.currency || DEFAULT_REPORTING_CURRENCY;
+
+  const formatCurrency = (amount: number, rowCurrency?: string) => formatMoneyCompact(amount, rowCurrency || currency);
+
+  const formatCurrencyFull = (amount: number, rowCurrency?: string) => formatMoney(amount, rowCurrency || currency);
 
-  const formatCurrencyFull = (amount: number) => {
-    return new Intl.NumberFormat('en-EU', {
-      style: 'currency',
-      currency: 'EUR',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(amount);
+  // Tooltip for the spend cell, including the source amount when it was converted
+  const spendTitle = (item: SpendAnalysis) => {
+    const full = formatCurrencyFull(item.pastSpend, item.currency);
+    if (item.originalCurrency && item.originalSpend !== undefined && item.originalCurrency !== (item.currency || currency)) {
+      return `${full} (originally ${formatMoney(item.originalSpend, item.originalCurrency)})`;
+    }
+    return full;
   };
 
   const getChangeColor = (change: string) => {
@@ -40,6 +44,21 @@ const AnalysisTable = ({ data }: AnalysisTableProps) => {
     setExpandedRow(prev => prev === id ? null : id);
   }, []);
 
+  // Open, scroll to and briefly highlight the focused vendor's first row
+  useEffect(() => {
+    if (!focus) return;
+    const item = data.find(candidate => candidate.vendor === focus.vendor);
+    if (!item) {
+      console.log('[AnalysisTable] No row for focused vendor:', focus.vendor);
+      return;
+    }
+    setExpandedRow(item.id);
+    setHighlightedRow(item.id);
+    rowRefs.current.get(item.id)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timer = setTimeout(() => setHighlightedRow(null), HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [focus, data]);
+
   return (
     <div className="overflow-x-auto bg-white/5 rounded-xl border border-white/10">
       <table className="w-full table-fixed min-w-[800px]">
@@ -53,8 +72,8 @@ const AnalysisTable = ({ data }: AnalysisTableProps) => {
         <thead>
           <tr className="border-b border-white/10">
             <th className="text-left py-4 px-4 text-gray-300 font-semibold">Vendor Information</th>
-            <th className="text-right py-4 px-4 text-gray-300 font-semibold">Current Spend</th>
-            <th className="text-right py-4 px-4 text-gray-300 font-semibold">Projected</th>
+            <th className="text-right py-4 px-4 text-gray-300 font-semibold">Current Spend ({currency})</th>
+            <th className="text-right py-4 px-4 text-gray-300 font-semibold">Projected ({currency})</th>
             <th className="text-right py-4 px-4 text-gray-300 font-semibold">Savings</th>
             <th className="w-8"></th>
           </tr>
@@ -63,7 +82,13 @@ const AnalysisTable = ({ data }: AnalysisTableProps) => {
           {data.map((item) => (
             <React.Fragment key={item.id}>
               <motion.tr
-                className="border-b border-white/5 hover:bg-white/5 transition-colors cursor-pointer"
+                ref={(row: HTMLTableRowElement | null) => {
+                  if (row) rowRefs.current.set(item.id, row);
+                  else rowRefs.current.delete(item.id);
+                }}
+                className={`border-b border-white/5 hover:bg-white/5 transition-colors cursor-pointer ${
+                  highlightedRow === item.id ? 'bg-purple-500/20' : ''
+                }`}
                 onClick={() => toggleExpanded(item.id)}
                 whileHover={{ backgroundColor: 'rgba(255, 255, 255, 0.05)' }}
               >
@@ -108,13 +133,18 @@ const AnalysisTable = ({ data }: AnalysisTableProps) => {
                   </div>
                 </td>
                 <td className="py-4 px-4 text-right">
-                  <div className="text-white font-mono text-lg font-bold" title={formatCurrencyFull(item.pastSpend)}>
-                    {formatCurrency(item.pastSpend)}
+                  <div className="text-white font-mono text-lg font-bold" title={spendTitle(item)}>
+                    {formatCurrency(item.pastSpend, item.currency)}
                   </div>
+                  {item.originalCurrency && item.originalCurrency !== (item.currency || currency) && (
+                    <div className="text-gray-400 text-xs">
+                      orig. {formatCurrency(item.originalSpend ?? 0, item.originalCurrency)}
+                    </div>
+                  )}
                 </td>
                 <td className="py-4 px-4 text-right">
-                  <div className="text-white font-mono font-semibold" title={formatCurrencyFull(item.projectedSpend)}>
-                    {formatCurrency(item.projectedSpend)}
+                  <div className="text-white font-mono font-semibold" title={formatCurrencyFull(item.projectedSpend, item.currency)}>
+                    {formatCurrency(item.projectedSpend, item.currency)}
                   </div>
                   <div className={`text-sm font-medium ${getChangeColor(item.projectedChange)}`}>
                     {item.projectedChange}
@@ -0,0 +1,286 @@
+import { useState } from 'react';
+import { CheckCircle, KeyRound, Lock, Wifi, XCircle } from 'lucide-react';
+import {
+  availableLlmProviders,
+  getChatLlm,
+  isPrivateNetworkUrl,
+  LLM_PROVIDERS,
+  loadLlmSettings,
+  probeLlm,
+  saveLlmSettings
+} from '../services/llmProvider';
+import type { LlmProbeResult, LlmProviderId, LlmSettings } from '../services/llmProvider';
+import { getConfig } from '../services/appConfig';
+import { getErrorMessage } from '../utils/errorHandling';
+
+interface Draft {
+  baseUrl: string;
+  model: string;
+  headers: string; // JSON object text
+  parameters: string;
+}
+
+const inputClass = 'w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+const toJsonText = (value: Record<string, unknown> | undefined) =>
+  value && Object.keys(value).length > 0 ? JSON.stringify(value, null, 2) : '';
+
+function draftFor(settings: LlmSettings, id: LlmProviderId): Draft {
+  const overrides = settings.endpoints[id] ?? {};
+  return {
+    baseUrl: overrides.baseUrl ?? '',
+    model: overrides.model ?? '',
+    headers: toJsonText(overrides.headers),
+    parameters: toJsonText(overrides.parameters)
+  };
+}
+
+/**
+ * A JSON object from a text field; empty text is an empty object
+ */
+function parseObject(text: string, label: string): Record<string, unknown> {
+  if (!text.trim()) return {};
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error(`${label} must be valid JSON`);
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`${label} must be a JSON object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+const ChatModelSettings = () => {
+  const [settings, setSettings] = useState<LlmSettings>(loadLlmSettings);
+  const llm = getChatLlm(settings);
+  const [draft, setDraft] = useState<Draft>(() => draftFor(settings, llm.provider.id));
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [probe, setProbe] = useState<LlmProbeResult | 'checking' | null>(null);
+
+  const available = availableLlmProviders();
+  // What the configuration alone gives, shown as placeholders
+  const configured = getChatLlm({ ...settings, providerId: llm.provider.id, endpoints: {} });
+
+  const selectProvider = (id: LlmProviderId) => {
+    const next = saveLlmSettings({ providerId: id });
+    setSettings(next);
+    setDraft(draftFor(next, id));
+    setError(null);
+    setSaved(false);
+    setProbe(null);
+  };
+
+  const updateDraft = (changes: Partial<Draft>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setSaved(false);
+  };
+
+  /**
+   * Validate and persist the form; null when a field is invalid
+   */
+  const saveDraft = (): LlmSettings | null => {
+    try {
+      const baseUrl = llm.provider.keyed ? '' : draft.baseUrl.trim();
+      if (baseUrl && !/^https?:\/\/[^/\s]+/.test(baseUrl)) throw new Error('Base URL must be an http(s) URL');
+      if (baseUrl && !getConfig().llm.allowExternal && !isPrivateNetworkUrl(baseUrl)) {
+        throw new Error('External endpoints are disabled by the configuration; use a localhost or private network address');
+      }
+      const headers = parseObject(draft.headers, 'Headers');
+      const nonString = Object.keys(headers).find(name => typeof headers[name] !== 'string');
+      if (nonString) throw new Error(`Header ${nonString} must be a string`);
+      const parameters = parseObject(draft.parameters, 'Parameters');
+
+      const next = saveLlmSettings({
+        endpoints: {
+          ...settings.endpoints,
+          [llm.provider.id]: {
+            baseUrl,
+            model: draft.model.trim(),
+            headers: headers as Record<string, string>,
+            parameters
+          }
+        }
+      });
+      setSettings(next);
+      setError(null);
+      return next;
+    } catch (caught) {
+      setError(getErrorMessage(caught));
+      return null;
+    }
+  };
+
+  const handleSave = () => {
+    if (!saveDraft()) return;
+    setSaved(true);
+    setProbe(null);
+  };
+
+  // Checks what the form shows, so it is saved first
+  const handleProbe = async () => {
+    const next = saveDraft();
+    if (!next) return;
+    setProbe('checking');
+    try {
+      const result = await probeLlm(getChatLlm(next));
+      setProbe(result);
+    } catch (caught) {
+      setProbe({ ok: false, detail: getErrorMessage(caught), models: [] });
+    }
+    setSettings(loadLlmSettings());
+  };
+
+  const renderCapability = (label: string, supported: boolean | undefined) => (
+    <span className="flex items-center gap-1.5 text-sm text-gray-300">
+      {supported ? <CheckCircle className="w-4 h-4 text-green-400" /> : <XCircle className="w-4 h-4 text-gray-500" />}
+      {label}
+    </span>
+  );
+
+  const capabilities = llm.capabilities;
+  const models = probe && probe !== 'checking' ? probe.models : [];
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl p-8">
+      <h3 className="text-xl font-bold text-white mb-2">Chat Model</h3>
+      <p className="text-gray-400 text-sm mb-6">
+        The assistant works with any OpenAI-compatible endpoint. API keys are added by the server's proxy, never by this browser.
+      </p>
+
+      <div className="space-y-2 mb-6">
+        {LLM_PROVIDERS.map(provider => {
+          const allowed = available.includes(provider);
+          return (
+            <label
+              key={provider.id}
+              className={`flex items-center gap-3 rounded-lg px-3 py-2 border ${
+                llm.provider.id === provider.id ? 'bg-white/5 border-purple-500/30' : 'border-transparent'
+              } ${allowed ? 'cursor-pointer' : 'opacity-50 cursor-not-allowed'}`}
+            >
+              <input
+                type="radio"
+                name="chat-provider"
+                checked={llm.provider.id === provider.id}
+                disabled={!allowed}
+                onChange={() => selectProvider(provider.id)}
+                className="accent-purple-500"
+              />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-white text-sm font-medium">{provider.label}</span>
+                  {provider.external ? (
+                    <span title="Sends data outside your network"><Wifi className="w-3.5 h-3.5 text-gray-400" /></span>
+                  ) : (
+                    <span title="Data stays in your network"><Lock className="w-3.5 h-3.5 text-green-400" /></span>
+                  )}
+                </div>
+                <p className="text-gray-400 text-xs">
+                  {allowed ? provider.description : 'Disabled by the configuration (llm.allowExternal)'}
+                </p>
+              </div>
+            </label>
+          );
+        })}
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Base URL</label>
+          <input
+            value={llm.provider.keyed ? '' : draft.baseUrl}
+            onChange={(e) => updateDraft({ baseUrl: e.target.value })}
+            placeholder={configured.baseUrl || 'http://localhost:8080/v1'}
+            disabled={llm.provider.keyed}
+            title={llm.provider.keyed ? 'Set by the configuration, since the proxy adds the API key here' : undefined}
+            className={`${inputClass} disabled:opacity-50`}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Model</label>
+          <input
+            value={draft.model}
+            onChange={(e) => updateDraft({ model: e.target.value })}
+            placeholder={configured.model || 'Model name as the server lists it'}
+            list="chat-model-options"
+            className={inputClass}
+          />
+          <datalist id="chat-model-options">
+            {models.map(model => <option key={model} value={model} />)}
+          </datalist>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Extra headers</label>
+          <textarea
+            value={draft.headers}
+            onChange={(e) => updateDraft({ headers: e.target.value })}
+            placeholder={'{ "X-Tenant": "procurement" }'}
+            rows={3}
+            className={`${inputClass} font-mono`}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Request parameters</label>
+          <textarea
+            value={draft.parameters}
+            onChange={(e) => updateDraft({ parameters: e.target.value })}
+            placeholder={'{ "temperature": 0.2, "max_tokens": 1024 }'}
+            rows={3}
+            className={`${inputClass} font-mono`}
+          />
+        </div>
+      </div>
+      <p className="flex items-center gap-1.5 text-gray-400 text-xs mb-4">
+        <KeyRound className="w-3.5 h-3.5" />
+        Empty fields use the configured values; headers are stored in this browser, so do not put keys in them
+      </p>
+
+      {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+
+      <div className="flex items-center gap-3 mb-6">
+        <button
+          onClick={handleSave}
+          className="px-4 py-2 bg-purple-500 hover:bg-purple-600 text-white text-sm font-medium rounded-lg transition-colors"
+        >
+          Save
+        </button>
+        <button
+          onClick={handleProbe}
+          disabled={probe === 'checking'}
+          className="px-4 py-2 bg-white/10 hover:bg-white/20 disabled:opacity-50 text-gray-200 text-sm font-medium rounded-lg transition-colors"
+        >
+          {probe === 'checking' ? 'Checking…' : 'Check model'}
+        </button>
+        {saved && <span className="text-green-400 text-sm">Saved</span>}
+      </div>
+
+      <div className="pt-4 border-t border-white/10">
+        <h4 className="text-white font-medium mb-3">
+          {llm.model || 'No model'} <span className="text-gray-400 font-normal text-sm">at {llm.baseUrl || 'no endpoint'}</span>
+        </h4>
+        {probe && probe !== 'checking' && !probe.ok && (
+          <p className="flex items-center gap-2 text-red-400 text-sm mb-3">
+            <XCircle className="w-4 h-4 flex-shrink-0" />
+            {probe.detail}
+          </p>
+        )}
+        {capabilities ? (
+          <div className="flex flex-wrap items-center gap-4">
+            {renderCapability('Streaming', capabilities.streaming)}
+            {renderCapability('Tool calling', capabilities.toolCalling)}
+            <span className="text-sm text-gray-300">
+              Context: {capabilities.contextLength ? `${capabilities.contextLength.toLocaleString()} tokens` : 'not reported'}
+            </span>
+            <span className="text-xs text-gray-500">Checked {new Date(capabilities.checkedAt).toLocaleString()}</span>
+          </div>
+        ) : (
+          <p className="text-gray-400 text-sm">Not checked yet. Check the model so the chat knows whether it can stream and call tools.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ChatModelSettings;
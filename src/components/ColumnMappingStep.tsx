@@ -0,0 +1,182 @@
+import { useState } from 'react';
+import { AlertTriangle, CheckCircle, Columns3, Edit3 } from 'lucide-react';
+import { CANONICAL_FIELDS } from '../utils/columnMapping';
+import type { CanonicalField, MappingReview } from '../utils/columnMapping';
+import { describeNumberLocale } from '../utils/numberParsing';
+import type { AmountColumnResult } from '../utils/numberParsing';
+
+interface ColumnMappingStepProps {
+  sources: string[];
+  headers: string[];
+  sampleRow?: Record<string, unknown>;
+  review: MappingReview;
+  amounts?: AmountColumnResult;
+  onChangeField: (field: CanonicalField, header: string) => void;
+  onConfirm: (profileName: string | null) => void;
+  onEdit: () => void;
+}
+
+const confidenceClass = (confidence: number) => {
+  if (confidence >= 0.8) return 'bg-green-500/20 text-green-300';
+  if (confidence >= 0.5) return 'bg-yellow-500/20 text-yellow-300';
+  return 'bg-red-500/20 text-red-300';
+};
+
+// A few raw cells per issue are enough to recognise the pattern
+const exampleValues = (amounts: AmountColumnResult, indices: number[]) =>
+  indices.slice(0, 3).map(index => `"${amounts.parsed[index].raw}"`).join(', ');
+
+const ColumnMappingStep = ({ sources, headers, sampleRow, review, amounts, onChangeField, onConfirm, onEdit }: ColumnMappingStepProps) => {
+  const [profileName, setProfileName] = useState(review.profileName || sources[0]?.replace(/\.[^.]+$/, '') || '');
+  const [saveProfile, setSaveProfile] = useState(true);
+
+  if (review.confirmed) {
+    return (
+      <div className="flex items-center justify-between bg-white/5 border border-white/10 rounded-lg p-4">
+        <div className="flex items-center gap-3">
+          <CheckCircle className="w-5 h-5 text-green-400" />
+          <div>
+            <p className="text-white text-sm font-medium">Column mapping confirmed</p>
+            <p className="text-gray-400 text-xs">
+              {sources.join(', ')}
+              {review.profileName && ` · profile "${review.profileName}"`}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={onEdit}
+          className="flex items-center gap-1 text-gray-400 hover:text-white text-sm transition-colors"
+        >
+          <Edit3 className="w-4 h-4" />
+          Edit
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white/5 border border-purple-500/30 rounded-lg p-4 space-y-4">
+      <div className="flex items-center gap-3">
+        <Columns3 className="w-5 h-5 text-purple-400" />
+        <div>
+          <h4 className="text-white font-semibold">Map your columns</h4>
+          <p className="text-gray-400 text-xs">{sources.join(', ')}</p>
+        </div>
+      </div>
+
+      {review.profileMissing && review.profileMissing.length > 0 && (
+        <p className="flex items-start gap-1 text-yellow-300 text-xs">
+          <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+          Profile "{review.profileName}" maps {review.profileMissing
+            .map(field => CANONICAL_FIELDS.find(definition => definition.field === field)?.label ?? field)
+            .join(', ')} to columns this file does not have; check the mapping below.
+        </p>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-400 text-xs">
+              <th className="py-2 pr-4 font-medium">Field</th>
+              <th className="py-2 pr-4 font-medium">Column in file</th>
+              <th className="py-2 pr-4 font-medium">Confidence</th>
+              <th className="py-2 font-medium">Sample</th>
+            </tr>
+          </thead>
+          <tbody>
+            {CANONICAL_FIELDS.map(({ field, label }) => {
+              const header = review.mapping[field];
+              const confidence = review.confidence[field];
+              const isManual = review.overridden.includes(field);
+
+              return (
+                <tr key={field} className="border-t border-white/5">
+                  <td className="py-2 pr-4 text-white">{label}</td>
+                  <td className="py-2 pr-4">
+                    <select
+                      value={header || ''}
+                      onChange={(e) => onChangeField(field, e.target.value)}
+                      className="w-full bg-white/10 border border-white/10 rounded px-2 py-1 text-white text-sm"
+                    >
+                      <option value="" className="bg-slate-800">— Not mapped —</option>
+                      {headers.map(option => (
+                        <option key={option} value={option} className="bg-slate-800">{option}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-2 pr-4">
+                    {isManual ? (
+                      <span className="bg-purple-500/20 text-purple-300 text-xs px-2 py-0.5 rounded-full">Manual</span>
+                    ) : header && confidence !== undefined ? (
+                      <span className={`text-xs px-2 py-0.5 rounded-full ${confidenceClass(confidence)}`}>
+                        {Math.round(confidence * 100)}%
+                      </span>
+                    ) : (
+                      <span className="text-gray-500 text-xs">—</span>
+                    )}
+                  </td>
+                  <td className="py-2 text-gray-400 text-xs max-w-[160px] truncate">
+                    {header && sampleRow ? String(sampleRow[header] ?? '') : ''}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3 pt-2 border-t border-white/10">
+        <label className="flex items-center gap-2 text-gray-300 text-sm">
+          <input
+            type="checkbox"
+            checked={saveProfile}
+            onChange={(e) => setSaveProfile(e.target.checked)}
+            className="rounded border-white/20 bg-white/10 text-purple-500 focus:ring-purple-500"
+          />
+          Save as profile
+        </label>
+        <input
+          value={profileName}
+          onChange={(e) => setProfileName(e.target.value)}
+          disabled={!saveProfile}
+          placeholder="e.g. SAP vendor export"
+          className="flex-1 bg-white/10 border border-white/10 rounded px-3 py-1.5 text-white text-sm placeholder-gray-500 disabled:opacity-50"
+        />
+        <button
+          onClick={() => onConfirm(saveProfile ? profileName : null)}
+          disabled={!review.mapping.vendor || !review.mapping.spend}
+          className="px-4 py-1.5 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white text-sm rounded-lg transition-colors"
+        >
+          Confirm mapping
+        </button>
+      </div>
+      {amounts && (
+        <div className="text-xs space-y-1">
+          <p className="text-gray-400">
+            Spend amounts read as {describeNumberLocale(amounts.locale)}
+            {amounts.evidence.dotDecimal + amounts.evidence.commaDecimal === 0 && ' (no separators found, assumed)'}
+          </p>
+          {amounts.ambiguous.length > 0 && (
+            <p className="flex items-start gap-1 text-yellow-300">
+              <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+              {amounts.ambiguous.length} ambiguous value{amounts.ambiguous.length !== 1 ? 's' : ''} could be
+              thousands or decimals, e.g. {exampleValues(amounts, amounts.ambiguous)}
+            </p>
+          )}
+          {amounts.invalid.length > 0 && (
+            <p className="flex items-start gap-1 text-red-300">
+              <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+              {amounts.invalid.length} value{amounts.invalid.length !== 1 ? 's are' : ' is'} not a number and
+              will count as 0, e.g. {exampleValues(amounts, amounts.invalid)}
+            </p>
+          )}
+        </div>
+      )}
+      {(!review.mapping.vendor || !review.mapping.spend) && (
+        <p className="text-yellow-300 text-xs">Vendor and spend columns are required.</p>
+      )}
+    </div>
+  );
+};
+
+export default ColumnMappingStep;
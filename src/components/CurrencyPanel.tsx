@@ -0,0 +1,142 @@
+import { useRef, useState } from 'react';
+import { AlertTriangle, Coins, Trash2, Upload } from 'lucide-react';
+import { SUPPORTED_CURRENCIES } from '../utils/currency';
+import type { CurrencyUsage, FxRate } from '../utils/currency';
+import { clearFxRates, importFxRatesCsv } from '../services/fxRates';
+import { getErrorMessage } from '../utils/errorHandling';
+
+interface CurrencyPanelProps {
+  reportingCurrency: string;
+  rates: FxRate[];
+  usage: Record<string, CurrencyUsage>;
+  onChangeReportingCurrency: (currency: string) => void;
+  onRatesChange: (rates: FxRate[]) => void;
+}
+
+const CurrencyPanel = ({ reportingCurrency, rates, usage, onChangeReportingCurrency, onRatesChange }: CurrencyPanelProps) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [importMessage, setImportMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const periods = Array.from(new Set(rates.map(rate => rate.period))).sort();
+  const currencies = Object.entries(usage).sort((a, b) => b[1].rows - a[1].rows);
+  const missing = currencies.filter(([, entry]) => entry.missingRate > 0);
+  const assumed = currencies.reduce((sum, [, entry]) => sum + entry.assumed, 0);
+  const options = SUPPORTED_CURRENCIES.includes(reportingCurrency)
+    ? SUPPORTED_CURRENCIES
+    : [reportingCurrency, ...SUPPORTED_CURRENCIES];
+
+  const handleImport = async (file: File) => {
+    try {
+      const result = importFxRatesCsv(await file.text());
+      onRatesChange(result.rates);
+      setImportMessage({
+        text: `Imported ${result.imported} rate${result.imported !== 1 ? 's' : ''}` +
+          (result.skipped > 0 ? `, skipped ${result.skipped} invalid row${result.skipped !== 1 ? 's' : ''}` : ''),
+        isError: false
+      });
+    } catch (error) {
+      setImportMessage({ text: getErrorMessage(error), isError: true });
+    }
+  };
+
+  const handleClear = () => {
+    clearFxRates();
+    onRatesChange([]);
+    setImportMessage(null);
+  };
+
+  return (
+    <div className="bg-white/5 border border-white/10 rounded-lg p-4 space-y-3">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <Coins className="w-5 h-5 text-purple-400" />
+          <div>
+            <h4 className="text-white font-semibold">Currencies</h4>
+            <p className="text-gray-400 text-xs">
+              {rates.length > 0
+                ? `${rates.length} FX rate${rates.length !== 1 ? 's' : ''} · ${periods[0]} to ${periods[periods.length - 1]}`
+                : 'No FX rates imported'}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="text-gray-300 text-sm">Report in</label>
+          <select
+            value={reportingCurrency}
+            onChange={(e) => onChangeReportingCurrency(e.target.value)}
+            className="bg-white/10 border border-white/10 rounded px-2 py-1 text-white text-sm"
+          >
+            {options.map(currency => (
+              <option key={currency} value={currency} className="bg-slate-800">{currency}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => fileInput.current?.click()}
+            className="flex items-center gap-1 px-3 py-1 bg-white/10 hover:bg-white/20 text-white text-sm rounded transition-colors"
+            title="CSV with the columns period, base, quote, rate"
+          >
+            <Upload className="w-4 h-4" />
+            Import rates
+          </button>
+          {rates.length > 0 && (
+            <button
+              onClick={handleClear}
+              className="p-1.5 text-gray-400 hover:text-red-400 transition-colors"
+              title="Remove all FX rates"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {currencies.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {currencies.map(([currency, entry]) => (
+            <span
+              key={currency}
+              className={`text-xs px-2 py-0.5 rounded-full ${
+                entry.missingRate > 0 ? 'bg-yellow-500/20 text-yellow-300' : 'bg-white/10 text-gray-300'
+              }`}
+            >
+              {currency} · {entry.rows} row{entry.rows !== 1 ? 's' : ''}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {missing.length > 0 && (
+        <p className="flex items-start gap-1 text-yellow-300 text-xs">
+          <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+          No rate to {reportingCurrency} for {missing.map(([currency]) => currency).join(', ')}.
+          Those rows are excluded from the analysis; import rates to convert and include them.
+        </p>
+      )}
+
+      {assumed > 0 && (
+        <p className="flex items-start gap-1 text-yellow-300 text-xs">
+          <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+          {assumed} row{assumed !== 1 ? 's have' : ' has'} no currency and {assumed !== 1 ? 'are' : 'is'} read as {reportingCurrency}.
+          Changing the reporting currency relabels {assumed !== 1 ? 'them' : 'it'} without converting; map a currency column if the file has one.
+        </p>
+      )}
+
+      {importMessage && (
+        <p className={`text-xs ${importMessage.isError ? 'text-red-300' : 'text-green-300'}`}>{importMessage.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default CurrencyPanel;
@@ -1,27 +1,35 @@
 import { useState, useEffect, memo } from 'react';
 import { motion } from 'framer-motion';
-import type { CompanyData, SpendAnalysis, SummaryMetrics } from '../types';
+import type { CachedResultInfo, CompanyData, QuarantinedItem, SpendAnalysis, SummaryMetrics, VendorFocus } from '../types';
 import SummaryCards from './SummaryCards';
 import AnalysisTable from './AnalysisTable';
 import LoadingScreen from './LoadingScreen';
+import QuarantinePanel from './QuarantinePanel';
 import ReviewRecommendations from './ReviewRecommendations';
 import PrioritizeImplementation from './PrioritizeImplementation';
 import TrackProgress from './TrackProgress';
 import { generateMockAnalysis } from '../utils/mockData';
-import { ChevronRight, User, BarChart3, LogOut } from 'lucide-react';
+import { logError } from '../utils/errorHandling';
+import { invalidateCachedAnalysis } from '../services/analysisCache';
+import { getProvider } from '../services/providers';
+import { ChevronRight, User, BarChart3, LogOut, Database } from 'lucide-react';
 
 interface DashboardProps {
   companyData: CompanyData;
   initialAnalysis?: SpendAnalysis[] | null;
   initialSummary?: SummaryMetrics | null;
+  quarantined?: QuarantinedItem[]; // Response items that failed validation
+  cachedResult?: CachedResultInfo | null; // Set when the analysis was served from the cache
+  focusedVendor?: VendorFocus | null; // Vendor to open in the analysis table
   onProfileClick?: () => void;
   onLogout?: () => void;
 }
 
 type ViewState = 'dashboard' | 'review' | 'prioritize' | 'track';
 
-const Dashboard = ({ companyData, initialAnalysis, initialSummary, onProfileClick, onLogout }: DashboardProps) => {
+const Dashboard = ({ companyData, initialAnalysis, initialSummary, quarantined = [], cachedResult, focusedVendor = null, onProfileClick, onLogout }: DashboardProps) => {
   const [isLoading, setIsLoading] = useState(true);
+  const [cacheInvalidated, setCacheInvalidated] = useState(false);
   const [analysisData, setAnalysisData] = useState<SpendAnalysis[]>([]);
   const [summaryMetrics, setSummaryMetrics] = useState<SummaryMetrics | null>(null);
   const [currentView, setCurrentView] = useState<ViewState>('dashboard');
@@ -53,6 +61,21 @@ const Dashboard = ({ companyData, initialAnalysis, initialSummary, onProfileClic
     processData();
   }, [companyData, initialAnalysis, initialSummary]);
 
+  // The table is only on the main view
+  useEffect(() => {
+    if (focusedVendor) setCurrentView('dashboard');
+  }, [focusedVendor]);
+
+  const handleInvalidateCache = async () => {
+    if (!cachedResult) return;
+    try {
+      await invalidateCachedAnalysis(cachedResult.key);
+      setCacheInvalidated(true);
+    } catch (error) {
+      logError('Dashboard', error);
+    }
+  };
+
   if (isLoading) {
     return <LoadingScreen companyName={companyData.name} />;
   }
@@ -140,6 +163,27 @@ const Dashboard = ({ companyData, initialAnalysis, initialSummary, onProfileClic
           <h2 className="text-3xl font-bold text-white">Procurement Dashboard</h2>
           <p className="text-gray-300">AI-powered insights and optimization opportunities</p>
           <div className="w-24 h-1 bg-purple-500 mx-auto rounded-full" />
+          {cachedResult && (
+            <div className="inline-flex items-center gap-2 mt-2 px-3 py-1 bg-white/5 border border-white/10 rounded-full text-xs text-gray-300">
+              <Database className="w-3 h-3 text-purple-400" />
+              {cacheInvalidated ? (
+                <span>Removed from the cache; the next upload of these files runs a fresh analysis</span>
+              ) : (
+                <>
+                  <span>
+                    Cached result from {new Date(cachedResult.createdAt).toLocaleString()}
+                    {' '}· {getProvider(cachedResult.providerId)?.label || cachedResult.providerId}
+                  </span>
+                  <button
+                    onClick={handleInvalidateCache}
+                    className="text-purple-300 hover:text-white underline transition-colors"
+                  >
+                    Invalidate
+                  </button>
+                </>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Summary Cards */}
@@ -153,9 +197,11 @@ const Dashboard = ({ companyData, initialAnalysis, initialSummary, onProfileClic
               Hover over items for additional information. Click for detailed breakdowns.
             </p>
           </div>
-          <AnalysisTable data={analysisData} />
+          <AnalysisTable data={analysisData} focus={focusedVendor} />
         </div>
 
+        {quarantined.length > 0 && <QuarantinePanel items={quarantined} />}
+
         {/* Action Items */}
         <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl p-6">
           <h2 className="text-2xl font-bold text-white mb-4">Next Steps</h2>
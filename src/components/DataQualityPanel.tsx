@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, ShieldCheck, ShieldAlert } from 'lucide-react';
+import { QUALITY_ISSUES } from '../utils/dataQuality';
+import type { DataQualityReport, QualityIssue } from '../utils/dataQuality';
+import { formatMoney } from '../utils/currency';
+
+interface DataQualityPanelProps {
+  report: DataQualityReport;
+  rows: Record<string, unknown>[];
+  currency: string;
+  keepDuplicates: boolean;
+  onKeepDuplicatesChange: (keep: boolean) => void;
+}
+
+// Drill-down tables stay readable and cheap to render
+const MAX_DRILLDOWN_ROWS = 50;
+
+const DataQualityPanel = ({ report, rows, currency, keepDuplicates, onKeepDuplicatesChange }: DataQualityPanelProps) => {
+  const [openIssue, setOpenIssue] = useState<QualityIssue | null>(null);
+
+  const issuesFound = QUALITY_ISSUES.filter(({ issue }) => report.counts[issue] > 0);
+  const excludedShare = report.totalSpend !== 0 ? (report.excludedSpend / report.totalSpend) * 100 : 0;
+
+  const offendingRows = openIssue
+    ? report.rows.filter(row => row.issues.includes(openIssue))
+    : [];
+
+  return (
+    <div className="bg-white/5 border border-white/10 rounded-lg p-4 space-y-3">
+      <div className="flex items-center gap-3">
+        {report.excludedRows > 0 ? (
+          <ShieldAlert className="w-5 h-5 text-yellow-400" />
+        ) : (
+          <ShieldCheck className="w-5 h-5 text-green-400" />
+        )}
+        <div>
+          <h4 className="text-white font-semibold">Data quality</h4>
+          <p className="text-gray-400 text-xs">
+            {report.includedRows} of {report.totalRows} rows will be analyzed
+            {report.excludedRows > 0 && (
+              <> · {formatMoney(report.excludedSpend, currency)} excluded ({excludedShare.toFixed(1)}% of spend)</>
+            )}
+          </p>
+        </div>
+      </div>
+
+      {issuesFound.length === 0 ? (
+        <p className="text-green-300 text-xs">No issues found.</p>
+      ) : (
+        <div className="divide-y divide-white/5">
+          {issuesFound.map(({ issue, label, description }) => (
+            <div key={issue}>
+              <button
+                onClick={() => setOpenIssue(prev => prev === issue ? null : issue)}
+                className="w-full flex items-center justify-between py-2 text-left hover:bg-white/5 rounded transition-colors"
+              >
+                <div className="flex items-center gap-2">
+                  {openIssue === issue ? (
+                    <ChevronDown className="w-4 h-4 text-gray-400" />
+                  ) : (
+                    <ChevronRight className="w-4 h-4 text-gray-400" />
+                  )}
+                  <span className="text-white text-sm">{label}</span>
+                  <span className="text-gray-500 text-xs hidden sm:inline">{description}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className={`text-xs px-2 py-0.5 rounded-full ${
+                    report.excludingIssues.includes(issue) ? 'bg-red-500/20 text-red-300' : 'bg-yellow-500/20 text-yellow-300'
+                  }`}>
+                    {report.excludingIssues.includes(issue) ? 'Excluded' : 'Warning'}
+                  </span>
+                  <span className="text-white text-sm font-mono w-12 text-right">{report.counts[issue]}</span>
+                </div>
+              </button>
+
+              {openIssue === issue && (
+                <div className="overflow-x-auto pb-3">
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-left text-gray-400">
+                        <th className="py-1 pr-3 font-medium">Source</th>
+                        <th className="py-1 pr-3 font-medium">Vendor</th>
+                        <th className="py-1 pr-3 font-medium">Amount in file</th>
+                        <th className="py-1 pr-3 font-medium text-right">Spend</th>
+                        {report.hasDateColumn && <th className="py-1 font-medium">Date</th>}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {offendingRows.slice(0, MAX_DRILLDOWN_ROWS).map(({ index }) => {
+                        const row = rows[index];
+                        return (
+                          <tr key={index} className="border-t border-white/5 text-gray-300">
+                            <td className="py-1 pr-3 max-w-[160px] truncate">
+                              {String(row._fileSource ?? '')}
+                              {row._sheetSource ? ` › ${String(row._sheetSource)}` : ''}
+                            </td>
+                            <td className="py-1 pr-3 max-w-[200px] truncate">
+                              {String(row.vendor ?? '') || <span className="text-gray-500">—</span>}
+                            </td>
+                            <td className="py-1 pr-3 font-mono">{String(row._spendRaw ?? '')}</td>
+                            <td className="py-1 pr-3 font-mono text-right">
+                              {formatMoney(Number(row.spend) || 0, String(row.currency || currency))}
+                            </td>
+                            {report.hasDateColumn && <td className="py-1">{String(row.date ?? '')}</td>}
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                  {offendingRows.length > MAX_DRILLDOWN_ROWS && (
+                    <p className="text-gray-500 text-xs pt-2">
+                      Showing {MAX_DRILLDOWN_ROWS} of {offendingRows.length} rows
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {report.counts.duplicate > 0 && (
+        <label className="flex items-center gap-2 text-gray-400 text-xs cursor-pointer">
+          <input
+            type="checkbox"
+            checked={keepDuplicates}
+            onChange={(e) => onKeepDuplicatesChange(e.target.checked)}
+            className="accent-purple-500"
+          />
+          Keep duplicate rows, for files where identical purchases really repeat
+        </label>
+      )}
+
+      {!report.hasDateColumn && (
+        <p className="text-gray-500 text-xs">No date column mapped, so dates were not checked.</p>
+      )}
+    </div>
+  );
+};
+
+export default DataQualityPanel;
@@ -1,110 +1,525 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Upload, X, CheckCircle, AlertCircle, ArrowRight } from 'lucide-react';
-import { parseExcelFile, parseCsvFile, hashFile, getCachedAnalysis } from '../services/openai';
-import { processWithExternalAPIs, processWithNormalAPIs } from '../services/externalApiDemo';
-import type { SpendAnalysis, SummaryMetrics } from '../types';
+import { hashFile, hashFileSet } from '../services/openai';
+import { cacheAnalysis, cacheKeyFor, getCachedAnalysis, hashPreparedRows } from '../services/analysisCache';
+import { loadParsedFile, saveAnalysis, saveParsedFile } from '../services/workspaceDb';
+import type { StoredFile } from '../services/workspaceDb';
+import { parseCsvInWorker, parseWorkbookInWorker } from '../services/fileParser';
+import { getProvider } from '../services/providers';
+import type { ProviderRun } from '../services/providers';
+import { cancelAnalysisJob, createAnalysisJob, getAnalysisJob, runAnalysisJob, subscribeToJob } from '../services/analysisJobs';
+import type { AnalysisJob } from '../services/analysisJobs';
+import { combineSheets } from '../utils/workbookParser';
+import { applyColumnMapping, detectColumnMapping, getDataHeaders, headerFingerprint } from '../utils/columnMapping';
+import type { CanonicalField, MappingReview } from '../utils/columnMapping';
+import { parseAmountColumn } from '../utils/numberParsing';
+import type { AmountColumnResult } from '../utils/numberParsing';
+import { findProfileForHeaders, matchProfileMapping, saveMappingProfile } from '../services/mappingProfiles';
+import { convertAmount, toPeriod } from '../utils/currency';
+import type { CurrencyUsage, FxRate } from '../utils/currency';
+import { buildDataQualityReport, filterIncludedRows } from '../utils/dataQuality';
+import { proposeVendorMerges, resolveVendorName } from '../utils/entityResolution';
+import type { MergeProposal, MergeVariant } from '../utils/entityResolution';
+import { loadFxRates } from '../services/fxRates';
+import { acceptVendorMerge, loadVendorAliases, rejectVendorMerge } from '../services/vendorAliases';
+import { loadWorkspaceSettings, saveWorkspaceSettings } from '../services/workspaceSettings';
+import SheetSelector from './SheetSelector';
+import ColumnMappingStep from './ColumnMappingStep';
+import CurrencyPanel from './CurrencyPanel';
+import DataQualityPanel from './DataQualityPanel';
+import VendorMergeReview from './VendorMergeReview';
+import LoadingScreen from './LoadingScreen';
+import type { AnalysisMeta, CachedResultInfo, QuarantinedItem, SpendAnalysis, SummaryMetrics, WorkbookSheet } from '../types';
+import type { ParseProgress } from '../workers/parserMessages';
+import { isCancelledError, logError } from '../utils/errorHandling';
 
 interface FileUploadProps {
   onFilesUploaded: (files: File[]) => void;
   uploadedFiles: File[];
-  onAnalysisComplete?: (analysis: SpendAnalysis[], summary: SummaryMetrics) => void;
-  useEnhancedAnalysis?: boolean;
+  onAnalysisComplete?: (analysis: SpendAnalysis[], summary: SummaryMetrics, meta?: AnalysisMeta) => void;
+  providerOrder: string[]; // Analysis providers to try, primary first
 }
 
-const FileUpload = ({ onFilesUploaded, uploadedFiles, onAnalysisComplete, useEnhancedAnalysis = false }: FileUploadProps) => {
+const FileUpload = ({ onFilesUploaded, uploadedFiles, onAnalysisComplete, providerOrder }: FileUploadProps) => {
   const [processingFiles, setProcessingFiles] = useState<string[]>([]);
+  const [parseProgress, setParseProgress] = useState<Record<string, ParseProgress>>({});
+  const parseCancellers = useRef<Record<string, () => void>>({});
+  const [job, setJob] = useState<AnalysisJob | null>(null);
+  const activeJobId = useRef<string | null>(null);
+  const jobId = job?.id;
+  const isAnalyzing = job !== null && job.stage !== 'done' && job.stage !== 'failed';
   const [analysisStatus, setAnalysisStatus] = useState<Record<string, 'processing' | 'completed' | 'error'>>({});
   const [errorMessages, setErrorMessages] = useState<Record<string, string>>({});
-  const [lastAnalysisData, setLastAnalysisData] = useState<{ analysis: SpendAnalysis[], summary: SummaryMetrics } | null>(null);
-  const [accumulatedData, setAccumulatedData] = useState<any[]>([]);
+  const [lastAnalysisData, setLastAnalysisData] = useState<{ analysis: SpendAnalysis[], summary: SummaryMetrics, quarantined?: QuarantinedItem[], cached?: CachedResultInfo } | null>(null);
+  const [lastProviderRun, setLastProviderRun] = useState<ProviderRun | null>(null);
+  const primaryProvider = getProvider(providerOrder[0]);
+  const marketEnriched = primaryProvider?.capabilities.marketEnrichment ?? false;
+  const [fileHashes, setFileHashes] = useState<Record<string, string>>({});
+  const [csvRows, setCsvRows] = useState<Record<string, Record<string, unknown>[]>>({});
+  const [workbookSheets, setWorkbookSheets] = useState<Record<string, WorkbookSheet[]>>({});
+  const [selectedSheets, setSelectedSheets] = useState<Record<string, string[]>>({});
+
+  // Rows from every uploaded file (and every selected sheet), tagged with their source
+  const accumulatedData = useMemo(() => {
+    return uploadedFiles.flatMap(file => {
+      const sheets = workbookSheets[file.name];
+      const rows = sheets
+        ? combineSheets(sheets, selectedSheets[file.name] || [])
+        : csvRows[file.name] || [];
+      return rows.map((row): Record<string, unknown> => ({ ...row, _fileSource: file.name }));
+    });
+  }, [uploadedFiles, csvRows, workbookSheets, selectedSheets]);
+
+  const [mappingReviews, setMappingReviews] = useState<Record<string, MappingReview>>({});
+
+  // Rows grouped by header set; each distinct export layout gets its own mapping
+  const mappingGroups = useMemo(() => {
+    const groups = new Map<string, { fingerprint: string; headers: string[]; sources: string[]; rows: Record<string, unknown>[] }>();
+    accumulatedData.forEach(row => {
+      const headers = getDataHeaders(row);
+      const fingerprint = headerFingerprint(headers);
+      const source = row._sheetSource ? `${row._fileSource} › ${row._sheetSource}` : String(row._fileSource);
+      const group = groups.get(fingerprint) || { fingerprint, headers, sources: [], rows: [] };
+      if (!group.sources.includes(source)) group.sources.push(source);
+      group.rows.push(row);
+      groups.set(fingerprint, group);
+    });
+    return Array.from(groups.values());
+  }, [accumulatedData]);
+
+  // Detect (or restore from a saved profile) the mapping of every new header set
+  useEffect(() => {
+    const missing = mappingGroups.filter(group => !mappingReviews[group.fingerprint]);
+    if (missing.length === 0) return;
+
+    setMappingReviews(prev => {
+      const next = { ...prev };
+      missing.forEach(group => {
+        const profile = findProfileForHeaders(group.headers);
+        const matched = profile && matchProfileMapping(profile, group.headers);
+        if (profile && matched && matched.missing.length === 0) {
+          console.log('[FileUpload] Using saved mapping profile:', profile.name);
+          next[group.fingerprint] = {
+            mapping: matched.mapping,
+            confidence: Object.fromEntries(Object.keys(matched.mapping).map(field => [field, 1])),
+            overridden: [],
+            profileName: profile.name,
+            confirmed: true
+          };
+        } else if (profile && matched) {
+          // Columns the profile names are gone: detect those fields again and let the user review
+          console.warn('[FileUpload] Saved profile columns not found:', profile.name, matched.missing);
+          const detected = detectColumnMapping(group.headers, group.rows);
+          const used = new Set(Object.values(matched.mapping));
+          const mapping = { ...matched.mapping };
+          const confidence: MappingReview['confidence'] = Object.fromEntries(Object.keys(mapping).map(field => [field, 1]));
+          matched.missing.forEach(field => {
+            const header = detected.mapping[field];
+            if (header && !used.has(header)) {
+              mapping[field] = header;
+              confidence[field] = detected.confidence[field];
+            }
+          });
+          next[group.fingerprint] = {
+            mapping,
+            confidence,
+            overridden: [],
+            profileName: profile.name,
+            profileMissing: matched.missing,
+            confirmed: false
+          };
+        } else {
+          next[group.fingerprint] = {
+            ...detectColumnMapping(group.headers, group.rows),
+            overridden: [],
+            confirmed: false
+          };
+        }
+      });
+      return next;
+    });
+  }, [mappingGroups, mappingReviews]);
+
+  // Spend column of every group parsed as a whole, so each layout gets its own number locale
+  const amountColumns = useMemo(() => {
+    const columns: Record<string, AmountColumnResult> = {};
+    mappingGroups.forEach(group => {
+      const spendHeader = mappingReviews[group.fingerprint]?.mapping.spend;
+      if (spendHeader) {
+        columns[group.fingerprint] = parseAmountColumn(group.rows.map(row => row[spendHeader]));
+      }
+    });
+    return columns;
+  }, [mappingGroups, mappingReviews]);
+
+  const [reportingCurrency, setReportingCurrency] = useState(() => loadWorkspaceSettings().reportingCurrency);
+  const [fxRates, setFxRates] = useState<FxRate[]>(() => loadFxRates());
+
+  // Rows with mapped columns renamed to canonical fields (vendor, spend, ...) and spend
+  // converted to the reporting currency; the source amount is kept as originalSpend
+  const { mappedData, currencyUsage } = useMemo(() => {
+    const usage: Record<string, CurrencyUsage> = {};
+
+    const rows = mappingGroups.flatMap(group => {
+      const review = mappingReviews[group.fingerprint];
+      if (!review) return group.rows;
+
+      const amounts = amountColumns[group.fingerprint];
+      return applyColumnMapping(group.rows, review.mapping).map((row, index) => {
+        if (!amounts) return row;
+        const amount = amounts.parsed[index];
+        const value = amount.value ?? 0;
+        const labeled = String(row.currency || amount.currency || '').trim().toUpperCase();
+        const sourceCurrency = labeled || reportingCurrency;
+        const conversion = convertAmount(value, sourceCurrency, reportingCurrency, fxRates, toPeriod(row.date));
+
+        const entry = usage[sourceCurrency] || { rows: 0, missingRate: 0, assumed: 0 };
+        entry.rows++;
+        if (conversion.missingRate) entry.missingRate++;
+        if (!labeled) entry.assumed++;
+        usage[sourceCurrency] = entry;
+
+        return {
+          ...row,
+          spend: conversion.amount,
+          currency: conversion.missingRate ? sourceCurrency : reportingCurrency,
+          originalSpend: value,
+          originalCurrency: sourceCurrency,
+          _spendRaw: amount.raw,
+          ...(amount.error ? { _amountError: amount.error } : {}),
+          ...(conversion.missingRate ? { _fxMissing: true } : {}),
+          ...(!labeled ? { _currencyAssumed: true } : {})
+        };
+      });
+    });
+
+    return { mappedData: rows, currencyUsage: usage };
+  }, [mappingGroups, mappingReviews, amountColumns, reportingCurrency, fxRates]);
+
+  const allMappingsConfirmed = mappingGroups.every(group => mappingReviews[group.fingerprint]?.confirmed);
+
+  // Checked locally once the mapping is known; excluded rows are never submitted
+  const [keepDuplicates, setKeepDuplicates] = useState(false);
+  const qualityReport = useMemo(
+    () => (allMappingsConfirmed && mappedData.length > 0 ? buildDataQualityReport(mappedData, { keepDuplicates }) : null),
+    [allMappingsConfirmed, mappedData, keepDuplicates]
+  );
+  const includedRows = useMemo(
+    () => (qualityReport ? filterIncludedRows(mappedData, qualityReport) : mappedData),
+    [qualityReport, mappedData]
+  );
+
+  const [vendorAliases, setVendorAliases] = useState(() => loadVendorAliases());
+
+  // Accepted merges rename vendor variants to their canonical name; the name in the file is kept
+  const analysisRows = useMemo(() => {
+    return includedRows.map(row => {
+      const vendor = String(row.vendor ?? '');
+      const resolved = resolveVendorName(vendor, vendorAliases.aliases);
+      return resolved === vendor ? row : { ...row, vendor: resolved, _vendorOriginal: vendor };
+    });
+  }, [includedRows, vendorAliases]);
+
+  const { mergeProposals, vendorCount } = useMemo(() => {
+    const variants = new Map<string, MergeVariant>();
+    analysisRows.forEach(row => {
+      const name = String(row.vendor ?? '').trim();
+      if (!name) return;
+      const variant = variants.get(name) || { name, rows: 0, spend: 0 };
+      variant.rows++;
+      variant.spend += Number(row.spend) || 0;
+      variants.set(name, variant);
+    });
+    return {
+      mergeProposals: proposeVendorMerges(Array.from(variants.values()), vendorAliases.rejected),
+      vendorCount: variants.size
+    };
+  }, [analysisRows, vendorAliases]);
+
+  // A different provider order gives a different analysis
+  useEffect(() => {
+    setLastAnalysisData(null);
+    setLastProviderRun(null);
+  }, [providerOrder]);
+
+  // Follow the current analysis job's stages
+  useEffect(() => {
+    if (!jobId) return;
+    setJob(getAnalysisJob(jobId) ?? null);
+    return subscribeToJob(jobId, setJob);
+  }, [jobId]);
+
+  // Leaving the page cancels a running analysis
+  useEffect(() => () => {
+    if (activeJobId.current) cancelAnalysisJob(activeJobId.current);
+  }, []);
+
+  const acceptMerge = (proposal: MergeProposal, canonical: string) => {
+    setVendorAliases(acceptVendorMerge(proposal, canonical));
+    setLastAnalysisData(null);
+  };
+
+  const rejectMerge = (proposal: MergeProposal) => {
+    setVendorAliases(rejectVendorMerge(proposal));
+  };
+
+  const updateMappingField = (fingerprint: string, field: CanonicalField, header: string) => {
+    setMappingReviews(prev => {
+      const review = prev[fingerprint];
+      const mapping = { ...review.mapping };
+      if (header) {
+        // A header can only feed one field
+        (Object.keys(mapping) as CanonicalField[]).forEach(other => {
+          if (mapping[other] === header) delete mapping[other];
+        });
+        mapping[field] = header;
+      } else {
+        delete mapping[field];
+      }
+      return {
+        ...prev,
+        [fingerprint]: {
+          ...review,
+          mapping,
+          overridden: review.overridden.includes(field) ? review.overridden : [...review.overridden, field]
+        }
+      };
+    });
+  };
+
+  const confirmMapping = (fingerprint: string, headers: string[], profileName: string | null) => {
+    const review = mappingReviews[fingerprint];
+    const profile = profileName !== null ? saveMappingProfile(profileName, headers, review.mapping) : null;
+    setMappingReviews(prev => ({
+      ...prev,
+      [fingerprint]: { ...review, confirmed: true, profileName: profile?.name ?? review.profileName, profileMissing: undefined }
+    }));
+    setLastAnalysisData(null);
+  };
+
+  const editMapping = (fingerprint: string) => {
+    setMappingReviews(prev => ({ ...prev, [fingerprint]: { ...prev[fingerprint], confirmed: false } }));
+    setLastAnalysisData(null);
+  };
+
+  const changeReportingCurrency = (currency: string) => {
+    setReportingCurrency(saveWorkspaceSettings({ reportingCurrency: currency }).reportingCurrency);
+    setLastAnalysisData(null);
+  };
+
+  const updateFxRates = (rates: FxRate[]) => {
+    setFxRates(rates);
+    setLastAnalysisData(null);
+  };
+
+  const toggleSheet = (fileName: string, sheetName: string) => {
+    setSelectedSheets(prev => {
+      const current = prev[fileName] || [];
+      const next = current.includes(sheetName)
+        ? current.filter(name => name !== sheetName)
+        : [...current, sheetName];
+      return { ...prev, [fileName]: next };
+    });
+    // The selection changed, so any previous analysis no longer matches the data
+    setLastAnalysisData(null);
+  };
+
+  const restoreWorkbook = (fileName: string, sheets: WorkbookSheet[]) => {
+    setWorkbookSheets(prev => ({ ...prev, [fileName]: sheets }));
+    setSelectedSheets(prev => ({
+      ...prev,
+      [fileName]: sheets.filter(sheet => sheet.includedByDefault).map(sheet => sheet.name)
+    }));
+  };
+
+  // Storage failures (quota, private mode) must not fail the upload itself
+  const persistParsedFile = (stored: StoredFile) => {
+    saveParsedFile(stored).catch(error => logError('FileUpload', error));
+  };
+
+  // Analyses are stored under the hash of the data files they were computed from
+  const currentAnalysisId = async () => {
+    const hashes = uploadedFiles.map(file => fileHashes[file.name]).filter(Boolean);
+    return hashes.length > 0 ? hashFileSet(hashes) : null;
+  };
 
   const processDataFile = async (file: File) => {
     console.log(`[FileUpload] Starting to process data file: ${file.name}, type: ${file.type}`);
     
     try {
-      // Check cache first
       const fileHash = await hashFile(file);
-      const cachedAnalysis = await getCachedAnalysis(fileHash);
+      setFileHashes(prev => ({ ...prev, [file.name]: fileHash }));
       
-      if (cachedAnalysis) {
-        console.log('[FileUpload] Using cached analysis:', cachedAnalysis);
+      // Parsed content survives reloads, so a known file skips parsing
+      const storedFile = await loadParsedFile(fileHash).catch(error => {
+        logError('FileUpload', error);
+        return undefined;
+      });
+      if (storedFile) {
+        console.log('[FileUpload] Using stored parse of', file.name);
+        if (storedFile.sheets) {
+          restoreWorkbook(file.name, storedFile.sheets);
+        } else {
+          setCsvRows(prev => ({ ...prev, [file.name]: storedFile.rows || [] }));
+        }
         setAnalysisStatus(prev => ({ ...prev, [file.name]: 'completed' }));
-        setLastAnalysisData(cachedAnalysis);
-        // Don't auto-navigate, let user click Continue
-        // if (onAnalysisComplete) {
-        //   onAnalysisComplete(cachedAnalysis.analysis, cachedAnalysis.summary);
-        // }
         return;
       }
       
       // Parse file based on type
       console.log('[FileUpload] Parsing file...');
-      let parsedData;
+      
+      // Parsing runs in a worker; its progress events drive the file row
+      const onProgress = (progress: ParseProgress) => {
+        setParseProgress(prev => ({ ...prev, [file.name]: progress }));
+      };
       
       if (file.type.includes('csv') || file.name.toLowerCase().endsWith('.csv')) {
         console.log('[FileUpload] Processing as CSV file');
-        parsedData = await parseCsvFile(file);
+        const task = parseCsvInWorker(file, onProgress);
+        parseCancellers.current[file.name] = task.cancel;
+        const parsedData = await task.promise;
+        console.log('[FileUpload] Data parsed:', parsedData.slice(0, 3));
+        setCsvRows(prev => ({ ...prev, [file.name]: parsedData }));
+        persistParsedFile({ hash: fileHash, name: file.name, size: file.size, storedAt: new Date().toISOString(), rows: parsedData });
       } else if (
         file.type.includes('excel') || 
         file.type.includes('spreadsheet') ||
         file.name.toLowerCase().match(/\.(xls|xlsx|xlsm|xlsb)$/)
       ) {
         console.log('[FileUpload] Processing as Excel file');
-        parsedData = await parseExcelFile(file);
+        const task = parseWorkbookInWorker(file, onProgress);
+        parseCancellers.current[file.name] = task.cancel;
+        const sheets = await task.promise;
+        console.log('[FileUpload] Sheets parsed:', sheets.map(sheet => `${sheet.name} (${sheet.rows.length})`));
+        restoreWorkbook(file.name, sheets);
+        persistParsedFile({ hash: fileHash, name: file.name, size: file.size, storedAt: new Date().toISOString(), sheets });
       } else {
         throw new Error(`Unsupported file type: ${file.type}`);
       }
       
-      console.log('[FileUpload] Data parsed:', parsedData.slice(0, 3));
-      
-      // Add file data to accumulated data with file source
-      const fileDataWithSource = parsedData.map(row => ({
-        ...row,
-        _fileSource: file.name
-      }));
-      
-      setAccumulatedData(prev => [...prev, ...fileDataWithSource]);
       setAnalysisStatus(prev => ({ ...prev, [file.name]: 'completed' }));
-      
-      console.log('[FileUpload] File data added to accumulation. Total records:', accumulatedData.length + fileDataWithSource.length);
+      console.log('[FileUpload] File data added to accumulation');
       
       // Don't auto-navigate, let user click Continue
       // if (onAnalysisComplete) {
       //   onAnalysisComplete(analysis.analysis, analysis.summary);
       // }
     } catch (error) {
-      console.error('[FileUpload] Error processing file:', error);
+      if (isCancelledError(error)) {
+        console.log('[FileUpload] Parsing cancelled:', file.name);
+      } else {
+        console.error('[FileUpload] Error processing file:', error);
+      }
       setAnalysisStatus(prev => ({ ...prev, [file.name]: 'error' }));
       setErrorMessages(prev => ({ ...prev, [file.name]: error instanceof Error ? error.message : 'Failed to process file' }));
     } finally {
+      delete parseCancellers.current[file.name];
+      setParseProgress(prev => {
+        const next = { ...prev };
+        delete next[file.name];
+        return next;
+      });
       setProcessingFiles(prev => prev.filter(name => name !== file.name));
     }
   };
 
-  const processAllAccumulatedData = async () => {
-    if (accumulatedData.length === 0) return;
+  /**
+   * Keep the result with the rows it ran on, so reopening it restores the chat tools' data
+   */
+  const storeAnalysis = (analysisId: string, analysis: { analysis: SpendAnalysis[]; summary: SummaryMetrics; quarantined?: QuarantinedItem[] }) => {
+    saveAnalysis({
+      id: analysisId,
+      fileNames: uploadedFiles.map(file => file.name),
+      fileHashes: uploadedFiles.map(file => fileHashes[file.name]).filter(Boolean),
+      createdAt: new Date().toISOString(),
+      rowCount: analysisRows.length,
+      analysis: analysis.analysis,
+      summary: analysis.summary,
+      quarantined: analysis.quarantined,
+      rows: analysisRows
+    }).catch(error => logError('FileUpload', error));
+  };
+
+  /**
+   * Run the analysis as a job, or resume a failed one from its last completed stage.
+   * A cached result for the same files and prepared rows skips the run. Only the
+   * provider that would run first is looked up: a cached fallback result must not
+   * stand in for the primary once it is reachable again.
+   */
+  const processAllAccumulatedData = async (resumeJob?: AnalysisJob) => {
+    if (analysisRows.length === 0) return;
     
-    console.log('[FileUpload] Processing all accumulated data:', accumulatedData.length, 'records');
+    console.log('[FileUpload] Processing all accumulated data:', analysisRows.length, 'records');
     
-    try {
-      let analysis;
-      if (useEnhancedAnalysis) {
-        console.log('[FileUpload] Using Enhanced Analysis with external APIs...');
-        analysis = await processWithExternalAPIs(accumulatedData);
-      } else {
-        console.log('[FileUpload] Using Standard Analysis with external APIs...');
-        analysis = await processWithNormalAPIs(accumulatedData);
+    const analysisId = await currentAnalysisId();
+    const mappingHash = analysisId ? await hashPreparedRows(analysisRows) : null;
+    if (!resumeJob && analysisId && mappingHash) {
+      const firstProviderId = providerOrder.find(id => getProvider(id)?.isConfigured());
+      const key = firstProviderId ? cacheKeyFor(analysisId, mappingHash, firstProviderId) : null;
+      const cached = key ? await getCachedAnalysis(key) : null;
+      if (cached) {
+        console.log('[FileUpload] Using cached analysis from', cached.createdAt);
+        const analysis = {
+          analysis: cached.analysis,
+          summary: cached.summary,
+          quarantined: cached.quarantined,
+          cached: { key: cached.key, providerId: cached.providerId, createdAt: cached.createdAt }
+        };
+        setLastAnalysisData(analysis);
+        storeAnalysis(analysisId, analysis);
+        return analysis;
       }
+    }
+    
+    const currentJob = resumeJob ?? createAnalysisJob(providerOrder);
+    activeJobId.current = currentJob.id;
+    setJob(currentJob);
+
+    try {
+      console.log('[FileUpload] Provider order:', currentJob.providerOrder.join(' → '));
+      const run = await runAnalysisJob(currentJob.id, () => analysisRows);
+      const analysis = { analysis: run.analysis, summary: run.summary, quarantined: run.quarantined };
       
-      console.log('[FileUpload] Combined analysis complete:', analysis);
+      console.log('[FileUpload] Combined analysis complete with', run.providerId, analysis);
+      setLastProviderRun(run);
       setLastAnalysisData(analysis);
+      
+      const key = analysisId && mappingHash ? cacheKeyFor(analysisId, mappingHash, run.providerId) : null;
+      if (key) cacheAnalysis(key, analysis);
+      if (analysisId) storeAnalysis(analysisId, analysis);
       return analysis;
       
     } catch (error) {
-      console.error('[FileUpload] Error processing combined data:', error);
+      // The failed job stays on screen with its stage and a Resume button
+      if (isCancelledError(error)) {
+        console.log('[FileUpload] Analysis cancelled');
+      } else {
+        console.error('[FileUpload] Error processing combined data:', error);
+      }
       return null;
+    } finally {
+      if (activeJobId.current === currentJob.id) activeJobId.current = null;
+    }
+  };
+
+  const continueToDashboard = async (resumeJob?: AnalysisJob) => {
+    let result = lastAnalysisData;
+    if (!result && analysisRows.length > 0) {
+      // Process accumulated data first
+      result = await processAllAccumulatedData(resumeJob) ?? null;
+    }
+    if (onAnalysisComplete && result) {
+      const analysisId = await currentAnalysisId();
+      onAnalysisComplete(result.analysis, result.summary, {
+        analysisId: analysisId || undefined,
+        fileNames: uploadedFiles.map(file => file.name),
+        quarantined: result.quarantined,
+        cached: result.cached,
+        rows: analysisRows
+      });
     }
   };
 
@@ -161,7 +576,13 @@ const FileUpload = ({ onFilesUploaded, uploadedFiles, onAnalysisComplete, useEnh
     multiple: true
   });
 
+  const cancelParsing = (fileName: string) => {
+    parseCancellers.current[fileName]?.();
+  };
+
   const removeFile = (index: number) => {
+    // A file removed while parsing must not land in the data afterwards
+    cancelParsing(uploadedFiles[index].name);
     const newFiles = uploadedFiles.filter((_, i) => i !== index);
     onFilesUploaded(newFiles);
   };
@@ -182,8 +603,27 @@ const FileUpload = ({ onFilesUploaded, uploadedFiles, onAnalysisComplete, useEnh
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
+  const formatParseProgress = (progress: ParseProgress) => {
+    const percent = progress.totalBytes > 0 ? Math.round((progress.bytesRead / progress.totalBytes) * 100) : 100;
+    if (progress.stage === 'reading') return `Reading... ${percent}%`;
+    if (progress.rowsParsed === 0) return 'Parsing workbook...';
+    return `${progress.rowsParsed.toLocaleString()} rows · ${percent}%`;
+  };
+
   return (
     <div className="space-y-6">
+      {job && job.stage !== 'done' && (
+        <div className="fixed inset-0 z-50 overflow-y-auto bg-gradient-to-br from-primary-900 via-slate-900 to-primary-900">
+          <LoadingScreen
+            companyName={uploadedFiles.length === 1 ? uploadedFiles[0].name : `${uploadedFiles.length} files`}
+            job={job}
+            onCancel={() => cancelAnalysisJob(job.id)}
+            onResume={() => continueToDashboard(job)}
+            onClose={() => setJob(null)}
+          />
+        </div>
+      )}
+
       <div
         {...getRootProps()}
         className={`border-2 border-dashed rounded-xl p-12 text-center cursor-pointer transition-all ${
@@ -220,54 +660,121 @@ const FileUpload = ({ onFilesUploaded, uploadedFiles, onAnalysisComplete, useEnh
                 initial={{ opacity: 0, x: -20 }}
                 animate={{ opacity: 1, x: 0 }}
                 exit={{ opacity: 0, x: 20 }}
-                className="flex items-center justify-between bg-white/5 border border-white/10 rounded-lg p-4"
+                className="bg-white/5 border border-white/10 rounded-lg p-4"
               >
-                <div className="flex items-center space-x-3">
-                  <span className="text-2xl">{getFileIcon(file)}</span>
-                  <div>
-                    <p className="text-white font-medium">{file.name}</p>
-                    <p className="text-gray-400 text-sm">{formatFileSize(file.size)}</p>
-                  </div>
-                </div>
-                <div className="flex items-center space-x-2">
-                  {processingFiles.includes(file.name) ? (
-                    <div className="flex items-center space-x-2 text-yellow-400">
-                      <div className="w-4 h-4 border-2 border-yellow-400 border-t-transparent rounded-full animate-spin" />
-                      <span className="text-sm">
-                        {useEnhancedAnalysis ? 'Enhanced analysis...' : 'Analyzing...'}
-                      </span>
-                    </div>
-                  ) : analysisStatus[file.name] === 'error' ? (
-                    <div className="flex items-center space-x-2 text-red-400">
-                      <AlertCircle className="w-4 h-4" />
-                      <span className="text-sm" title={errorMessages[file.name]}>Error</span>
-                    </div>
-                  ) : analysisStatus[file.name] === 'completed' ? (
-                    <div className="flex items-center space-x-2 text-green-400">
-                      <CheckCircle className="w-4 h-4" />
-                      <span className="text-sm">
-                        {useEnhancedAnalysis ? '✨ Enhanced' : 'Analyzed'}
-                      </span>
-                    </div>
-                  ) : (
-                    <div className="flex items-center space-x-2 text-green-400">
-                      <CheckCircle className="w-4 h-4" />
-                      <span className="text-sm">Ready</span>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-3">
+                    <span className="text-2xl">{getFileIcon(file)}</span>
+                    <div>
+                      <p className="text-white font-medium">{file.name}</p>
+                      <p className="text-gray-400 text-sm">{formatFileSize(file.size)}</p>
                     </div>
-                  )}
-                  <button
-                    onClick={() => removeFile(index)}
-                    className="p-1 hover:bg-red-500/20 rounded text-red-400 hover:text-red-300 transition-colors"
-                  >
-                    <X className="w-4 h-4" />
-                  </button>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    {processingFiles.includes(file.name) ? (
+                      <div className="flex items-center space-x-2 text-yellow-400">
+                        <div className="w-4 h-4 border-2 border-yellow-400 border-t-transparent rounded-full animate-spin" />
+                        <span className="text-sm">
+                          {parseProgress[file.name]
+                            ? formatParseProgress(parseProgress[file.name])
+                            : marketEnriched ? 'Enhanced analysis...' : 'Analyzing...'}
+                        </span>
+                        {parseProgress[file.name] && (
+                          <button
+                            onClick={() => cancelParsing(file.name)}
+                            className="text-xs px-2 py-0.5 bg-white/10 hover:bg-white/20 text-gray-300 rounded transition-colors"
+                          >
+                            Cancel
+                          </button>
+                        )}
+                      </div>
+                    ) : analysisStatus[file.name] === 'error' ? (
+                      <div className="flex items-center space-x-2 text-red-400">
+                        <AlertCircle className="w-4 h-4" />
+                        <span className="text-sm" title={errorMessages[file.name]}>Error</span>
+                      </div>
+                    ) : analysisStatus[file.name] === 'completed' ? (
+                      <div className="flex items-center space-x-2 text-green-400">
+                        <CheckCircle className="w-4 h-4" />
+                        <span className="text-sm">
+                          {marketEnriched ? '✨ Enhanced' : 'Analyzed'}
+                        </span>
+                      </div>
+                    ) : (
+                      <div className="flex items-center space-x-2 text-green-400">
+                        <CheckCircle className="w-4 h-4" />
+                        <span className="text-sm">Ready</span>
+                      </div>
+                    )}
+                    <button
+                      onClick={() => removeFile(index)}
+                      className="p-1 hover:bg-red-500/20 rounded text-red-400 hover:text-red-300 transition-colors"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
                 </div>
+                {workbookSheets[file.name] && workbookSheets[file.name].length > 0 && (
+                  <SheetSelector
+                    sheets={workbookSheets[file.name]}
+                    selectedSheets={selectedSheets[file.name] || []}
+                    onToggleSheet={(sheetName) => toggleSheet(file.name, sheetName)}
+                  />
+                )}
               </motion.div>
             ))}
           </motion.div>
         )}
       </AnimatePresence>
 
+      {mappingGroups.length > 0 && (
+        <div className="space-y-3">
+          {mappingGroups.map(group => mappingReviews[group.fingerprint] && (
+            <ColumnMappingStep
+              key={group.fingerprint}
+              sources={group.sources}
+              headers={group.headers}
+              sampleRow={group.rows[0]}
+              review={mappingReviews[group.fingerprint]}
+              amounts={amountColumns[group.fingerprint]}
+              onChangeField={(field, header) => updateMappingField(group.fingerprint, field, header)}
+              onConfirm={(profileName) => confirmMapping(group.fingerprint, group.headers, profileName)}
+              onEdit={() => editMapping(group.fingerprint)}
+            />
+          ))}
+        </div>
+      )}
+
+      {mappingGroups.length > 0 && (
+        <CurrencyPanel
+          reportingCurrency={reportingCurrency}
+          rates={fxRates}
+          usage={currencyUsage}
+          onChangeReportingCurrency={changeReportingCurrency}
+          onRatesChange={updateFxRates}
+        />
+      )}
+
+      {qualityReport && (
+        <DataQualityPanel
+          report={qualityReport}
+          rows={mappedData}
+          currency={reportingCurrency}
+          keepDuplicates={keepDuplicates}
+          onKeepDuplicatesChange={setKeepDuplicates}
+        />
+      )}
+
+      {qualityReport && (
+        <VendorMergeReview
+          proposals={mergeProposals}
+          vendorCount={vendorCount}
+          currency={reportingCurrency}
+          onAccept={acceptMerge}
+          onReject={rejectMerge}
+        />
+      )}
+
       {uploadedFiles.length > 0 && (
         <div className="space-y-4">
           <div className="bg-green-500/10 border border-green-500/20 rounded-lg p-4">
@@ -282,25 +789,32 @@ const FileUpload = ({ onFilesUploaded, uploadedFiles, onAnalysisComplete, useEnh
             </p>
           </div>
           
+          {lastAnalysisData && lastProviderRun && lastProviderRun.attempts.some(attempt => attempt.error) && (
+            <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3 text-sm text-yellow-200">
+              Analyzed with {getProvider(lastProviderRun.providerId)?.label || lastProviderRun.providerId}.{' '}
+              {lastProviderRun.attempts
+                .filter(attempt => attempt.error)
+                .map(attempt => `${getProvider(attempt.providerId)?.label || attempt.providerId}: ${attempt.error}`)
+                .join('; ')}
+            </div>
+          )}
+          
           {/* Continue button - only enable when processing is complete */}
           <button
-            onClick={async () => {
-              if (!lastAnalysisData && accumulatedData.length > 0) {
-                // Process accumulated data first
-                await processAllAccumulatedData();
-              }
-              if (onAnalysisComplete && lastAnalysisData) {
-                onAnalysisComplete(lastAnalysisData.analysis, lastAnalysisData.summary);
-              }
-            }}
-            disabled={processingFiles.length > 0 || (accumulatedData.length === 0)}
+            onClick={() => continueToDashboard()}
+            disabled={isAnalyzing || processingFiles.length > 0 || accumulatedData.length === 0 || !allMappingsConfirmed || analysisRows.length === 0}
             className={`w-full font-semibold py-3 px-6 rounded-lg transition-all flex items-center justify-center gap-2 group ${
-              processingFiles.length > 0 || accumulatedData.length === 0
+              isAnalyzing || processingFiles.length > 0 || accumulatedData.length === 0 || !allMappingsConfirmed || analysisRows.length === 0
                 ? 'bg-gray-600 cursor-not-allowed text-gray-300'
                 : 'bg-purple-600 hover:bg-purple-700 text-white'
             }`}
           >
-            {processingFiles.length > 0 ? (
+            {isAnalyzing ? (
+              <>
+                <div className="w-5 h-5 border-2 border-gray-300 border-t-transparent rounded-full animate-spin" />
+                Running Analysis...
+              </>
+            ) : processingFiles.length > 0 ? (
               <>
                 <div className="w-5 h-5 border-2 border-gray-300 border-t-transparent rounded-full animate-spin" />
                 Analyzing Files...
@@ -310,6 +824,10 @@ const FileUpload = ({ onFilesUploaded, uploadedFiles, onAnalysisComplete, useEnh
                 <div className="w-5 h-5 border-2 border-gray-300 border-t-transparent rounded-full animate-spin opacity-50" />
                 Waiting for Files...
               </>
+            ) : !allMappingsConfirmed ? (
+              <>Confirm Column Mapping to Continue</>
+            ) : analysisRows.length === 0 ? (
+              <>No Valid Rows to Analyze</>
             ) : !lastAnalysisData ? (
               <>
                 Process & Continue
@@ -1,12 +1,143 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { Brain, FileText, BarChart3, CheckCircle } from 'lucide-react';
+import { Brain, FileText, BarChart3, CheckCircle, ShieldCheck, AlertCircle, Clock } from 'lucide-react';
+import type { AnalysisJob, JobStage, JobStageEntry } from '../services/analysisJobs';
+import { getProvider } from '../services/providers';
 
 interface LoadingScreenProps {
   companyName: string;
+  job?: AnalysisJob; // Live job; without one the screen shows the generic steps
+  onCancel?: () => void;
+  onResume?: () => void;
+  onClose?: () => void;
 }
 
-const LoadingScreen: React.FC<LoadingScreenProps> = ({ companyName }) => {
+const JOB_STEPS: { stage: JobStage; icon: typeof Brain; text: string }[] = [
+  { stage: 'parsing', icon: FileText, text: 'Preparing uploaded data' },
+  { stage: 'normalizing', icon: Brain, text: 'Normalizing vendor data' },
+  { stage: 'enriching', icon: BarChart3, text: 'Identifying cost optimization opportunities' },
+  { stage: 'validating', icon: ShieldCheck, text: 'Validating recommendations' }
+];
+
+const formatDuration = (entry: JobStageEntry) => {
+  if (!entry.endedAt) return '';
+  const ms = new Date(entry.endedAt).getTime() - new Date(entry.startedAt).getTime();
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+};
+
+const JobProgress = ({ job, onCancel, onResume, onClose }: Omit<LoadingScreenProps, 'companyName'> & { job: AnalysisJob }) => {
+  const failed = job.stage === 'failed';
+  const currentStage = failed ? job.failedStage : job.stage;
+  const currentIndex = JOB_STEPS.findIndex(step => step.stage === currentStage);
+  const progress = job.stage === 'done' ? 100 : Math.max(currentIndex, 0) / JOB_STEPS.length * 100;
+  const providerLabel = (id?: string) => (id ? getProvider(id)?.label || id : '');
+
+  return (
+    <>
+      <div className="space-y-4">
+        {job.stage === 'queued' && (
+          <div className="flex items-center space-x-3 bg-white/5 border border-white/10 rounded-lg p-4">
+            <Clock className="w-4 h-4 text-gray-400" />
+            <span className="text-gray-300">Waiting for the previous analysis to finish</span>
+          </div>
+        )}
+        {JOB_STEPS.map((step, index) => {
+          // The latest attempt at this stage, e.g. after a provider fallback
+          const entry = [...job.timeline].reverse().find(item => item.stage === step.stage);
+          const isCurrent = index === currentIndex;
+          const isDone = job.stage === 'done' || (entry && !isCurrent && index < currentIndex);
+
+          return (
+            <motion.div
+              key={step.stage}
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: index * 0.1 }}
+              className={`flex items-center space-x-3 border rounded-lg p-4 ${
+                isCurrent && failed ? 'bg-red-500/10 border-red-500/30' : 'bg-white/5 border-white/10'
+              }`}
+            >
+              <div className="w-8 h-8 bg-purple-500/20 rounded-lg flex items-center justify-center">
+                <step.icon className="w-4 h-4 text-purple-400" />
+              </div>
+              <div className="text-left">
+                <span className={isDone || isCurrent ? 'text-white' : 'text-gray-500'}>{step.text}</span>
+                {entry?.providerId && (isDone || isCurrent) && (
+                  <p className="text-xs text-gray-400">
+                    {providerLabel(entry.providerId)}{entry.reused ? ' · reused from the previous attempt' : ''}
+                  </p>
+                )}
+              </div>
+              <div className="ml-auto flex items-center gap-2">
+                {isDone && entry && <span className="text-xs text-gray-400">{formatDuration(entry)}</span>}
+                {isDone ? (
+                  <CheckCircle className="w-5 h-5 text-green-400" />
+                ) : isCurrent && failed ? (
+                  <AlertCircle className="w-5 h-5 text-red-400" />
+                ) : isCurrent ? (
+                  <div className="w-5 h-5 border-2 border-purple-400 border-t-transparent rounded-full animate-spin" />
+                ) : null}
+              </div>
+            </motion.div>
+          );
+        })}
+      </div>
+
+      <div className="mt-8">
+        <div className="w-full bg-gray-700 rounded-full h-2 mb-2">
+          <motion.div
+            className={`${failed ? 'bg-red-500' : 'bg-purple-500'} h-2 rounded-full`}
+            animate={{ width: `${progress}%` }}
+            transition={{ duration: 0.4, ease: 'easeOut' }}
+          />
+        </div>
+        {failed ? (
+          <div className="space-y-4">
+            <p className="text-red-300 text-sm">{job.error}</p>
+            <div className="flex justify-center gap-3">
+              {onResume && (
+                <button
+                  onClick={onResume}
+                  className="px-5 py-2 bg-purple-600 hover:bg-purple-700 text-white font-semibold rounded-lg transition-colors"
+                >
+                  Resume
+                </button>
+              )}
+              {onClose && (
+                <button
+                  onClick={onClose}
+                  className="px-5 py-2 bg-white/10 hover:bg-white/20 text-gray-200 font-semibold rounded-lg transition-colors"
+                >
+                  Close
+                </button>
+              )}
+            </div>
+            {job.normalizedBy.length > 0 && (
+              <p className="text-gray-400 text-xs">Normalized data is kept, so resuming continues with enrichment</p>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-gray-400 text-sm">
+              {job.rowCount > 0 ? `${job.rowCount.toLocaleString()} rows · ` : ''}
+              {job.providerId ? providerLabel(job.providerId) : 'Starting'}
+            </p>
+            {onCancel && job.stage !== 'done' && (
+              <button
+                onClick={onCancel}
+                className="px-5 py-2 bg-white/10 hover:bg-white/20 text-gray-200 font-semibold rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
+
+const LoadingScreen: React.FC<LoadingScreenProps> = ({ companyName, job, onCancel, onResume, onClose }) => {
   const steps = [
     { icon: FileText, text: 'Processing uploaded documents', duration: 1000 },
     { icon: Brain, text: 'Analyzing procurement data with AI', duration: 1500 },
@@ -19,55 +150,65 @@ const LoadingScreen: React.FC<LoadingScreenProps> = ({ companyName }) => {
       <motion.div
         initial={{ opacity: 0, scale: 0.9 }}
         animate={{ opacity: 1, scale: 1 }}
-        className="text-center max-w-md"
+        className="text-center max-w-md w-full"
       >
         <div className="mb-8">
           <div className="w-20 h-20 mx-auto bg-purple-500 rounded-full flex items-center justify-center mb-4">
             <Brain className="w-10 h-10 text-white animate-pulse" />
           </div>
           <h2 className="text-3xl font-bold text-white mb-2">Analyzing {companyName}</h2>
-          <p className="text-gray-300">Our AI is processing your procurement data...</p>
+          <p className="text-gray-300">
+            {job?.stage === 'failed'
+              ? job.cancelled ? 'The analysis was cancelled' : 'The analysis stopped with an error'
+              : 'Our AI is processing your procurement data...'}
+          </p>
         </div>
 
-        <div className="space-y-4">
-          {steps.map((step, index) => (
-            <motion.div
-              key={index}
-              initial={{ opacity: 0, x: -20 }}
-              animate={{ opacity: 1, x: 0 }}
-              transition={{ delay: index * 0.5 }}
-              className="flex items-center space-x-3 bg-white/5 border border-white/10 rounded-lg p-4"
-            >
-              <div className="w-8 h-8 bg-purple-500/20 rounded-lg flex items-center justify-center">
-                <step.icon className="w-4 h-4 text-purple-400" />
-              </div>
-              <span className="text-white">{step.text}</span>
-              <motion.div
-                initial={{ scale: 0 }}
-                animate={{ scale: 1 }}
-                transition={{ delay: index * 0.5 + 0.8 }}
-                className="ml-auto"
-              >
-                <CheckCircle className="w-5 h-5 text-green-400" />
-              </motion.div>
-            </motion.div>
-          ))}
-        </div>
+        {job ? (
+          <JobProgress job={job} onCancel={onCancel} onResume={onResume} onClose={onClose} />
+        ) : (
+          <>
+            <div className="space-y-4">
+              {steps.map((step, index) => (
+                <motion.div
+                  key={index}
+                  initial={{ opacity: 0, x: -20 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  transition={{ delay: index * 0.5 }}
+                  className="flex items-center space-x-3 bg-white/5 border border-white/10 rounded-lg p-4"
+                >
+                  <div className="w-8 h-8 bg-purple-500/20 rounded-lg flex items-center justify-center">
+                    <step.icon className="w-4 h-4 text-purple-400" />
+                  </div>
+                  <span className="text-white">{step.text}</span>
+                  <motion.div
+                    initial={{ scale: 0 }}
+                    animate={{ scale: 1 }}
+                    transition={{ delay: index * 0.5 + 0.8 }}
+                    className="ml-auto"
+                  >
+                    <CheckCircle className="w-5 h-5 text-green-400" />
+                  </motion.div>
+                </motion.div>
+              ))}
+            </div>
 
-        <div className="mt-8">
-          <div className="w-full bg-gray-700 rounded-full h-2 mb-2">
-            <motion.div
-              className="bg-purple-500 h-2 rounded-full"
-              initial={{ width: 0 }}
-              animate={{ width: '100%' }}
-              transition={{ duration: 3, ease: 'easeInOut' }}
-            />
-          </div>
-          <p className="text-gray-400 text-sm">This usually takes 30-60 seconds</p>
-        </div>
+            <div className="mt-8">
+              <div className="w-full bg-gray-700 rounded-full h-2 mb-2">
+                <motion.div
+                  className="bg-purple-500 h-2 rounded-full"
+                  initial={{ width: 0 }}
+                  animate={{ width: '100%' }}
+                  transition={{ duration: 3, ease: 'easeInOut' }}
+                />
+              </div>
+              <p className="text-gray-400 text-sm">This usually takes 30-60 seconds</p>
+            </div>
+          </>
+        )}
       </motion.div>
     </div>
   );
 };
 
-export default LoadingScreen;
\ No newline at end of file
+export default LoadingScreen;
@@ -3,6 +3,7 @@ import { motion } from 'framer-motion';
 import { ArrowRight, Building2, Upload, FileText, BarChart3 } from 'lucide-react';
 import type { CompanyData, SpendAnalysis, SummaryMetrics } from '../types';
 import FileUpload from './FileUpload';
+import { loadWorkspaceSettings } from '../services/workspaceSettings';
 
 interface OnboardingProps {
   onComplete: (data: CompanyData, analysis?: SpendAnalysis[], summary?: SummaryMetrics) => void;
@@ -19,6 +20,7 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
   const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
   const [analysisData, setAnalysisData] = useState<SpendAnalysis[] | null>(null);
   const [summaryData, setSummaryData] = useState<SummaryMetrics | null>(null);
+  const [providerOrder] = useState(() => loadWorkspaceSettings().providerOrder);
 
   const steps = [
     {
@@ -161,6 +163,7 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
           <FileUpload 
             onFilesUploaded={setUploadedFiles}
             uploadedFiles={uploadedFiles}
+            providerOrder={providerOrder}
             onAnalysisComplete={(analysis, summary) => {
               console.log('[Onboarding] Analysis received from FileUpload:', { analysis, summary });
               setAnalysisData(analysis);
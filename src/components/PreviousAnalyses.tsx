@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Clock, FolderOpen, HardDrive, Trash2 } from 'lucide-react';
+import { deleteAnalysis, getStorageEstimate, listAnalyses, requestPersistentStorage } from '../services/workspaceDb';
+import type { StorageEstimate, StoredAnalysis } from '../services/workspaceDb';
+import { formatMoney } from '../utils/currency';
+import { logError } from '../utils/errorHandling';
+
+interface PreviousAnalysesProps {
+  onOpen: (record: StoredAnalysis) => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+const PreviousAnalyses = ({ onOpen }: PreviousAnalysesProps) => {
+  const [records, setRecords] = useState<StoredAnalysis[]>([]);
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+
+  const refresh = async () => {
+    try {
+      setRecords(await listAnalyses());
+    } catch (error) {
+      logError('PreviousAnalyses', error);
+    }
+    setEstimate(await getStorageEstimate());
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteAnalysis(id);
+    } catch (error) {
+      logError('PreviousAnalyses', error);
+    }
+    refresh();
+  };
+
+  const handlePersist = async () => {
+    await requestPersistentStorage();
+    setEstimate(await getStorageEstimate());
+  };
+
+  if (records.length === 0 && !estimate) return null;
+
+  const usedShare = estimate && estimate.quota > 0 ? (estimate.usage / estimate.quota) * 100 : 0;
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-white font-medium flex items-center gap-2">
+          <Clock className="w-4 h-4 text-purple-400" />
+          Previous analyses
+        </h3>
+        {estimate && (
+          <div className="flex items-center gap-2 text-xs text-gray-400" title={estimate.persisted ? 'Storage is persistent' : 'The browser may clear this storage when space runs low'}>
+            <HardDrive className="w-3.5 h-3.5" />
+            <span>{formatBytes(estimate.usage)} of {formatBytes(estimate.quota)}</span>
+            <div className="w-20 h-1.5 bg-white/10 rounded-full overflow-hidden">
+              <div
+                className={`h-full ${usedShare > 80 ? 'bg-red-400' : 'bg-purple-400'}`}
+                style={{ width: `${Math.max(usedShare, 1)}%` }}
+              />
+            </div>
+            {!estimate.persisted && (
+              <button onClick={handlePersist} className="text-purple-300 hover:text-purple-200">
+                Keep
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {records.length === 0 ? (
+        <p className="text-gray-500 text-sm">Analyses you run are saved in this browser and listed here.</p>
+      ) : (
+        <div className="space-y-2">
+          {records.map(record => (
+            <motion.div
+              key={record.id}
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              className="flex items-center justify-between bg-white/5 border border-white/10 rounded-lg px-3 py-2"
+            >
+              <div className="min-w-0">
+                <p className="text-white text-sm truncate">{record.fileNames.join(', ')}</p>
+                <p className="text-gray-400 text-xs">
+                  {new Date(record.createdAt).toLocaleString()} · {record.analysis.length} vendors ·{' '}
+                  {formatMoney(record.summary.pastSpend, record.summary.currency)}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <button
+                  onClick={() => onOpen(record)}
+                  className="flex items-center gap-1 px-3 py-1 bg-purple-600 hover:bg-purple-700 text-white text-sm rounded transition-colors"
+                >
+                  <FolderOpen className="w-4 h-4" />
+                  Open
+                </button>
+                <button
+                  onClick={() => handleDelete(record.id)}
+                  className="p-1.5 text-gray-400 hover:text-red-400 transition-colors"
+                  title="Delete analysis"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </motion.div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PreviousAnalyses;
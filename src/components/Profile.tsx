@@ -1,10 +1,15 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
 import { 
   ArrowLeft, User, Settings, Shield, 
   BarChart3, FileText, 
-  Edit3, Save, X 
+  Edit3, Save, X, AlertCircle, CheckCircle
 } from 'lucide-react';
+import { getConfigIssues } from '../services/appConfig';
+import { CACHE_TTL_MS, clearAnalysisCache, getCacheStats } from '../services/analysisCache';
+import type { CacheStats } from '../services/analysisCache';
+import { logError } from '../utils/errorHandling';
+import ChatModelSettings from './ChatModelSettings';
 
 interface ProfileProps {
   onBack: () => void;
@@ -33,6 +38,26 @@ const Profile: React.FC<ProfileProps> = ({ onBack }) => {
     setIsEditing(false);
   };
 
+  const configIssues = getConfigIssues();
+  const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
+
+  const refreshCacheStats = () => {
+    getCacheStats()
+      .then(setCacheStats)
+      .catch(error => logError('Profile', error));
+  };
+
+  useEffect(refreshCacheStats, []);
+
+  const handleClearCache = async () => {
+    try {
+      await clearAnalysisCache();
+    } catch (error) {
+      logError('Profile', error);
+    }
+    refreshCacheStats();
+  };
+
   const tabs = [
     { id: 'profile', label: 'Profile', icon: User },
     { id: 'settings', label: 'Settings', icon: Settings },
@@ -270,6 +295,56 @@ const Profile: React.FC<ProfileProps> = ({ onBack }) => {
           </div>
         </div>
       </div>
+
+      <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl p-8">
+        <h3 className="text-xl font-bold text-white mb-2">Configuration</h3>
+        <p className="text-gray-400 text-sm mb-6">Endpoints and keys are read from config.json when the app starts</p>
+        {configIssues.length === 0 ? (
+          <div className="flex items-center gap-2 text-green-400">
+            <CheckCircle className="w-4 h-4" />
+            <span className="text-sm">All features are configured</span>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {configIssues.map(issue => (
+              <div key={`${issue.path}-${issue.message}`} className="flex items-start gap-2">
+                <AlertCircle className={`w-4 h-4 mt-0.5 flex-shrink-0 ${issue.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}`} />
+                <span className="text-gray-300 text-sm">{issue.message}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <ChatModelSettings />
+
+      <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl p-8">
+        <h3 className="text-xl font-bold text-white mb-2">Analysis Cache</h3>
+        <p className="text-gray-400 text-sm mb-6">
+          Results are reused when the same files are analyzed again with the same mapping and provider.
+          Entries expire after {Math.round(CACHE_TTL_MS / (24 * 60 * 60 * 1000))} days.
+        </p>
+        <div className="flex items-center justify-between">
+          <div>
+            <h4 className="text-white font-medium">
+              {cacheStats ? `${cacheStats.entries} cached ${cacheStats.entries === 1 ? 'result' : 'results'}` : 'Cache unavailable'}
+            </h4>
+            {cacheStats && cacheStats.entries > 0 && (
+              <p className="text-gray-400 text-sm">
+                {(cacheStats.size / (1024 * 1024)).toFixed(1)} MB
+                {cacheStats.oldest ? ` · oldest from ${new Date(cacheStats.oldest).toLocaleDateString()}` : ''}
+              </p>
+            )}
+          </div>
+          <button
+            onClick={handleClearCache}
+            disabled={!cacheStats || cacheStats.entries === 0}
+            className="px-4 py-2 bg-white/10 hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed text-gray-200 font-medium rounded-lg transition-colors"
+          >
+            Clear cache
+          </button>
+        </div>
+      </div>
     </div>
   );
 
@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, CheckCircle, Globe, KeyRound, Wifi, WifiOff, XCircle } from 'lucide-react';
+import { listProviders } from '../services/providers';
+import type { AnalysisProvider, ProviderHealth } from '../services/providers';
+
+interface ProviderPickerProps {
+  order: string[]; // Enabled providers, primary first
+  onChange: (order: string[]) => void;
+}
+
+const ProviderPicker = ({ order, onChange }: ProviderPickerProps) => {
+  const [health, setHealth] = useState<Record<string, ProviderHealth | 'checking'>>({});
+
+  const providers = listProviders();
+  const enabled = order
+    .map(id => providers.find(provider => provider.id === id))
+    .filter((provider): provider is AnalysisProvider => Boolean(provider));
+  const disabled = providers.filter(provider => !order.includes(provider.id));
+
+  const toggle = (id: string) => {
+    if (order.includes(id)) {
+      // Keep at least one provider to run
+      if (enabled.length > 1) onChange(order.filter(other => other !== id));
+    } else {
+      onChange([...order, id]);
+    }
+  };
+
+  const move = (id: string, offset: number) => {
+    const ids = enabled.map(provider => provider.id);
+    const from = ids.indexOf(id);
+    const to = from + offset;
+    if (to < 0 || to >= ids.length) return;
+    [ids[from], ids[to]] = [ids[to], ids[from]];
+    onChange(ids);
+  };
+
+  const checkConnections = async () => {
+    const configured = providers.filter(provider => provider.isConfigured());
+    setHealth(Object.fromEntries(configured.map(provider => [provider.id, 'checking' as const])));
+    await Promise.all(configured.map(async provider => {
+      const result = await provider.healthCheck();
+      setHealth(prev => ({ ...prev, [provider.id]: result }));
+    }));
+  };
+
+  const renderStatus = (provider: AnalysisProvider) => {
+    if (!provider.isConfigured()) {
+      return <span className="text-xs text-gray-500">Not configured</span>;
+    }
+    const status = health[provider.id];
+    if (status === 'checking') {
+      return <div className="w-3.5 h-3.5 border-2 border-gray-400 border-t-transparent rounded-full animate-spin" />;
+    }
+    if (!status) return null;
+    return status.ok ? (
+      <CheckCircle className="w-4 h-4 text-green-400" />
+    ) : (
+      <span title={status.detail}>
+        <XCircle className="w-4 h-4 text-red-400" />
+      </span>
+    );
+  };
+
+  const renderRow = (provider: AnalysisProvider, position: number | null) => (
+    <div
+      key={provider.id}
+      className={`flex items-center gap-3 rounded-lg px-3 py-2 border ${
+        position !== null ? 'bg-white/5 border-white/10' : 'border-transparent opacity-60'
+      }`}
+    >
+      <input
+        type="checkbox"
+        checked={position !== null}
+        onChange={() => toggle(provider.id)}
+        className="accent-purple-500"
+      />
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="text-white text-sm font-medium">{provider.label}</span>
+          {position !== null && (
+            <span className="text-xs px-1.5 py-0.5 rounded bg-purple-500/20 text-purple-300">
+              {position === 0 ? 'Primary' : `Fallback ${position}`}
+            </span>
+          )}
+          {provider.capabilities.marketEnrichment && (
+            <span title="Internet-sourced market data"><Globe className="w-3.5 h-3.5 text-blue-400" /></span>
+          )}
+          {provider.capabilities.offline ? (
+            <span title="Runs offline"><WifiOff className="w-3.5 h-3.5 text-green-400" /></span>
+          ) : (
+            <span title="Needs network access"><Wifi className="w-3.5 h-3.5 text-gray-400" /></span>
+          )}
+          {provider.capabilities.requiresApiKey && (
+            <span title="Needs an API key"><KeyRound className="w-3.5 h-3.5 text-gray-400" /></span>
+          )}
+        </div>
+        <p className="text-gray-400 text-xs truncate">{provider.description}</p>
+      </div>
+      {renderStatus(provider)}
+      {position !== null && (
+        <div className="flex flex-col">
+          <button
+            onClick={() => move(provider.id, -1)}
+            disabled={position === 0}
+            className="text-gray-400 hover:text-white disabled:opacity-30"
+            title="Try earlier"
+          >
+            <ArrowUp className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={() => move(provider.id, 1)}
+            disabled={position === enabled.length - 1}
+            className="text-gray-400 hover:text-white disabled:opacity-30"
+            title="Try later"
+          >
+            <ArrowDown className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-xl p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="text-white font-medium mb-1">Analysis provider</h3>
+          <p className="text-gray-400 text-sm">
+            Providers are tried top to bottom until one returns an analysis
+          </p>
+        </div>
+        <button
+          onClick={checkConnections}
+          className="text-sm px-3 py-1 bg-white/10 hover:bg-white/20 text-gray-200 rounded transition-colors"
+        >
+          Check connections
+        </button>
+      </div>
+      <div className="space-y-2">
+        {enabled.map((provider, index) => renderRow(provider, index))}
+        {disabled.map(provider => renderRow(provider, null))}
+      </div>
+    </div>
+  );
+};
+
+export default ProviderPicker;
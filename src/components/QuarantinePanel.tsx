@@ -0,0 +1,70 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, ShieldAlert } from 'lucide-react';
+import type { QuarantinedItem } from '../types';
+
+interface QuarantinePanelProps {
+  items: QuarantinedItem[];
+}
+
+// Raw items can be large; the preview only needs enough to recognize them
+const MAX_PREVIEW_LENGTH = 400;
+
+const preview = (raw: unknown) => {
+  const text = JSON.stringify(raw, null, 2) ?? String(raw);
+  return text.length > MAX_PREVIEW_LENGTH ? `${text.slice(0, MAX_PREVIEW_LENGTH)}…` : text;
+};
+
+const vendorOf = (raw: unknown) =>
+  typeof raw === 'object' && raw !== null && 'vendor' in raw && typeof raw.vendor === 'string' && raw.vendor
+    ? raw.vendor
+    : null;
+
+const QuarantinePanel = ({ items }: QuarantinePanelProps) => {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+
+  return (
+    <div className="bg-yellow-500/5 border border-yellow-500/20 rounded-2xl p-6 space-y-3">
+      <div className="flex items-center gap-3">
+        <ShieldAlert className="w-5 h-5 text-yellow-400" />
+        <div>
+          <h2 className="text-lg font-semibold text-white">Quarantined results</h2>
+          <p className="text-gray-400 text-sm">
+            {items.length} item{items.length !== 1 ? 's' : ''} in the analysis response could not be read and
+            {items.length !== 1 ? ' are' : ' is'} not included in the table or totals
+          </p>
+        </div>
+      </div>
+
+      <div className="divide-y divide-white/5">
+        {items.map(item => (
+          <div key={item.index}>
+            <button
+              onClick={() => setOpenIndex(prev => prev === item.index ? null : item.index)}
+              className="w-full flex items-center justify-between py-2 text-left hover:bg-white/5 rounded transition-colors"
+            >
+              <div className="flex items-center gap-2">
+                {openIndex === item.index ? (
+                  <ChevronDown className="w-4 h-4 text-gray-400" />
+                ) : (
+                  <ChevronRight className="w-4 h-4 text-gray-400" />
+                )}
+                <span className="text-white text-sm">
+                  #{item.index + 1} {vendorOf(item.raw) || <span className="text-gray-500">(no vendor)</span>}
+                </span>
+              </div>
+              <span className="text-yellow-300 text-xs">{item.reasons.join('; ')}</span>
+            </button>
+
+            {openIndex === item.index && (
+              <pre className="text-xs text-gray-300 bg-black/30 rounded p-3 mb-3 overflow-x-auto">
+                {preview(item.raw)}
+              </pre>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default QuarantinePanel;
@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { ChevronDown, EyeOff, Table2 } from 'lucide-react';
+import type { WorkbookSheet } from '../types';
+
+interface SheetSelectorProps {
+  sheets: WorkbookSheet[];
+  selectedSheets: string[];
+  onToggleSheet: (sheetName: string) => void;
+}
+
+const PREVIEW_ROWS = 3;
+const PREVIEW_COLUMNS = 6;
+
+const SheetSelector = ({ sheets, selectedSheets, onToggleSheet }: SheetSelectorProps) => {
+  const [previewSheet, setPreviewSheet] = useState<string | null>(null);
+
+  return (
+    <div className="mt-2 ml-11 space-y-2">
+      <p className="text-gray-400 text-xs">
+        {sheets.length} sheet{sheets.length !== 1 ? 's' : ''} detected · {selectedSheets.length} included
+      </p>
+      {sheets.map(sheet => {
+        const isSelected = selectedSheets.includes(sheet.name);
+        const isPreviewOpen = previewSheet === sheet.name;
+        const previewHeaders = sheet.headers.slice(0, PREVIEW_COLUMNS);
+
+        return (
+          <div key={sheet.name} className="bg-white/5 border border-white/10 rounded-lg">
+            <div className="flex items-center justify-between p-3">
+              <label className="flex items-center gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={isSelected}
+                  onChange={() => onToggleSheet(sheet.name)}
+                  className="rounded border-white/20 bg-white/10 text-purple-500 focus:ring-purple-500"
+                />
+                <Table2 className="w-4 h-4 text-purple-400" />
+                <span className="text-white text-sm font-medium">{sheet.name}</span>
+                <span className="text-gray-400 text-xs">{sheet.rows.length} rows</span>
+                {sheet.hidden && (
+                  <span className="flex items-center gap-1 bg-yellow-500/20 text-yellow-300 text-xs px-2 py-0.5 rounded-full">
+                    <EyeOff className="w-3 h-3" />
+                    Hidden
+                  </span>
+                )}
+                {sheet.pivotOnly && (
+                  <span className="bg-blue-500/20 text-blue-300 text-xs px-2 py-0.5 rounded-full">
+                    Pivot table
+                  </span>
+                )}
+              </label>
+              {sheet.rows.length > 0 && (
+                <button
+                  onClick={() => setPreviewSheet(isPreviewOpen ? null : sheet.name)}
+                  className="flex items-center gap-1 text-gray-400 hover:text-white text-xs transition-colors"
+                >
+                  Preview
+                  <ChevronDown className={`w-3 h-3 transition-transform ${isPreviewOpen ? 'rotate-180' : ''}`} />
+                </button>
+              )}
+            </div>
+            {isPreviewOpen && (
+              <div className="overflow-x-auto border-t border-white/10 p-3">
+                <table className="text-xs text-left">
+                  <thead>
+                    <tr>
+                      {previewHeaders.map(header => (
+                        <th key={header} className="px-2 py-1 text-gray-300 font-semibold whitespace-nowrap">{header}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {sheet.rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                      <tr key={rowIndex} className="border-t border-white/5">
+                        {previewHeaders.map(header => (
+                          <td key={header} className="px-2 py-1 text-gray-400 whitespace-nowrap max-w-[160px] truncate">
+                            {String(row[header] ?? '')}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SheetSelector;
@@ -1,20 +1,19 @@
 import { motion } from 'framer-motion';
 import { TrendingUp, TrendingDown, DollarSign } from 'lucide-react';
 import type { SummaryMetrics } from '../types';
+import { DEFAULT_REPORTING_CURRENCY, formatMoney } from '../utils/currency';
 
 interface SummaryCardsProps {
   metrics: SummaryMetrics;
 }
 
 const SummaryCards = ({ metrics }: SummaryCardsProps) => {
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-EU', {
-      style: 'currency',
-      currency: 'EUR',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(amount);
-  };
+  const currency = metrics.currency || DEFAULT_REPORTING_CURRENCY;
+  const formatCurrency = (amount: number) => formatMoney(amount, currency);
+  const coveragePercent = metrics.coverage !== undefined ? Math.round(metrics.coverage * 100) : null;
+  const coverageColor = coveragePercent === null || coveragePercent >= 95
+    ? 'bg-green-400'
+    : coveragePercent >= 80 ? 'bg-yellow-400' : 'bg-red-400';
 
   return (
     <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -31,7 +30,18 @@ const SummaryCards = ({ metrics }: SummaryCardsProps) => {
         <div className="text-4xl font-bold text-white mb-2">
           {formatCurrency(metrics.pastSpend)}
         </div>
-        <p className="text-gray-400 text-sm">Annual procurement spend</p>
+        <p className="text-gray-400 text-sm">Annual procurement spend · reported in {currency}</p>
+        {coveragePercent !== null && (
+          <div className="mt-4" title="Share of the uploaded spend that the analyzed vendors account for">
+            <div className="flex items-center justify-between text-xs mb-1">
+              <span className="text-gray-400">Spend analyzed</span>
+              <span className="text-white font-semibold">{coveragePercent}%</span>
+            </div>
+            <div className="w-full bg-gray-700 rounded-full h-1.5">
+              <div className={`${coverageColor} h-1.5 rounded-full`} style={{ width: `${coveragePercent}%` }} />
+            </div>
+          </div>
+        )}
       </motion.div>
 
       <motion.div
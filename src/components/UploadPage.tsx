@@ -2,23 +2,40 @@ import { useState } from 'react';
 import { motion } from 'framer-motion';
 import { ArrowLeft, Upload, BarChart3, Zap, Shield, HelpCircle } from 'lucide-react';
 import FileUpload from './FileUpload';
-import type { SpendAnalysis, SummaryMetrics } from '../types';
+import PreviousAnalyses from './PreviousAnalyses';
+import ProviderPicker from './ProviderPicker';
+import { loadWorkspaceSettings, saveWorkspaceSettings } from '../services/workspaceSettings';
+import type { StoredAnalysis } from '../services/workspaceDb';
+import type { AnalysisMeta, SpendAnalysis, SummaryMetrics } from '../types';
 
 interface UploadPageProps {
-  onAnalysisComplete: (analysis: SpendAnalysis[], summary: SummaryMetrics) => void;
+  onAnalysisComplete: (analysis: SpendAnalysis[], summary: SummaryMetrics, meta?: AnalysisMeta) => void;
   onBack?: () => void;
 }
 
 const UploadPage: React.FC<UploadPageProps> = ({ onAnalysisComplete, onBack }) => {
   const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
-  const [useEnhancedAnalysis, setUseEnhancedAnalysis] = useState(false);
+  const [providerOrder, setProviderOrder] = useState(() => loadWorkspaceSettings().providerOrder);
 
   const handleFilesUploaded = (files: File[]) => {
     setUploadedFiles(files);
   };
 
-  const handleAnalysisComplete = (analysis: SpendAnalysis[], summary: SummaryMetrics) => {
-    onAnalysisComplete(analysis, summary);
+  const handleProviderOrderChange = (order: string[]) => {
+    setProviderOrder(saveWorkspaceSettings({ providerOrder: order }).providerOrder);
+  };
+
+  const handleAnalysisComplete = (analysis: SpendAnalysis[], summary: SummaryMetrics, meta?: AnalysisMeta) => {
+    onAnalysisComplete(analysis, summary, meta);
+  };
+
+  const handleOpenPrevious = (record: StoredAnalysis) => {
+    onAnalysisComplete(record.analysis, record.summary, {
+      analysisId: record.id,
+      fileNames: record.fileNames,
+      quarantined: record.quarantined,
+      rows: record.rows
+    });
   };
 
   const howItWorks = [
@@ -93,40 +110,14 @@ const UploadPage: React.FC<UploadPageProps> = ({ onAnalysisComplete, onBack }) =
           </motion.p>
         </div>
 
-        {/* Enhanced Analysis Toggle */}
+        {/* Analysis provider and fallback order */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.25 }}
           className="mb-6"
         >
-          <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-xl p-4">
-            <div className="flex items-center justify-between">
-              <div>
-                <h3 className="text-white font-medium mb-1">Enhanced Analysis</h3>
-                <p className="text-gray-400 text-sm">
-                  Use advanced market data enrichment for better insights
-                </p>
-              </div>
-              <label className="relative inline-flex items-center cursor-pointer">
-                <input
-                  type="checkbox"
-                  checked={useEnhancedAnalysis}
-                  onChange={(e) => setUseEnhancedAnalysis(e.target.checked)}
-                  className="sr-only peer"
-                />
-                <div className="w-11 h-6 bg-gray-600 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-purple-300/20 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-purple-500"></div>
-              </label>
-            </div>
-            {useEnhancedAnalysis && (
-              <div className="mt-3 p-3 bg-purple-500/10 border border-purple-500/20 rounded-lg">
-                <p className="text-purple-200 text-xs">
-                  ✨ Enhanced analysis will include internet-sourced market data, 
-                  additional vendor alternatives, and real-time pricing information.
-                </p>
-              </div>
-            )}
-          </div>
+          <ProviderPicker order={providerOrder} onChange={handleProviderOrderChange} />
         </motion.div>
 
         {/* Upload Area */}
@@ -141,11 +132,21 @@ const UploadPage: React.FC<UploadPageProps> = ({ onAnalysisComplete, onBack }) =
               onFilesUploaded={handleFilesUploaded}
               uploadedFiles={uploadedFiles}
               onAnalysisComplete={handleAnalysisComplete}
-              useEnhancedAnalysis={useEnhancedAnalysis}
+              providerOrder={providerOrder}
             />
           </div>
         </motion.div>
 
+        {/* Previously run analyses stored in this browser */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.35 }}
+          className="-mt-6 mb-12"
+        >
+          <PreviousAnalyses onOpen={handleOpenPrevious} />
+        </motion.div>
+
         {/* Simple 3-Column How It Works */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
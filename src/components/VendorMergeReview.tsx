@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { Check, GitMerge, X } from 'lucide-react';
+import type { MergeProposal } from '../utils/entityResolution';
+import { formatMoney } from '../utils/currency';
+
+interface VendorMergeReviewProps {
+  proposals: MergeProposal[];
+  vendorCount: number;
+  currency: string;
+  onAccept: (proposal: MergeProposal, canonical: string) => void;
+  onReject: (proposal: MergeProposal) => void;
+}
+
+// Long proposal lists are collapsed behind "Show all"
+const INITIAL_PROPOSALS = 5;
+
+const scoreClass = (score: number) => {
+  if (score >= 0.85) return 'bg-green-500/20 text-green-300';
+  if (score >= 0.7) return 'bg-yellow-500/20 text-yellow-300';
+  return 'bg-red-500/20 text-red-300';
+};
+
+const VendorMergeReview = ({ proposals, vendorCount, currency, onAccept, onReject }: VendorMergeReviewProps) => {
+  const [canonicalNames, setCanonicalNames] = useState<Record<string, string>>({});
+  const [showAll, setShowAll] = useState(false);
+
+  if (proposals.length === 0) return null;
+
+  const mergedAway = proposals.reduce((sum, proposal) => sum + proposal.variants.length - 1, 0);
+  const visible = showAll ? proposals : proposals.slice(0, INITIAL_PROPOSALS);
+
+  return (
+    <div className="bg-white/5 border border-white/10 rounded-lg p-4 space-y-3">
+      <div className="flex items-center gap-3">
+        <GitMerge className="w-5 h-5 text-purple-400" />
+        <div>
+          <h4 className="text-white font-semibold">Possible duplicate vendors</h4>
+          <p className="text-gray-400 text-xs">
+            {proposals.length} suggested merge{proposals.length !== 1 ? 's' : ''} · {vendorCount} vendors
+            would become {vendorCount - mergedAway} if all are accepted
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {visible.map(proposal => {
+          const canonical = canonicalNames[proposal.id] || proposal.canonical;
+          const totalSpend = proposal.variants.reduce((sum, variant) => sum + variant.spend, 0);
+
+          return (
+            <div key={proposal.id} className="border border-white/10 rounded-lg p-3 space-y-2">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="text-gray-400">Merge into</span>
+                  <select
+                    value={canonical}
+                    onChange={(e) => setCanonicalNames(prev => ({ ...prev, [proposal.id]: e.target.value }))}
+                    className="bg-white/10 border border-white/10 rounded px-2 py-1 text-white text-sm"
+                  >
+                    {proposal.variants.map(variant => (
+                      <option key={variant.name} value={variant.name} className="bg-slate-800">{variant.name}</option>
+                    ))}
+                  </select>
+                  <span className={`text-xs px-2 py-0.5 rounded-full ${scoreClass(proposal.score)}`}>
+                    {Math.round(proposal.score * 100)}%
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => onAccept(proposal, canonical)}
+                    className="flex items-center gap-1 px-3 py-1 bg-purple-600 hover:bg-purple-700 text-white text-sm rounded transition-colors"
+                  >
+                    <Check className="w-4 h-4" />
+                    Merge
+                  </button>
+                  <button
+                    onClick={() => onReject(proposal)}
+                    className="flex items-center gap-1 px-3 py-1 bg-white/10 hover:bg-white/20 text-gray-300 text-sm rounded transition-colors"
+                  >
+                    <X className="w-4 h-4" />
+                    Keep separate
+                  </button>
+                </div>
+              </div>
+              <ul className="text-xs text-gray-300 space-y-0.5">
+                {proposal.variants.map(variant => (
+                  <li key={variant.name} className="flex justify-between gap-4">
+                    <span className="truncate">{variant.name}</span>
+                    <span className="text-gray-500 whitespace-nowrap">
+                      {variant.rows} row{variant.rows !== 1 ? 's' : ''} · {formatMoney(variant.spend, currency)}
+                    </span>
+                  </li>
+                ))}
+                <li className="flex justify-between gap-4 pt-1 border-t border-white/5 text-white">
+                  <span>Combined</span>
+                  <span className="whitespace-nowrap">{formatMoney(totalSpend, currency)}</span>
+                </li>
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+
+      {proposals.length > INITIAL_PROPOSALS && (
+        <button
+          onClick={() => setShowAll(prev => !prev)}
+          className="text-purple-300 hover:text-purple-200 text-xs"
+        >
+          {showAll ? 'Show fewer' : `Show all ${proposals.length} suggestions`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default VendorMergeReview;
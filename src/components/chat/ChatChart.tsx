@@ -0,0 +1,76 @@
+import {
+  Bar, BarChart, CartesianGrid, Cell, Legend, Line, LineChart,
+  Pie, PieChart, ResponsiveContainer, Tooltip, XAxis, YAxis
+} from 'recharts';
+import type { ChartSpec } from '../../utils/markdown';
+import { formatMoney, formatMoneyCompact } from '../../utils/currency';
+
+interface ChatChartProps {
+  spec: ChartSpec;
+}
+
+const COLORS = ['#a855f7', '#3b82f6', '#22c55e', '#f59e0b', '#ef4444', '#14b8a6', '#ec4899', '#8b5cf6'];
+
+const tooltipStyle = { backgroundColor: '#111827', border: '1px solid rgba(255,255,255,0.1)', borderRadius: 8, fontSize: 12 };
+
+const ChatChart = ({ spec }: ChatChartProps) => {
+  const formatValue = (value: number) => (spec.currency ? formatMoney(value, spec.currency) : value.toLocaleString());
+  const formatAxis = (value: number) => (spec.currency ? formatMoneyCompact(value, spec.currency) : value.toLocaleString());
+  const showLegend = spec.y.length > 1;
+
+  const renderChart = () => {
+    if (spec.type === 'pie') {
+      const key = spec.y[0];
+      return (
+        <PieChart>
+          <Pie data={spec.data} dataKey={key} nameKey={spec.x} outerRadius="80%" stroke="none">
+            {spec.data.map((_, index) => <Cell key={index} fill={COLORS[index % COLORS.length]} />)}
+          </Pie>
+          <Tooltip contentStyle={tooltipStyle} formatter={value => formatValue(Number(value))} />
+          <Legend wrapperStyle={{ fontSize: 12 }} />
+        </PieChart>
+      );
+    }
+
+    const axes = [
+      <CartesianGrid key="grid" strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />,
+      <XAxis key="x" dataKey={spec.x} tick={{ fill: '#9ca3af', fontSize: 11 }} interval="preserveStartEnd" />,
+      <YAxis key="y" tick={{ fill: '#9ca3af', fontSize: 11 }} tickFormatter={value => formatAxis(Number(value))} width={64} />,
+      <Tooltip key="tooltip" contentStyle={tooltipStyle} formatter={value => formatValue(Number(value))} cursor={{ fill: 'rgba(255,255,255,0.05)' }} />,
+      ...(showLegend ? [<Legend key="legend" wrapperStyle={{ fontSize: 12 }} />] : [])
+    ];
+
+    if (spec.type === 'line') {
+      return (
+        <LineChart data={spec.data}>
+          {axes}
+          {spec.y.map((key, index) => (
+            <Line key={key} type="monotone" dataKey={key} stroke={COLORS[index % COLORS.length]} strokeWidth={2} dot={false} />
+          ))}
+        </LineChart>
+      );
+    }
+
+    return (
+      <BarChart data={spec.data}>
+        {axes}
+        {spec.y.map((key, index) => (
+          <Bar key={key} dataKey={key} fill={COLORS[index % COLORS.length]} radius={[4, 4, 0, 0]} />
+        ))}
+      </BarChart>
+    );
+  };
+
+  return (
+    <figure className="my-3 bg-black/20 rounded-lg p-3">
+      {spec.title && <figcaption className="text-sm font-medium text-gray-200 mb-2">{spec.title}</figcaption>}
+      <div className="h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          {renderChart()}
+        </ResponsiveContainer>
+      </div>
+    </figure>
+  );
+};
+
+export default ChatChart;
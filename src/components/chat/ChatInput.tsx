@@ -1,10 +1,11 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Send, Loader2 } from 'lucide-react';
+import { Send, Loader2, Square } from 'lucide-react';
 
 interface ChatInputProps {
   onSendMessage: (message: string) => Promise<void>;
   isLoading: boolean;
+  onStop?: () => void; // While loading, the send button becomes a Stop button
   disabled?: boolean;
   placeholder?: string;
 }
@@ -21,6 +22,7 @@ const SUGGESTED_QUESTIONS = [
 const ChatInput: React.FC<ChatInputProps> = ({ 
   onSendMessage, 
   isLoading, 
+  onStop,
   disabled = false, 
   placeholder = "Ask about your vendors, savings opportunities, or optimization strategies..." 
 }) => {
@@ -136,24 +138,37 @@ const ChatInput: React.FC<ChatInputProps> = ({
             )}
           </div>
 
-          {/* Send Button */}
-          <motion.button
-            type="submit"
-            disabled={!canSend}
-            whileHover={canSend ? { scale: 1.05 } : {}}
-            whileTap={canSend ? { scale: 0.95 } : {}}
-            className={`flex items-center justify-center w-10 h-10 rounded-lg transition-all ${
-              canSend
-                ? 'bg-purple-500 hover:bg-purple-600 text-white shadow-lg shadow-purple-500/25'
-                : 'bg-gray-600 text-gray-400 cursor-not-allowed'
-            }`}
-          >
-            {isLoading ? (
-              <Loader2 className="w-5 h-5 animate-spin" />
-            ) : (
-              <Send className="w-5 h-5" />
-            )}
-          </motion.button>
+          {/* Send Button, or Stop while a reply is generated */}
+          {isLoading && onStop ? (
+            <motion.button
+              type="button"
+              onClick={onStop}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              className="flex items-center justify-center w-10 h-10 rounded-lg bg-white/20 hover:bg-white/30 text-white transition-all"
+              title="Stop generating"
+            >
+              <Square className="w-4 h-4 fill-current" />
+            </motion.button>
+          ) : (
+            <motion.button
+              type="submit"
+              disabled={!canSend}
+              whileHover={canSend ? { scale: 1.05 } : {}}
+              whileTap={canSend ? { scale: 0.95 } : {}}
+              className={`flex items-center justify-center w-10 h-10 rounded-lg transition-all ${
+                canSend
+                  ? 'bg-purple-500 hover:bg-purple-600 text-white shadow-lg shadow-purple-500/25'
+                  : 'bg-gray-600 text-gray-400 cursor-not-allowed'
+              }`}
+            >
+              {isLoading ? (
+                <Loader2 className="w-5 h-5 animate-spin" />
+              ) : (
+                <Send className="w-5 h-5" />
+              )}
+            </motion.button>
+          )}
         </div>
 
         {/* Keyboard Shortcut Hint */}
@@ -3,20 +3,27 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { X, ChevronDown, FileText, TrendingUp, DollarSign, Users } from 'lucide-react';
 import ChatMessage from './ChatMessage';
 import ChatInput from './ChatInput';
-import type { ChatContext } from '../../services/conversationData';
+import type { ChatContext, ChatToolCall } from '../../services/conversationData';
+import { formatMoneyCompact } from '../../utils/currency';
 
 interface ChatInterfaceProps {
   isOpen: boolean;
   onClose: () => void;
   chatContext: ChatContext;
   onSendMessage: (message: string) => Promise<void>;
+  streamingReply?: { content: string; toolCalls: ChatToolCall[] } | null; // Reply still being generated, shown after the history
+  onStopGeneration?: () => void;
+  onVendorClick?: (vendor: string) => void; // A vendor cited in a reply was clicked
 }
 
 const ChatInterface: React.FC<ChatInterfaceProps> = ({
   isOpen,
   onClose,
   chatContext,
-  onSendMessage
+  onSendMessage,
+  streamingReply = null,
+  onStopGeneration,
+  onVendorClick
 }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [selectedFileId, setSelectedFileId] = useState<string | undefined>(
@@ -35,7 +42,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     if (isOpen) {
       scrollToBottom();
     }
-  }, [isOpen, chatContext.currentFile?.conversationHistory.length]);
+  }, [isOpen, chatContext.currentFile?.conversationHistory.length, streamingReply]);
 
   // Update selected file when context changes
   useEffect(() => {
@@ -59,12 +66,8 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   const messages = currentFile?.conversationHistory || [];
   const hasData = chatContext.availableFiles.length > 0;
 
-  const formatLargeCurrency = (amount: number) => {
-    if (amount >= 1000000) {
-      return `€${(amount / 1000000).toFixed(1)}M`;
-    }
-    return `€${(amount / 1000).toFixed(0)}K`;
-  };
+  const formatLargeCurrency = (amount: number) =>
+    formatMoneyCompact(amount, chatContext.currentFile?.summaryMetrics.currency);
 
   return (
     <AnimatePresence>
@@ -227,7 +230,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                       </p>
                     </div>
                   </div>
-                ) : messages.length === 0 ? (
+                ) : messages.length === 0 && streamingReply === null ? (
                   <div className="flex-1 flex items-center justify-center text-center">
                     <div className="max-w-xs">
                       <div className="w-16 h-16 bg-purple-500/20 rounded-full flex items-center justify-center mx-auto mb-4">
@@ -248,9 +251,17 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                       <ChatMessage
                         key={message.id}
                         message={message}
-                        isLatest={index === messages.length - 1}
+                        isLatest={index === messages.length - 1 && streamingReply === null}
+                        onVendorClick={onVendorClick}
                       />
                     ))}
+                    {streamingReply !== null && (
+                      <ChatMessage
+                        message={{ id: 'streaming', role: 'assistant', ...streamingReply, timestamp: new Date() }}
+                        isLatest={false}
+                        isStreaming
+                      />
+                    )}
                     <div ref={messagesEndRef} />
                   </>
                 )}
@@ -262,6 +273,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
               <ChatInput
                 onSendMessage={handleSendMessage}
                 isLoading={isLoading}
+                onStop={onStopGeneration}
                 disabled={!hasData}
                 placeholder={
                   !hasData 
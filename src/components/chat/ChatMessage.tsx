@@ -1,20 +1,29 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Copy, Check, Clock, FileText, DollarSign } from 'lucide-react';
+import { Copy, Check, Clock, FileText, DollarSign, Square, Wrench, ChevronDown, WifiOff } from 'lucide-react';
 import type { ChatMessage as ChatMessageType } from '../../services/conversationData';
+import { markdownToPlainText } from '../../utils/markdown';
+import { formatMoney } from '../../utils/currency';
+import MarkdownContent from './MarkdownContent';
 
 interface ChatMessageProps {
   message: ChatMessageType;
   isLatest: boolean;
+  isStreaming?: boolean; // Content is still arriving
+  onVendorClick?: (vendor: string) => void; // Cited vendors are links when set
 }
 
-const ChatMessage: React.FC<ChatMessageProps> = ({ message, isLatest }) => {
+const ChatMessage: React.FC<ChatMessageProps> = ({ message, isLatest, isStreaming = false, onVendorClick }) => {
   const [copied, setCopied] = useState(false);
+  const [showCopyMenu, setShowCopyMenu] = useState(false);
   const [showTimestamp, setShowTimestamp] = useState(false);
+  const [showToolCalls, setShowToolCalls] = useState(false);
+  const toolCalls = message.toolCalls || [];
 
-  const handleCopy = async () => {
+  const handleCopy = async (format: 'text' | 'markdown') => {
+    setShowCopyMenu(false);
     try {
-      await navigator.clipboard.writeText(message.content);
+      await navigator.clipboard.writeText(format === 'markdown' ? message.content : markdownToPlainText(message.content));
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     } catch (error) {
@@ -46,17 +55,78 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, isLatest }) => {
             : 'bg-white/10 border border-white/10 text-white rounded-tl-2xl rounded-tr-2xl rounded-br-2xl'
         } p-4 relative group`}
         onMouseEnter={() => setShowTimestamp(true)}
-        onMouseLeave={() => setShowTimestamp(false)}
+        onMouseLeave={() => {
+          setShowTimestamp(false);
+          setShowCopyMenu(false);
+        }}
       >
-        {/* Message Content */}
-        <div className={`${isUser ? 'text-white' : 'text-gray-100'} whitespace-pre-wrap break-words`}>
-          {message.content}
-        </div>
+        {/* Message Content: users' text as typed, replies as Markdown */}
+        {isUser ? (
+          <div className="text-white whitespace-pre-wrap break-words">{message.content}</div>
+        ) : (
+          <div className="text-gray-100">
+            <MarkdownContent
+              content={message.content}
+              isStreaming={isStreaming}
+              vendors={message.context?.vendorMentioned}
+              onVendorClick={onVendorClick}
+            />
+          </div>
+        )}
+        {isStreaming && (
+          <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-purple-400 animate-pulse" />
+        )}
+
+        {/* Tools the model called, collapsed by default */}
+        {toolCalls.length > 0 && (
+          <div className="mt-3 pt-2 border-t border-white/10">
+            <button
+              onClick={() => setShowToolCalls(!showToolCalls)}
+              className="flex items-center gap-1 text-xs text-gray-400 hover:text-white transition-colors"
+            >
+              <Wrench className="w-3 h-3" />
+              <span>Used {toolCalls.length} data {toolCalls.length === 1 ? 'lookup' : 'lookups'}</span>
+              <ChevronDown className={`w-3 h-3 transition-transform ${showToolCalls ? 'rotate-180' : ''}`} />
+            </button>
+            {showToolCalls && (
+              <div className="mt-2 space-y-2">
+                {toolCalls.map(call => (
+                  <div key={call.id} className="bg-black/20 rounded-lg p-2 text-xs">
+                    <div className="font-mono text-purple-300 break-all">
+                      {call.name}({JSON.stringify(call.arguments)})
+                    </div>
+                    {call.error ? (
+                      <div className="mt-1 text-red-300">{call.error}</div>
+                    ) : (
+                      <pre className="mt-1 max-h-40 overflow-auto text-gray-300 whitespace-pre-wrap break-all">
+                        {JSON.stringify(call.result, null, 2)}
+                      </pre>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {message.truncated && (
+          <div className="flex items-center gap-1 mt-2 text-xs text-gray-400">
+            <Square className="w-3 h-3" />
+            <span>{message.content ? 'Stopped before the reply was complete' : 'Stopped before any reply'}</span>
+          </div>
+        )}
+
+        {message.offline && (
+          <div className="flex items-center gap-1 mt-2 text-xs text-yellow-400/80">
+            <WifiOff className="w-3 h-3" />
+            <span>Offline answer from your analysis data; the AI model was not used</span>
+          </div>
+        )}
 
         {/* Context Indicators */}
         {message.context && (
           <div className="mt-3 pt-3 border-t border-white/10">
-            <div className="flex items-center gap-2 text-xs opacity-80">
+            <div className="flex flex-wrap items-center gap-2 text-xs opacity-80">
               {message.context.fileId && (
                 <div className="flex items-center gap-1">
                   <FileText className="w-3 h-3" />
@@ -66,15 +136,26 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, isLatest }) => {
               {message.context.savingsCalculated && (
                 <div className="flex items-center gap-1">
                   <DollarSign className="w-3 h-3" />
-                  <span>€{message.context.savingsCalculated.toLocaleString()} savings</span>
+                  <span title="Midpoint of the savings ranges of the vendors named in this reply">
+                    {formatMoney(message.context.savingsCalculated, message.context.currency)} savings
+                  </span>
                 </div>
               )}
               {message.context.vendorMentioned && message.context.vendorMentioned.length > 0 && (
-                <div className="flex items-center gap-1">
+                <div className="flex flex-wrap items-center gap-1">
                   <span>Vendors:</span>
-                  <span className="bg-white/20 px-1 py-0.5 rounded text-xs">
-                    {message.context.vendorMentioned.join(', ')}
-                  </span>
+                  {message.context.vendorMentioned.map(vendor => onVendorClick ? (
+                    <button
+                      key={vendor}
+                      onClick={() => onVendorClick(vendor)}
+                      title={`Show ${vendor} in the analysis table`}
+                      className="bg-white/20 hover:bg-purple-500/40 px-1 py-0.5 rounded text-xs transition-colors"
+                    >
+                      {vendor}
+                    </button>
+                  ) : (
+                    <span key={vendor} className="bg-white/20 px-1 py-0.5 rounded text-xs">{vendor}</span>
+                  ))}
                 </div>
               )}
             </div>
@@ -97,11 +178,11 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, isLatest }) => {
           </motion.div>
         )}
 
-        {/* Copy Button */}
+        {/* Copy Button; replies can be copied as plain text or Markdown */}
         <motion.button
           initial={{ opacity: 0, scale: 0.8 }}
           animate={{ opacity: showTimestamp ? 1 : 0, scale: showTimestamp ? 1 : 0.8 }}
-          onClick={handleCopy}
+          onClick={() => (isUser ? handleCopy('markdown') : setShowCopyMenu(!showCopyMenu))}
           className={`absolute ${
             isUser ? '-left-8' : '-right-8'
           } top-1/2 -translate-y-1/2 w-6 h-6 bg-gray-800 hover:bg-gray-700 rounded-full flex items-center justify-center transition-colors`}
@@ -113,6 +194,16 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, isLatest }) => {
             <Copy className="w-3 h-3 text-gray-400" />
           )}
         </motion.button>
+        {showCopyMenu && (
+          <div className="absolute right-0 top-1/2 mt-4 bg-gray-900 border border-white/10 rounded-lg shadow-lg z-20 py-1 text-xs whitespace-nowrap">
+            <button onClick={() => handleCopy('text')} className="block w-full text-left px-3 py-1.5 text-gray-200 hover:bg-white/10">
+              Copy as text
+            </button>
+            <button onClick={() => handleCopy('markdown')} className="block w-full text-left px-3 py-1.5 text-gray-200 hover:bg-white/10">
+              Copy as Markdown
+            </button>
+          </div>
+        )}
 
         {/* Message Status for Latest Assistant Message */}
         {isLatest && isAssistant && (
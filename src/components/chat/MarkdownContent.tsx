@@ -0,0 +1,157 @@
+import { useMemo } from 'react';
+import type { ReactNode } from 'react';
+import { BarChart3 } from 'lucide-react';
+import { parseMarkdown } from '../../utils/markdown';
+import type { BlockNode, InlineNode } from '../../utils/markdown';
+import { createVendorMatcher, splitVendorMentions } from '../../utils/vendorCitations';
+import ChatChart from './ChatChart';
+
+interface MarkdownContentProps {
+  content: string;
+  isStreaming?: boolean; // Unfinished fences are still arriving rather than broken
+  vendors?: string[]; // Cited vendors, shown as chips where the text names them
+  onVendorClick?: (vendor: string) => void;
+}
+
+// Renders plain text; links and code keep their text as is
+type RenderText = (text: string, key: number) => ReactNode;
+
+const plainText: RenderText = text => text;
+
+const HEADING_CLASSES = ['text-lg font-bold', 'text-base font-bold', 'text-base font-semibold', 'text-sm font-semibold', 'text-sm font-semibold', 'text-sm font-medium'];
+
+function renderInline(nodes: InlineNode[], renderText: RenderText = plainText): ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return renderText(node.text, index);
+      case 'strong':
+        return <strong key={index} className="font-semibold text-white">{renderInline(node.children, renderText)}</strong>;
+      case 'emphasis':
+        return <em key={index}>{renderInline(node.children, renderText)}</em>;
+      case 'strike':
+        return <s key={index}>{renderInline(node.children, renderText)}</s>;
+      case 'code':
+        return <code key={index} className="px-1 py-0.5 rounded bg-black/30 text-purple-200 font-mono text-[0.85em]">{node.text}</code>;
+      case 'link':
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer" className="text-purple-300 underline hover:text-purple-200">
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+}
+
+const MarkdownContent = ({ content, isStreaming = false, vendors, onVendorClick }: MarkdownContentProps) => {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+  const matcher = useMemo(() => (vendors?.length ? createVendorMatcher(vendors) : null), [vendors]);
+
+  const renderText: RenderText = (text, key) => {
+    if (!matcher || !onVendorClick) return text;
+    const segments = splitVendorMentions(text, matcher);
+    if (segments.length === 1 && typeof segments[0] === 'string') return text;
+    return (
+      <span key={key}>
+        {segments.map((segment, index) => typeof segment === 'string' ? segment : (
+          <button
+            key={index}
+            onClick={() => onVendorClick(segment.vendor)}
+            title={`Show ${segment.vendor} in the analysis table`}
+            className="inline px-1 rounded bg-purple-500/20 text-purple-200 hover:bg-purple-500/40 border border-purple-500/30 transition-colors"
+          >
+            {segment.text}
+          </button>
+        ))}
+      </span>
+    );
+  };
+  const inline = (nodes: InlineNode[]) => renderInline(nodes, renderText);
+
+  const renderBlock = (block: BlockNode, key: number): ReactNode => {
+    switch (block.type) {
+      case 'heading': {
+        const className = `${HEADING_CLASSES[block.level - 1]} text-white mt-3 mb-1 first:mt-0`;
+        return <div key={key} role="heading" aria-level={block.level} className={className}>{inline(block.children)}</div>;
+      }
+      case 'paragraph':
+        return <p key={key} className="my-2 first:mt-0 last:mb-0 whitespace-pre-wrap">{inline(block.children)}</p>;
+      case 'list': {
+        const items = block.items.map((item, index) => (
+          <li key={index}>
+            {/* Single-paragraph items render inline, like a tight list */}
+            {item.length === 1 && item[0].type === 'paragraph'
+              ? inline(item[0].children)
+              : item.map(renderBlock)}
+          </li>
+        ));
+        return block.ordered ? (
+          <ol key={key} start={block.start} className="list-decimal pl-5 my-2 space-y-1">{items}</ol>
+        ) : (
+          <ul key={key} className="list-disc pl-5 my-2 space-y-1">{items}</ul>
+        );
+      }
+      case 'code':
+        return (
+          <pre key={key} className="my-2 p-3 rounded-lg bg-black/30 overflow-x-auto text-xs font-mono text-gray-200">
+            <code>{block.text}</code>
+          </pre>
+        );
+      case 'chart':
+        if (block.spec) return <ChatChart key={key} spec={block.spec} />;
+        if (!block.closed && isStreaming) {
+          return (
+            <div key={key} className="my-3 flex items-center gap-2 text-xs text-gray-400">
+              <BarChart3 className="w-4 h-4 animate-pulse" />
+              Preparing chart…
+            </div>
+          );
+        }
+        return (
+          <div key={key} className="my-2">
+            <p className="text-xs text-yellow-400/80 mb-1">{block.closed ? block.error : 'Chart is incomplete'}; showing its data instead</p>
+            <pre className="p-3 rounded-lg bg-black/30 overflow-x-auto text-xs font-mono text-gray-300">{block.source}</pre>
+          </div>
+        );
+      case 'table':
+        return (
+          <div key={key} className="my-2 overflow-x-auto">
+            <table className="min-w-full text-xs border-collapse">
+              <thead>
+                <tr className="border-b border-white/20">
+                  {block.header.map((cell, column) => (
+                    <th key={column} className="px-2 py-1.5 font-semibold text-gray-200" style={{ textAlign: block.align[column] ?? 'left' }}>
+                      {inline(cell)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex} className="border-b border-white/5">
+                    {row.map((cell, column) => (
+                      <td key={column} className="px-2 py-1.5 text-gray-300 whitespace-nowrap" style={{ textAlign: block.align[column] ?? 'left' }}>
+                        {inline(cell)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case 'quote':
+        return (
+          <blockquote key={key} className="my-2 pl-3 border-l-2 border-purple-400/50 text-gray-300">
+            {block.children.map(renderBlock)}
+          </blockquote>
+        );
+      case 'rule':
+        return <hr key={key} className="my-3 border-white/10" />;
+    }
+  };
+
+  return <div className="break-words">{blocks.map(renderBlock)}</div>;
+};
+
+export default MarkdownContent;
@@ -0,0 +1,149 @@
+import type { ExcelRow } from '../types';
+import { getProvider } from './providers';
+import { generateDataHash } from './openai';
+import {
+  clearCacheEntries,
+  deleteCacheEntry,
+  listCacheEntries,
+  loadCacheEntry,
+  saveCacheEntry
+} from './workspaceDb';
+import type { CachedAnalysisEntry } from './workspaceDb';
+import { logError } from '../utils/errorHandling';
+
+/**
+ * Durable cache of analysis results in the workspace database. An entry is
+ * keyed on everything that changes the result: the uploaded files, the rows
+ * as mapped and prepared, and the provider, its version and mode. Entries
+ * expire after CACHE_TTL_MS; past MAX_CACHE_SIZE the least recently used go.
+ */
+
+export const CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+// Total serialized size of cached results, in characters
+export const MAX_CACHE_SIZE = 20 * 1024 * 1024;
+
+export interface AnalysisCacheKey {
+  fileHash: string; // hashFileSet of the uploaded files
+  mappingHash: string; // Digest of the prepared rows: mapping, sheets, currency and vendor merges
+  providerId: string;
+  providerVersion: string;
+  mode: string; // 'enhanced' when the provider adds market data, otherwise 'standard'
+}
+
+export type CachedResult = Pick<CachedAnalysisEntry, 'analysis' | 'summary' | 'quarantined'>;
+
+export interface CacheStats {
+  entries: number;
+  size: number;
+  oldest?: string; // createdAt of the oldest entry
+}
+
+const isExpired = (entry: CachedAnalysisEntry, now = Date.now()) =>
+  now - new Date(entry.createdAt).getTime() > CACHE_TTL_MS;
+
+export function cacheKey(parts: AnalysisCacheKey): string {
+  return [parts.fileHash, parts.mappingHash, `${parts.providerId}@${parts.providerVersion}`, parts.mode].join(':');
+}
+
+/**
+ * Digest of the rows as they will be submitted
+ */
+export function hashPreparedRows(rows: ExcelRow[]): Promise<string> {
+  return generateDataHash(JSON.stringify(rows));
+}
+
+/**
+ * Cache key parts for a run of the given provider; null for an unknown provider
+ */
+export function cacheKeyFor(fileHash: string, mappingHash: string, providerId: string): AnalysisCacheKey | null {
+  const provider = getProvider(providerId);
+  if (!provider) return null;
+  return {
+    fileHash,
+    mappingHash,
+    providerId,
+    providerVersion: provider.version,
+    mode: provider.capabilities.marketEnrichment ? 'enhanced' : 'standard'
+  };
+}
+
+/**
+ * The cached entry for these inputs, or null when missing or expired.
+ * A hit refreshes the entry's position in the LRU order.
+ */
+export async function getCachedAnalysis(parts: AnalysisCacheKey): Promise<CachedAnalysisEntry | null> {
+  const key = cacheKey(parts);
+  try {
+    const entry = await loadCacheEntry(key);
+    if (!entry) return null;
+    if (isExpired(entry)) {
+      console.log('[AnalysisCache] Expired entry from', entry.createdAt);
+      await deleteCacheEntry(key);
+      return null;
+    }
+
+    const used = { ...entry, lastUsedAt: new Date().toISOString() };
+    await saveCacheEntry(used);
+    return used;
+  } catch (error) {
+    logError('AnalysisCache', error);
+    return null;
+  }
+}
+
+/**
+ * Store a result, then evict expired and least recently used entries
+ */
+export async function cacheAnalysis(parts: AnalysisCacheKey, result: CachedResult): Promise<CachedAnalysisEntry | null> {
+  const now = new Date().toISOString();
+  const entry: CachedAnalysisEntry = {
+    key: cacheKey(parts),
+    ...parts,
+    createdAt: now,
+    lastUsedAt: now,
+    size: JSON.stringify(result).length,
+    analysis: result.analysis,
+    summary: result.summary,
+    quarantined: result.quarantined
+  };
+
+  try {
+    await saveCacheEntry(entry);
+    await evictCacheEntries();
+    return entry;
+  } catch (error) {
+    logError('AnalysisCache', error);
+    return null;
+  }
+}
+
+async function evictCacheEntries(): Promise<void> {
+  const entries = await listCacheEntries();
+  const now = Date.now();
+  let size = entries.reduce((total, entry) => total + entry.size, 0);
+
+  for (const entry of entries) {
+    // Least recently used first, so those go when the cache is over its size
+    if (!isExpired(entry, now) && size <= MAX_CACHE_SIZE) continue;
+    await deleteCacheEntry(entry.key);
+    size -= entry.size;
+    console.log('[AnalysisCache] Evicted', entry.providerId, 'result from', entry.createdAt);
+  }
+}
+
+/**
+ * Drop one cached result, so the next run with the same inputs analyzes again
+ */
+export async function invalidateCachedAnalysis(key: string): Promise<void> {
+  await deleteCacheEntry(key);
+}
+
+export async function clearAnalysisCache(): Promise<void> {
+  await clearCacheEntries();
+}
+
+export async function getCacheStats(): Promise<CacheStats> {
+  const entries = await listCacheEntries();
+  const oldest = entries.map(entry => entry.createdAt).sort()[0];
+  return { entries: entries.length, size: entries.reduce((total, entry) => total + entry.size, 0), oldest };
+}
@@ -0,0 +1,180 @@
+import type { ExcelRow } from '../types';
+import { runAnalysis } from './providers';
+import type { ProviderRun, ProviderStage } from './providers';
+import { getErrorMessage, handleCancelledError, isCancelledError, logError } from '../utils/errorHandling';
+
+/**
+ * Analysis jobs: one run of the provider pipeline with its stage, per-stage
+ * timestamps and partial results. Jobs run one at a time in the order they
+ * were started. A failed or cancelled job can be resumed; stages that
+ * completed (prepared rows, each provider's Stage 1 output) are reused.
+ */
+
+export type JobStage = 'queued' | 'parsing' | ProviderStage | 'done' | 'failed';
+
+export interface JobStageEntry {
+  stage: JobStage;
+  providerId?: string;
+  reused?: boolean; // Completed earlier; taken from the job's partial results
+  startedAt: string;
+  endedAt?: string;
+}
+
+export interface AnalysisJob {
+  id: string;
+  providerOrder: string[];
+  stage: JobStage;
+  failedStage?: JobStage; // Stage that was running when the job failed
+  providerId?: string; // Provider of the current stage
+  error?: string;
+  cancelled?: boolean;
+  timeline: JobStageEntry[]; // Every stage entered, across resumes
+  rowCount: number;
+  normalizedBy: string[]; // Providers whose Stage 1 output is cached
+  result?: ProviderRun;
+  createdAt: string;
+  updatedAt: string;
+}
+
+type JobListener = (job: AnalysisJob) => void;
+
+// Completed jobs kept for their partial results; older ones are dropped
+const MAX_KEPT_JOBS = 5;
+
+const jobs = new Map<string, AnalysisJob>();
+const listeners = new Map<string, Set<JobListener>>();
+const controllers = new Map<string, AbortController>();
+const preparedRows = new Map<string, ExcelRow[]>();
+const normalizedOutput = new Map<string, Record<string, unknown>>();
+let queueTail: Promise<unknown> = Promise.resolve();
+
+function updateJob(id: string, changes: Partial<AnalysisJob>): AnalysisJob {
+  const job = { ...jobs.get(id)!, ...changes, updatedAt: new Date().toISOString() };
+  jobs.set(id, job);
+  listeners.get(id)?.forEach(listener => listener(job));
+  return job;
+}
+
+/**
+ * Close the running timeline entry and open one for the next stage
+ */
+function enterStage(id: string, stage: JobStage, providerId?: string, reused = false): void {
+  const now = new Date().toISOString();
+  const timeline = jobs.get(id)!.timeline.map(entry => (entry.endedAt ? entry : { ...entry, endedAt: now }));
+  const isFinal = stage === 'done' || stage === 'failed';
+  updateJob(id, {
+    stage,
+    providerId,
+    timeline: isFinal ? timeline : [...timeline, { stage, providerId, reused: reused || undefined, startedAt: now }]
+  });
+}
+
+function pruneJobs(): void {
+  const finished = Array.from(jobs.values()).filter(job => job.stage === 'done' || job.stage === 'failed');
+  finished.slice(0, Math.max(finished.length - MAX_KEPT_JOBS, 0)).forEach(job => {
+    jobs.delete(job.id);
+    listeners.delete(job.id);
+    preparedRows.delete(job.id);
+    normalizedOutput.delete(job.id);
+  });
+}
+
+/**
+ * Register a job in the queued state; runAnalysisJob starts it
+ */
+export function createAnalysisJob(providerOrder: string[]): AnalysisJob {
+  pruneJobs();
+  const now = new Date().toISOString();
+  const job: AnalysisJob = {
+    id: `job-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    providerOrder,
+    stage: 'queued',
+    timeline: [{ stage: 'queued', startedAt: now }],
+    rowCount: 0,
+    normalizedBy: [],
+    createdAt: now,
+    updatedAt: now
+  };
+  jobs.set(job.id, job);
+  return job;
+}
+
+export function getAnalysisJob(id: string): AnalysisJob | undefined {
+  return jobs.get(id);
+}
+
+/**
+ * Follow a job's changes; returns the unsubscribe function
+ */
+export function subscribeToJob(id: string, listener: JobListener): () => void {
+  if (!listeners.has(id)) listeners.set(id, new Set());
+  listeners.get(id)!.add(listener);
+  return () => listeners.get(id)?.delete(listener);
+}
+
+/**
+ * Cancel a queued or running job. It ends as failed and can be resumed.
+ */
+export function cancelAnalysisJob(id: string): void {
+  controllers.get(id)?.abort();
+}
+
+async function executeJob(id: string, prepareRows: () => ExcelRow[] | Promise<ExcelRow[]>, signal: AbortSignal): Promise<ProviderRun> {
+  try {
+    if (signal.aborted) throw handleCancelledError('Analysis');
+
+    let rows = preparedRows.get(id);
+    if (rows) {
+      enterStage(id, 'parsing', undefined, true);
+    } else {
+      enterStage(id, 'parsing');
+      rows = await prepareRows();
+      preparedRows.set(id, rows);
+      updateJob(id, { rowCount: rows.length });
+    }
+
+    const run = await runAnalysis(rows, jobs.get(id)!.providerOrder, {
+      signal,
+      normalized: normalizedOutput.get(id),
+      onStage: (stage, providerId, reused) => enterStage(id, stage, providerId, reused),
+      onNormalized: (providerId, normalized) => {
+        normalizedOutput.set(id, { ...normalizedOutput.get(id), [providerId]: normalized });
+        updateJob(id, { normalizedBy: Object.keys(normalizedOutput.get(id)!) });
+      }
+    });
+
+    enterStage(id, 'done', run.providerId);
+    updateJob(id, { result: run });
+    return run;
+  } catch (error) {
+    const failedStage = jobs.get(id)!.stage;
+    const cancelled = isCancelledError(error);
+    if (!cancelled) logError(`AnalysisJob:${id}`, error);
+    enterStage(id, 'failed', jobs.get(id)!.providerId);
+    updateJob(id, { failedStage, cancelled, error: cancelled ? 'Analysis cancelled' : getErrorMessage(error) });
+    throw error;
+  }
+}
+
+/**
+ * Run (or resume) a job once the jobs before it have finished. Resolves with
+ * the provider run; rejects with the error that failed the job.
+ */
+export function runAnalysisJob(id: string, prepareRows: () => ExcelRow[] | Promise<ExcelRow[]>): Promise<ProviderRun> {
+  const job = jobs.get(id);
+  if (!job) return Promise.reject(new Error(`Unknown analysis job ${id}`));
+
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  if (job.stage === 'failed') {
+    console.log('[AnalysisJobs] Resuming', id, 'from', job.failedStage);
+    updateJob(id, { error: undefined, failedStage: undefined, cancelled: undefined });
+    enterStage(id, 'queued');
+  }
+
+  const turn = queueTail.then(() => executeJob(id, prepareRows, controller.signal));
+  queueTail = turn.catch(() => undefined);
+  return turn.finally(() => {
+    if (controllers.get(id) === controller) controllers.delete(id);
+  });
+}
@@ -0,0 +1,305 @@
+import { httpJson } from './httpClient';
+import { ValoriesError, getErrorMessage } from '../utils/errorHandling';
+
+/**
+ * Application configuration: every endpoint, model name and feature flag in
+ * one place. Values come from the defaults below, then VITE_* build
+ * variables, then `config.json` loaded at startup, so one build can be
+ * deployed to several environments. Both are public, so there are no keys
+ * here: the client calls same-origin proxy routes (/api/openai, /api/n8n)
+ * and the proxy adds the credentials.
+ */
+
+export interface WorkflowEndpoints {
+  normalizeUrl: string;
+  enrichUrl: string;
+}
+
+export interface AppConfig {
+  openai: {
+    baseUrl: string; // The key-adding proxy route, not api.openai.com itself
+    chatModel: string;
+    contextBudget: number; // Tokens of analysis data in the chat system prompt
+  };
+  llm: {
+    provider: string; // Chat provider until a user picks one in settings: 'openai' or 'self-hosted'
+    allowExternal: boolean; // false keeps chat on the self-hosted endpoint
+    selfHosted: {
+      baseUrl: string; // OpenAI-compatible API root, e.g. http://localhost:8080/v1
+      model: string;
+    };
+  };
+  n8n: {
+    standard: WorkflowEndpoints;
+    enhanced: WorkflowEndpoints;
+    twoStage: WorkflowEndpoints;
+  };
+  features: {
+    chat: boolean;
+    enhancedAnalysis: boolean;
+    twoStageAnalysis: boolean;
+  };
+}
+
+export type ConfigFeature = 'standardAnalysis' | 'enhancedAnalysis' | 'twoStageAnalysis' | 'chat';
+
+export interface ConfigIssue {
+  path: string; // Setting the issue is about, e.g. "n8n.standard.enrichUrl"
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+type FieldKind = 'url' | 'text' | 'flag' | 'count';
+
+// Setting names that look like credentials; refused wherever they come from
+const SECRET_NAME = /key|secret|token|password/i;
+
+const FIELDS: Record<string, FieldKind> = {
+  'openai.baseUrl': 'url',
+  'openai.chatModel': 'text',
+  'openai.contextBudget': 'count',
+  'llm.provider': 'text',
+  'llm.allowExternal': 'flag',
+  'llm.selfHosted.baseUrl': 'url',
+  'llm.selfHosted.model': 'text',
+  'n8n.standard.normalizeUrl': 'url',
+  'n8n.standard.enrichUrl': 'url',
+  'n8n.enhanced.normalizeUrl': 'url',
+  'n8n.enhanced.enrichUrl': 'url',
+  'n8n.twoStage.normalizeUrl': 'url',
+  'n8n.twoStage.enrichUrl': 'url',
+  'features.chat': 'flag',
+  'features.enhancedAnalysis': 'flag',
+  'features.twoStageAnalysis': 'flag'
+};
+
+const DEFAULT_CONFIG: AppConfig = {
+  openai: { baseUrl: '/api/openai/v1', chatModel: 'gpt-3.5-turbo', contextBudget: 3000 },
+  llm: {
+    provider: 'openai',
+    allowExternal: true,
+    selfHosted: { baseUrl: '', model: '' }
+  },
+  n8n: {
+    standard: { normalizeUrl: '', enrichUrl: '' },
+    enhanced: { normalizeUrl: '', enrichUrl: '' },
+    twoStage: { normalizeUrl: '', enrichUrl: '' }
+  },
+  features: { chat: true, enhancedAnalysis: true, twoStageAnalysis: true }
+};
+
+// Read by name so Vite inlines only these
+const BUILD_ENV: Record<string, string | undefined> = {
+  'openai.baseUrl': import.meta.env.VITE_OPENAI_BASE_URL,
+  'openai.chatModel': import.meta.env.VITE_OPENAI_CHAT_MODEL,
+  'openai.contextBudget': import.meta.env.VITE_CHAT_CONTEXT_BUDGET,
+  'llm.provider': import.meta.env.VITE_LLM_PROVIDER,
+  'llm.allowExternal': import.meta.env.VITE_LLM_ALLOW_EXTERNAL,
+  'llm.selfHosted.baseUrl': import.meta.env.VITE_LLM_BASE_URL,
+  'llm.selfHosted.model': import.meta.env.VITE_LLM_MODEL,
+  'n8n.standard.normalizeUrl': import.meta.env.VITE_N8N_STANDARD_NORMALIZE_URL,
+  'n8n.standard.enrichUrl': import.meta.env.VITE_N8N_STANDARD_ENRICH_URL,
+  'n8n.enhanced.normalizeUrl': import.meta.env.VITE_N8N_ENHANCED_NORMALIZE_URL,
+  'n8n.enhanced.enrichUrl': import.meta.env.VITE_N8N_ENHANCED_ENRICH_URL,
+  'n8n.twoStage.normalizeUrl': import.meta.env.VITE_N8N_NORMALIZATION_URL,
+  'n8n.twoStage.enrichUrl': import.meta.env.VITE_N8N_ENRICHMENT_URL,
+  'features.chat': import.meta.env.VITE_FEATURE_CHAT,
+  'features.enhancedAnalysis': import.meta.env.VITE_FEATURE_ENHANCED_ANALYSIS,
+  'features.twoStageAnalysis': import.meta.env.VITE_FEATURE_TWO_STAGE_ANALYSIS
+};
+
+// What each feature needs; a disabled feature needs nothing
+const REQUIREMENTS: Record<ConfigFeature, { label: string; flag?: string; fields: string[] | ((config: AppConfig) => string[]) }> = {
+  standardAnalysis: {
+    label: 'Standard analysis',
+    fields: ['n8n.standard.normalizeUrl', 'n8n.standard.enrichUrl']
+  },
+  enhancedAnalysis: {
+    label: 'Enhanced analysis',
+    flag: 'features.enhancedAnalysis',
+    fields: ['n8n.enhanced.normalizeUrl', 'n8n.enhanced.enrichUrl']
+  },
+  twoStageAnalysis: {
+    label: 'Two-stage OpenAI analysis',
+    flag: 'features.twoStageAnalysis',
+    fields: ['n8n.twoStage.normalizeUrl', 'n8n.twoStage.enrichUrl']
+  },
+  chat: {
+    label: 'AI chat',
+    flag: 'features.chat',
+    fields: config => (config.llm.provider === 'self-hosted' || !config.llm.allowExternal
+      ? ['llm.selfHosted.baseUrl', 'llm.selfHosted.model']
+      : ['openai.baseUrl', 'openai.chatModel'])
+  }
+};
+
+let currentConfig: AppConfig = structuredClone(DEFAULT_CONFIG);
+let currentIssues: ConfigIssue[] = [];
+
+type Tree = Record<string, unknown>;
+
+const isTree = (value: unknown): value is Tree =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function getPath(tree: Tree, path: string): unknown {
+  return path.split('.').reduce<unknown>((node, key) => (isTree(node) ? node[key] : undefined), tree);
+}
+
+function setPath(tree: Tree, path: string, value: unknown): void {
+  const keys = path.split('.');
+  const parent = keys.slice(0, -1).reduce((node, key) => node[key] as Tree, tree);
+  parent[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Leaf paths of a nested object: {n8n: {standard: {enrichUrl: 'x'}}} → {'n8n.standard.enrichUrl': 'x'}
+ */
+function flatten(tree: Tree, prefix = ''): Record<string, unknown> {
+  return Object.entries(tree).reduce<Record<string, unknown>>((flat, [key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    return isTree(value) ? { ...flat, ...flatten(value, path) } : { ...flat, [path]: value };
+  }, {});
+}
+
+/**
+ * Value of the field's type, or the reason the raw value can't be used
+ */
+function coerceField(kind: FieldKind, raw: unknown): { value: string | boolean | number } | { reason: string } {
+  if (kind === 'flag') {
+    if (typeof raw === 'boolean') return { value: raw };
+    if (raw === 'true' || raw === 'false') return { value: raw === 'true' };
+    return { reason: 'must be true or false' };
+  }
+  if (kind === 'count') {
+    const value = typeof raw === 'string' && raw.trim() ? Number(raw) : raw;
+    if (typeof value === 'number' && Number.isInteger(value) && value > 0) return { value };
+    return { reason: 'must be a positive whole number' };
+  }
+  if (typeof raw !== 'string') return { reason: 'must be a string' };
+
+  const value = raw.trim();
+  // Paths are same-origin routes, such as the key-adding proxy
+  if (kind === 'url' && value && !value.startsWith('/')) {
+    try {
+      const url = new URL(value);
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') return { reason: 'must be an http(s) URL' };
+    } catch {
+      return { reason: `"${value}" is not a URL` };
+    }
+  }
+  return { value };
+}
+
+/**
+ * Apply one source's values; bad and unknown values are reported, not applied
+ */
+function applySource(config: AppConfig, values: Record<string, unknown>, source: string, issues: ConfigIssue[]): void {
+  Object.entries(values).forEach(([path, raw]) => {
+    if (raw === undefined || raw === null) return;
+
+    if (SECRET_NAME.test(path.split('.').pop() ?? '')) {
+      issues.push({ path, message: `${path} in ${source} would be readable by every visitor; ignored. Keys belong in the API proxy`, severity: 'error' });
+      return;
+    }
+    const kind = FIELDS[path];
+    if (!kind) {
+      issues.push({ path, message: `Unknown setting ${path} in ${source}; ignored`, severity: 'warning' });
+      return;
+    }
+    const result = coerceField(kind, raw);
+    if ('reason' in result) {
+      issues.push({ path, message: `${path} in ${source} ${result.reason}; ignored`, severity: 'error' });
+      return;
+    }
+    setPath(config as unknown as Tree, path, result.value);
+  });
+}
+
+/**
+ * config.json next to index.html; null when the deployment has none
+ */
+async function fetchRuntimeConfig(issues: ConfigIssue[]): Promise<Tree | null> {
+  try {
+    const runtime = await httpJson({
+      endpoint: 'config',
+      url: `${import.meta.env.BASE_URL}config.json`,
+      headers: { Accept: 'application/json' }
+    });
+    if (!isTree(runtime)) {
+      issues.push({ path: 'config.json', message: 'config.json must contain a JSON object; ignored', severity: 'error' });
+      return null;
+    }
+    return runtime;
+  } catch (error) {
+    if (error instanceof ValoriesError && error.statusCode === 404) {
+      console.log('[Config] No config.json deployed; using build defaults');
+    } else {
+      issues.push({ path: 'config.json', message: `config.json could not be loaded: ${getErrorMessage(error)}`, severity: 'error' });
+    }
+    return null;
+  }
+}
+
+/**
+ * Settings a feature still needs; empty when it can run (or is switched off)
+ */
+export function missingConfig(feature: ConfigFeature, config: AppConfig = currentConfig): string[] {
+  const requirement = REQUIREMENTS[feature];
+  if (requirement.flag && !getPath(config as unknown as Tree, requirement.flag)) return [];
+  const fields = typeof requirement.fields === 'function' ? requirement.fields(config) : requirement.fields;
+  return fields.filter(path => !getPath(config as unknown as Tree, path));
+}
+
+/**
+ * Whether a feature is switched on and has everything it needs
+ */
+export function isFeatureAvailable(feature: ConfigFeature, config: AppConfig = currentConfig): boolean {
+  const requirement = REQUIREMENTS[feature];
+  if (requirement.flag && !getPath(config as unknown as Tree, requirement.flag)) return false;
+  return missingConfig(feature, config).length === 0;
+}
+
+/**
+ * Build the configuration from every source and validate it. Never throws;
+ * problems are collected and available from getConfigIssues.
+ */
+export async function loadConfig(): Promise<AppConfig> {
+  const config = structuredClone(DEFAULT_CONFIG);
+  const issues: ConfigIssue[] = [];
+
+  applySource(config, BUILD_ENV, 'the build environment', issues);
+  const runtime = await fetchRuntimeConfig(issues);
+  if (runtime) applySource(config, flatten(runtime), 'config.json', issues);
+
+  (Object.keys(REQUIREMENTS) as ConfigFeature[]).forEach(feature => {
+    const missing = missingConfig(feature, config);
+    if (missing.length > 0) {
+      issues.push({
+        path: missing[0],
+        message: `${REQUIREMENTS[feature].label} is unavailable: ${missing.join(', ')} not set`,
+        severity: 'warning'
+      });
+    }
+  });
+
+  currentConfig = config;
+  currentIssues = issues;
+
+  issues.forEach(issue => {
+    if (issue.severity === 'error') console.error('[Config]', issue.message);
+    else console.warn('[Config]', issue.message);
+  });
+  console.log('[Config] Loaded', runtime ? 'with config.json' : 'from build defaults');
+  return config;
+}
+
+/**
+ * The loaded configuration (defaults until loadConfig has run)
+ */
+export function getConfig(): AppConfig {
+  return currentConfig;
+}
+
+export function getConfigIssues(): ConfigIssue[] {
+  return currentIssues;
+}
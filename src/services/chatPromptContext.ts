@@ -0,0 +1,157 @@
+import type { SpendAnalysis } from '../types';
+import type { ConversationData } from './conversationData';
+import { formatMoney } from '../utils/currency';
+
+/**
+ * The analysis part of the chat system prompt, fitted to a token budget.
+ * Vendors are ranked by relevance to the question (vendor, category or segment
+ * named in it, then spend), listed one line each while the budget lasts, and
+ * the rest summarized. The report says what was left out, so the prompt can
+ * tell the model how much it sees.
+ */
+
+export const DEFAULT_CONTEXT_BUDGET = 3000;
+
+export interface PromptContextReport {
+  budgetTokens: number;
+  usedTokens: number;
+  totalVendors: number;
+  listedVendors: number;
+  omittedVendors: number;
+  omittedSpend: number;
+  mentioned: string[]; // Vendors the question names
+}
+
+export interface PromptContext {
+  text: string;
+  report: PromptContextReport;
+}
+
+// Parts of vendor names too generic to count as a mention
+const NAME_STOPWORDS = new Set(['inc', 'ltd', 'llc', 'gmbh', 'corp', 'group', 'services', 'solutions', 'software', 'systems', 'the', 'and']);
+const MENTION_SCORE = 100;
+const CATEGORY_SCORE = 20;
+const SPEND_SCORE = 10; // Times the vendor's share of spend
+const TAIL_CATEGORIES = 5;
+
+/**
+ * Token count estimate without a model tokenizer: words of up to four
+ * characters are one token, longer ones one per four characters, and every
+ * punctuation mark or digit group its own token. Errs on the high side for
+ * English prose.
+ */
+export function estimateTokens(text: string): number {
+  const pieces = text.match(/[A-Za-zÀ-ɏ]+|\d+|[^\sA-Za-z\d]/g) || [];
+  return pieces.reduce((total, piece) => total + Math.max(1, Math.ceil(piece.length / 4)), 0);
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function mentions(question: string, phrase: string): boolean {
+  const normalized = phrase.trim().toLowerCase();
+  if (normalized.length < 2) return false;
+  // Whole words, with an optional plural "s"
+  return new RegExp(`\\b${escapeRegExp(normalized)}s?\\b`).test(question);
+}
+
+/**
+ * Whether a lowercased question names a vendor, in full or by a distinctive word of its name
+ */
+export function vendorMentioned(question: string, vendor: string): boolean {
+  if (mentions(question, vendor)) return true;
+  return vendor
+    .toLowerCase()
+    .split(/[^a-z0-9À-ɏ]+/)
+    .some(word => word.length >= 4 && !NAME_STOPWORDS.has(word) && mentions(question, word));
+}
+
+function describeItem(item: SpendAnalysis): string {
+  const money = (amount: number) => formatMoney(amount, item.currency);
+  return `- ${item.vendor} (${item.category || 'Uncategorized'}, ${item.segment || 'no segment'}): spend ${money(item.pastSpend)}, projected ${money(item.projectedSpend)}, savings ${item.savingsRange || 'n/a'}${item.savingsPercentage ? ` (${item.savingsPercentage})` : ''}, confidence ${Math.round(item.confidence * 100)}%`;
+}
+
+function summarizeTail(items: SpendAnalysis[], totalSpend: number, currency?: string): string {
+  if (items.length === 0) return '';
+  const spend = items.reduce((sum, item) => sum + item.pastSpend, 0);
+  const byCategory = new Map<string, { count: number; spend: number }>();
+  items.forEach(item => {
+    const category = item.category || 'Uncategorized';
+    const entry = byCategory.get(category) || { count: 0, spend: 0 };
+    entry.count++;
+    entry.spend += item.pastSpend;
+    byCategory.set(category, entry);
+  });
+  const categories = Array.from(byCategory.entries())
+    .sort((a, b) => b[1].spend - a[1].spend)
+    .slice(0, TAIL_CATEGORIES)
+    .map(([category, entry]) => `${category} ${entry.count} (${formatMoney(entry.spend, currency)})`);
+  const share = totalSpend > 0 ? Math.round((spend / totalSpend) * 100) : 0;
+
+  return `OTHER VENDORS (${items.length}, not listed): spend ${formatMoney(spend, currency)} (${share}% of total); largest categories: ${categories.join(', ')}`;
+}
+
+function coverageNote(listed: number, total: number, listedShare: number): string {
+  if (listed === total) return `COVERAGE: All ${total} vendors are listed above.`;
+  return `COVERAGE: Only ${listed} of ${total} vendors (${listedShare}% of spend) are listed in detail; the other ${total - listed} are summarized. When an answer depends on unlisted vendors, say that you only see the top ${listed} vendors here and use the tools to look them up.`;
+}
+
+/**
+ * Rank, fit and summarize one conversation's analysis for a question
+ */
+export function buildPromptContext(
+  conversation: ConversationData,
+  question: string,
+  budgetTokens: number = DEFAULT_CONTEXT_BUDGET
+): PromptContext {
+  const items = conversation.analysisResults;
+  const currency = items[0]?.currency;
+  const totalSpend = items.reduce((sum, item) => sum + item.pastSpend, 0);
+  const lowerQuestion = question.toLowerCase();
+
+  const scored = items.map(item => {
+    const named = vendorMentioned(lowerQuestion, item.vendor);
+    const score =
+      (named ? MENTION_SCORE : 0) +
+      (mentions(lowerQuestion, item.category) ? CATEGORY_SCORE : 0) +
+      (mentions(lowerQuestion, item.segment) ? CATEGORY_SCORE : 0) +
+      (totalSpend > 0 ? (item.pastSpend / totalSpend) * SPEND_SCORE : 0);
+    return { item, named, score };
+  });
+  scored.sort((a, b) => b.score - a.score || b.item.pastSpend - a.item.pastSpend);
+  const ranked = scored.map(entry => entry.item);
+
+  const render = (count: number) => {
+    const listed = ranked.slice(0, count);
+    const listedSpend = listed.reduce((sum, item) => sum + item.pastSpend, 0);
+    const listedShare = totalSpend > 0 ? Math.round((listedSpend / totalSpend) * 100) : 100;
+    return [
+      'VENDORS (most relevant to the question first):',
+      ...listed.map(describeItem),
+      summarizeTail(ranked.slice(count), totalSpend, currency),
+      coverageNote(count, ranked.length, listedShare)
+    ].filter(Boolean).join('\n');
+  };
+
+  // Add lines while the whole block, tail summary included, stays in budget
+  let count = 0;
+  let text = render(0);
+  while (count < ranked.length) {
+    const next = render(count + 1);
+    if (estimateTokens(next) > budgetTokens) break;
+    count++;
+    text = next;
+  }
+
+  const omitted = ranked.slice(count);
+  const report: PromptContextReport = {
+    budgetTokens,
+    usedTokens: estimateTokens(text),
+    totalVendors: ranked.length,
+    listedVendors: count,
+    omittedVendors: omitted.length,
+    omittedSpend: omitted.reduce((sum, item) => sum + item.pastSpend, 0),
+    mentioned: scored.filter(entry => entry.named).map(entry => entry.item.vendor)
+  };
+  console.log('[ChatContext] Listed', count, 'of', ranked.length, 'vendors in', report.usedTokens, 'of', budgetTokens, 'tokens');
+  return { text, report };
+}
@@ -1,16 +1,96 @@
-import type { ChatContext, ChatMessage } from './conversationData';
+import type { ChatContext, ChatMessage, ChatToolCall } from './conversationData';
+import { httpRequest, readEventStream } from './httpClient';
+import { CHAT_TOOLS, runChatTool } from './chatTools';
+import { buildPromptContext } from './chatPromptContext';
+import { answerOffline } from './offlineAnswers';
+import { getConfig } from './appConfig';
+import { getChatLlm, isLlmConfigured, llmHeaders, type ChatLlm } from './llmProvider';
+import { isCancelledError } from '../utils/errorHandling';
+import { DEFAULT_REPORTING_CURRENCY, formatMoney } from '../utils/currency';
 
-const OPENAI_API_KEY = import.meta.env.VITE_OPENAI_API_KEY || '';
+interface RawToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+interface ChatCompletionMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: RawToolCall[];
+  tool_call_id?: string;
+}
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content: string | null; tool_calls?: RawToolCall[] } }[];
+}
+
+// Tool call arguments arrive in pieces, matched up by index
+interface ToolCallDelta {
+  index: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string; tool_calls?: ToolCallDelta[] }; finish_reason?: string | null }[];
+}
+
+export interface ChatResult {
+  success: boolean;
+  response?: string;
+  error?: string;
+  truncated?: boolean; // Generation was stopped; response holds what had arrived
+  offline?: boolean; // Answered from the data without the model
+  toolCalls?: ChatToolCall[];
+}
+
+export interface StreamOptions {
+  signal?: AbortSignal; // Aborting stops generation and keeps the partial response
+  onDelta?: (text: string) => void; // Called with the whole response so far
+  onToolCall?: (call: ChatToolCall) => void; // Called as each tool call completes
+}
+
+// Model turns that may call tools before the answer; the last one has to answer
+const MAX_TOOL_ROUNDS = 4;
+
+const CHAT_PARAMETERS = {
+  max_tokens: 800,
+  temperature: 0.7,
+  presence_penalty: 0.1,
+  frequency_penalty: 0.1
+};
+
+// Share of a model's context window the analysis data may take, when the window is known
+const CONTEXT_WINDOW_SHARE = 0.25;
+
+/**
+ * Token budget for the analysis data: the configured one, capped for small context windows
+ */
+function contextBudget(llm: ChatLlm): number {
+  const budget = getConfig().openai.contextBudget;
+  const contextLength = llm.capabilities?.contextLength;
+  return contextLength ? Math.min(budget, Math.floor(contextLength * CONTEXT_WINDOW_SHARE)) : budget;
+}
 
 // Helper function to build procurement chat prompt (ported from backend)
-function buildProcurementChatPrompt(chatContext: ChatContext): string {
+function buildProcurementChatPrompt(chatContext: ChatContext, question: string, budget: number, withTools: boolean): string {
   // Safely extract context data with defaults
   const currentFile = chatContext?.currentFile;
-  const totalSpend = chatContext?.totalSpend || 0;
-  const totalSavings = chatContext?.totalSavings || 0;
+  // The loaded file's own totals, in its reporting currency
+  const summary = currentFile?.summaryMetrics;
+  const currency = summary?.currency ?? currentFile?.analysisResults.find(item => item.currency)?.currency;
+  const totalSpend = summary ? summary.pastSpend : chatContext?.totalSpend || 0;
+  const totalSavings = summary ? (summary.potentialSavings.min + summary.potentialSavings.max) / 2 : chatContext?.totalSavings || 0;
   const topCategories = chatContext?.topCategories || [];
-  const topVendors = chatContext?.topVendors || [];
   const analysisResults = currentFile?.analysisResults || [];
+  // Vendors ranked for this question and fitted to the configured budget
+  const vendorContext = currentFile ? buildPromptContext(currentFile, question, budget).text : '';
+  const dataAccess = !currentFile
+    ? 'No tools are available until data is loaded.'
+    : withTools
+      ? `For any figure, ranking, vendor, contract date or alternative not listed above, call the tools; they read all ${analysisResults.length} analyzed vendors. Answer from what the tools return and never estimate a number a tool could give you.`
+      : 'Answer only from the data above. When it does not hold what the question needs, say so instead of estimating.';
 
   return `You are Valoris AI, an expert procurement optimization assistant with deep knowledge of vendor management, contract negotiation, and cost optimization strategies.
 
@@ -18,17 +98,17 @@ CURRENT ANALYSIS CONTEXT:
 ${currentFile ? `
 - File: ${currentFile.fileName || 'Unknown'}
 - Analyzed: ${analysisResults.length} vendors
-- Total Annual Spend: €${(totalSpend || 0).toLocaleString()}
-- Potential Savings: €${(totalSavings || 0).toLocaleString()}
+- Reporting Currency: ${currency ?? DEFAULT_REPORTING_CURRENCY}
+- Total Annual Spend: ${formatMoney(totalSpend, currency)}
+- Potential Savings: ${formatMoney(totalSavings, currency)}
 - Top Categories: ${topCategories.length > 0 ? topCategories.join(', ') : 'None'}
 
-VENDOR DETAILS:
-${JSON.stringify(analysisResults.slice(0, 10), null, 2)}
-
-TOP VENDORS BY SPEND:
-${topVendors.length > 0 ? topVendors.slice(0, 5).map(v => `- ${v.name || 'Unknown'}: €${(v.spend || 0).toLocaleString()} (${v.category || 'Unknown'})`).join('\n') : 'No vendor data available'}
+${analysisResults.length > 0 ? vendorContext : 'No vendor data available'}
 ` : 'No analysis data currently loaded. Ask user to upload procurement data first.'}
 
+DATA ACCESS:
+${dataAccess}
+
 CAPABILITIES:
 - Analyze vendor spend patterns and identify optimization opportunities
 - Compare vendor alternatives with pricing and migration feasibility
@@ -47,144 +127,184 @@ CONVERSATION STYLE:
 
 RESPONSE FORMAT:
 - Use bullet points for lists
-- Include specific euro amounts and percentages
+- Include specific amounts in ${currency ?? DEFAULT_REPORTING_CURRENCY} and percentages
 - Mention vendor names and categories explicitly
 - Provide confidence levels for recommendations
 - Suggest timeframes for implementation
+- Use Markdown: bullet lists, tables for comparisons of several vendors or categories
+- When a chart helps, add a fenced block tagged chart holding JSON: {"type": "bar" | "line" | "pie", "title": "...", "x": "<label key>", "y": ["<value key>", ...], "currency": "EUR", "data": [{"<label key>": "AWS", "<value key>": 120000}, ...]}. Use real figures only, at most 20 points
 
 Answer user questions about their procurement data, provide optimization recommendations, and help them understand their vendor landscape.`;
 }
 
-// Fallback response system (ported from backend)
-function getFallbackResponse(_error: any, userMessage: string): string {
-  const fallbacks = [
-    "I'm having trouble accessing the analysis right now. Could you try rephrasing your question?",
-    "Let me help you with that. Can you be more specific about which vendor or category you're interested in?",
-    "I notice there might be an issue with the data connection. In the meantime, I can help you understand general procurement optimization strategies.",
-    "I'm experiencing a temporary issue. Would you like me to explain how Valoris analyzes your procurement data instead?"
+/**
+ * Reply for when the model can't answer: computed from the analysis and labeled as offline
+ */
+function offlineResult(message: string, chatContext: ChatContext, reason: string): ChatResult {
+  return { success: true, response: answerOffline(message, chatContext, reason).content, offline: true };
+}
+
+/**
+ * System prompt, the last 10 messages for continuity, then the new message
+ */
+function buildChatMessages(
+  message: string,
+  chatContext: ChatContext,
+  conversationHistory: ChatMessage[],
+  llm: ChatLlm,
+  withTools: boolean
+): ChatCompletionMessage[] {
+  const systemPrompt = buildProcurementChatPrompt(chatContext, message, contextBudget(llm), withTools);
+  return [
+    { role: 'system', content: systemPrompt },
+    ...conversationHistory.slice(-10).map(msg => ({
+      role: msg.role,
+      content: msg.content
+    })),
+    { role: 'user', content: message }
   ];
-  
-  // Simple keyword matching for better fallbacks
-  if (userMessage.toLowerCase().includes('savings')) {
-    return "I can help you identify savings opportunities once the analysis data is loaded. Try uploading your procurement file first.";
-  }
-  
-  if (userMessage.toLowerCase().includes('vendor')) {
-    return "I'd be happy to discuss vendor optimization strategies. Which specific vendor or category are you most concerned about?";
+}
+
+/**
+ * One model turn: streams text through onText and collects any tool calls.
+ * A plain completion is handled too, for endpoints that can't or won't stream.
+ */
+async function completeTurn(
+  llm: ChatLlm,
+  messages: ChatCompletionMessage[],
+  withTools: boolean,
+  signal: AbortSignal | undefined,
+  onText: (delta: string) => void
+): Promise<RawToolCall[]> {
+  const httpResponse = await httpRequest({
+    endpoint: 'openai.chat',
+    url: `${llm.baseUrl}/chat/completions`,
+    headers: llmHeaders(llm),
+    body: {
+      model: llm.model,
+      messages,
+      ...CHAT_PARAMETERS,
+      ...llm.parameters,
+      ...(withTools ? { tools: CHAT_TOOLS } : {}),
+      stream: llm.capabilities?.streaming !== false
+    },
+    signal
+  });
+
+  if (!httpResponse.headers.get('Content-Type')?.includes('text/event-stream')) {
+    const data = (await httpResponse.json()) as ChatCompletionResponse;
+    const reply = data.choices?.[0]?.message;
+    if (reply?.content) onText(reply.content);
+    return reply?.tool_calls ?? [];
   }
-  
-  if (userMessage.toLowerCase().includes('alternative')) {
-    return "I can suggest vendor alternatives based on your current analysis data. Which vendor would you like me to find alternatives for?";
+
+  const toolCalls: RawToolCall[] = [];
+  for await (const data of readEventStream(httpResponse, signal)) {
+    if (data === '[DONE]') break;
+    let chunk: ChatCompletionChunk;
+    try {
+      chunk = JSON.parse(data) as ChatCompletionChunk;
+    } catch {
+      console.warn('[Chat] Skipping malformed stream chunk:', data.slice(0, 100));
+      continue;
+    }
+    const delta = chunk.choices?.[0]?.delta;
+    if (delta?.content) onText(delta.content);
+    delta?.tool_calls?.forEach(part => {
+      const call = toolCalls[part.index] ?? (toolCalls[part.index] = { id: '', type: 'function', function: { name: '', arguments: '' } });
+      if (part.id) call.id = part.id;
+      if (part.function?.name) call.function.name += part.function.name;
+      if (part.function?.arguments) call.function.arguments += part.function.arguments;
+    });
   }
-  
-  return fallbacks[Math.floor(Math.random() * fallbacks.length)];
+  return toolCalls.filter(Boolean);
 }
 
-// Main chat service function (ported from backend)
-export async function sendChatMessage(
+/**
+ * Send a chat message. The reply is streamed as server-sent events and
+ * reported through onDelta as it arrives. When an analysis is loaded the model
+ * can call the chat tools; their results go back to it until it answers.
+ * Stopping through the signal resolves with the partial reply marked as truncated.
+ */
+export async function streamChatMessage(
   message: string,
   chatContext: ChatContext,
-  conversationHistory: ChatMessage[] = []
-): Promise<{ success: boolean; response?: string; error?: string }> {
-  console.log('\n💬 Chat request (frontend):', {
-    messageLength: message?.length,
-    hasContext: !!chatContext,
-    historyLength: conversationHistory?.length || 0
-  });
+  conversationHistory: ChatMessage[] = [],
+  { signal, onDelta, onToolCall }: StreamOptions = {}
+): Promise<ChatResult> {
+  if (!message || typeof message !== 'string') {
+    return { success: false, error: 'Message is required' };
+  }
 
-  try {
-    if (!message || typeof message !== 'string') {
-      return {
-        success: false,
-        error: 'Message is required'
-      };
-    }
+  const llm = getChatLlm();
+  if (!isLlmConfigured(llm)) {
+    console.warn('[Chat] No chat model configured for', llm.provider.label);
+    const result = offlineResult(message, chatContext, 'No chat model is configured');
+    onDelta?.(result.response ?? '');
+    return result;
+  }
 
-    if (!OPENAI_API_KEY) {
-      console.warn('[Chat] No OpenAI API key found');
-      return {
-        success: true,
-        response: getFallbackResponse(new Error('No API key'), message)
-      };
+  let response = '';
+  let roundBreak = false; // Text from the round before a tool call ends its own paragraph
+  const toolCalls: ChatToolCall[] = [];
+  const withToolCalls = () => (toolCalls.length > 0 ? { toolCalls } : {});
+  const onText = (delta: string) => {
+    if (roundBreak && delta.trim()) {
+      response = `${response.trimEnd()}\n\n`;
+      roundBreak = false;
+      delta = delta.trimStart();
     }
+    response += delta;
+    onDelta?.(response);
+  };
 
-    // Build comprehensive system prompt
-    const systemPrompt = buildProcurementChatPrompt(chatContext);
-    
-    // Include conversation history for continuity (last 10 messages)
-    const messages = [
-      { role: 'system', content: systemPrompt },
-      ...conversationHistory.slice(-10).map(msg => ({
-        role: msg.role,
-        content: msg.content
-      })),
-      { role: 'user' as const, content: message }
-    ];
-
-    console.log('[Chat] Sending to OpenAI:', {
-      messagesCount: messages.length,
-      systemPromptLength: systemPrompt.length,
-      userMessage: message.substring(0, 100) + (message.length > 100 ? '...' : '')
-    });
+  try {
+    const conversation = chatContext.currentFile;
+    // Models that failed the tool call probe get the data in the prompt only
+    const withTools = !!conversation && llm.capabilities?.toolCalling !== false;
+    const messages = buildChatMessages(message, chatContext, conversationHistory, llm, withTools);
+    console.log(`[Chat] Streaming from ${llm.provider.label}:`, { model: llm.model, messagesCount: messages.length, tools: withTools });
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-3.5-turbo',
-        messages,
-        max_tokens: 800,
-        temperature: 0.7,
-        presence_penalty: 0.1,
-        frequency_penalty: 0.1
-      })
-    });
+    let answered = false;
+    // Hard bound: a server may keep calling tools after they are withdrawn
+    for (let round = 1; round <= MAX_TOOL_ROUNDS + 1; round++) {
+      const requested = await completeTurn(llm, messages, withTools && round < MAX_TOOL_ROUNDS, signal, onText);
+      if (requested.length === 0) {
+        answered = true;
+        break;
+      }
 
-    if (!response.ok) {
-      const errorData = await response.text();
-      console.error('[Chat] OpenAI API error:', {
-        status: response.status,
-        statusText: response.statusText,
-        error: errorData
+      roundBreak = response.trim() !== '';
+      messages.push({ role: 'assistant', content: null, tool_calls: requested });
+      requested.forEach(raw => {
+        const call = runChatTool(raw.id, raw.function.name, raw.function.arguments, conversation);
+        toolCalls.push(call);
+        onToolCall?.(call);
+        messages.push({
+          role: 'tool',
+          tool_call_id: raw.id,
+          content: JSON.stringify(call.error ? { error: call.error } : call.result)
+        });
       });
-      
-      return {
-        success: true,
-        response: getFallbackResponse(new Error(`API Error: ${response.status}`), message)
-      };
     }
 
-    const data = await response.json();
-    
-    if (!data.choices || !data.choices[0] || !data.choices[0].message) {
-      console.error('[Chat] Invalid response structure:', data);
-      return {
-        success: true,
-        response: getFallbackResponse(new Error('Invalid response'), message)
-      };
+    if (!answered) {
+      console.warn('[Chat] Model kept calling tools after', MAX_TOOL_ROUNDS, 'rounds; stopping');
+      return { success: true, response: response.trim(), truncated: true, ...withToolCalls() };
     }
 
-    const assistantResponse = data.choices[0].message.content.trim();
-    
-    console.log('[Chat] ✅ Success:', {
-      responseLength: assistantResponse.length,
-      usage: data.usage
-    });
-
-    return {
-      success: true,
-      response: assistantResponse
-    };
+    console.log('[Chat] ✅ Stream complete:', { responseLength: response.length, toolCalls: toolCalls.length });
+    return { success: true, response: response.trim(), ...withToolCalls() };
 
   } catch (error) {
-    console.error('[Chat] Error:', error);
-    
-    return {
-      success: true,
-      response: getFallbackResponse(error, message)
-    };
+    if (isCancelledError(error)) {
+      console.log('[Chat] Generation stopped after', response.length, 'characters');
+      return { success: true, response: response.trim(), truncated: true, ...withToolCalls() };
+    }
+    console.error('[Chat] Stream error:', error);
+
+    // A stream that broke off keeps what arrived; nothing at all gets an offline answer
+    if (response) return { success: true, response: response.trim(), truncated: true, ...withToolCalls() };
+    return { ...offlineResult(message, chatContext, 'The chat model could not be reached'), ...withToolCalls() };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,268 @@
+import type { SpendAnalysis } from '../types';
+import type { ChatToolCall, ConversationData } from './conversationData';
+import { monthsUntil } from './localAnalysis';
+import { parseSavingsRange } from '../utils/analysisValidation';
+import { toPeriod } from '../utils/currency';
+import { getErrorMessage } from '../utils/errorHandling';
+
+/**
+ * Tools the chat model can call to answer from the loaded analysis instead of
+ * from whatever fits in the prompt. Each tool reads one ConversationData and
+ * returns plain JSON; results are capped so a call never floods the context.
+ */
+
+export interface ChatToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>; // JSON schema of the arguments
+  };
+}
+
+type ToolArgs = Record<string, unknown>;
+type ToolRunner = (args: ToolArgs, conversation: ConversationData) => unknown;
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+const GROUP_FIELDS = ['vendor', 'category', 'segment'] as const;
+type GroupField = typeof GROUP_FIELDS[number];
+
+const filterProperties = {
+  vendor: { type: 'string', description: 'Vendor name or part of it, case-insensitive' },
+  category: { type: 'string', description: 'Category name or part of it, case-insensitive' },
+  segment: { type: 'string', description: 'Business segment name or part of it, case-insensitive' }
+};
+
+export const CHAT_TOOLS: ChatToolDefinition[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'aggregate_spend',
+      description: 'Total past spend, projected spend and savings range grouped by vendor, category or segment, optionally filtered. Use for any question about amounts, rankings or counts.',
+      parameters: {
+        type: 'object',
+        properties: {
+          groupBy: { type: 'string', enum: GROUP_FIELDS, description: 'Field to group by' },
+          ...filterProperties,
+          sortBy: { type: 'string', enum: ['pastSpend', 'projectedSpend', 'savings'], description: 'Descending sort key; defaults to pastSpend' },
+          limit: { type: 'integer', description: `Groups to return, at most ${MAX_LIMIT}; defaults to ${DEFAULT_LIMIT}` }
+        },
+        required: ['groupBy']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'list_expiring_contracts',
+      description: 'Vendors whose contract ends within the given number of months, earliest first, from the contract end dates in the uploaded data.',
+      parameters: {
+        type: 'object',
+        properties: {
+          withinMonths: { type: 'integer', description: 'Window from today in months; defaults to 6' },
+          includeExpired: { type: 'boolean', description: 'Also list contracts already past their end date; defaults to true' }
+        }
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'savings_scenario',
+      description: 'Savings for a set of vendors. Without reductionPercent the analysis savings ranges are summed; with it, that flat reduction is applied to past spend.',
+      parameters: {
+        type: 'object',
+        properties: {
+          vendors: { type: 'array', items: { type: 'string' }, description: 'Vendor names; all vendors when omitted' },
+          category: filterProperties.category,
+          segment: filterProperties.segment,
+          reductionPercent: { type: 'number', description: 'Flat reduction to model, e.g. 10 for 10%' }
+        }
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'find_alternatives',
+      description: 'Alternative vendors suggested by the analysis for a vendor, with the recommendation details and the other vendors in the same category.',
+      parameters: {
+        type: 'object',
+        properties: {
+          vendor: filterProperties.vendor
+        },
+        required: ['vendor']
+      }
+    }
+  }
+];
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+const matches = (value: string, query: string) => !query || value.toLowerCase().includes(query.toLowerCase());
+
+const clampLimit = (value: unknown) =>
+  Math.min(Math.max(Math.round(typeof value === 'number' ? value : DEFAULT_LIMIT), 1), MAX_LIMIT);
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function savingsOf(item: SpendAnalysis): { min: number; max: number } {
+  return parseSavingsRange(item.savingsRange) ?? { min: 0, max: 0 };
+}
+
+function filterItems(items: SpendAnalysis[], args: ToolArgs): SpendAnalysis[] {
+  return items.filter(item =>
+    matches(item.vendor, text(args.vendor)) &&
+    matches(item.category, text(args.category)) &&
+    matches(item.segment, text(args.segment))
+  );
+}
+
+const aggregateSpend: ToolRunner = (args, conversation) => {
+  const groupBy: GroupField = GROUP_FIELDS.find(field => field === args.groupBy) ?? 'vendor';
+  const sortBy = ['pastSpend', 'projectedSpend', 'savings'].includes(String(args.sortBy)) ? String(args.sortBy) : 'pastSpend';
+  const items = filterItems(conversation.analysisResults, args);
+
+  const groups = new Map<string, { key: string; pastSpend: number; projectedSpend: number; savingsMin: number; savingsMax: number; items: number }>();
+  items.forEach(item => {
+    const key = item[groupBy] || 'Unassigned';
+    const group = groups.get(key) || { key, pastSpend: 0, projectedSpend: 0, savingsMin: 0, savingsMax: 0, items: 0 };
+    const savings = savingsOf(item);
+    group.pastSpend += item.pastSpend;
+    group.projectedSpend += item.projectedSpend;
+    group.savingsMin += savings.min;
+    group.savingsMax += savings.max;
+    group.items++;
+    groups.set(key, group);
+  });
+
+  const sortValue = (group: { pastSpend: number; projectedSpend: number; savingsMax: number }) =>
+    sortBy === 'savings' ? group.savingsMax : sortBy === 'projectedSpend' ? group.projectedSpend : group.pastSpend;
+  const sorted = Array.from(groups.values()).sort((a, b) => sortValue(b) - sortValue(a));
+  const limit = clampLimit(args.limit);
+
+  return {
+    currency: conversation.analysisResults[0]?.currency,
+    groupBy,
+    matchedItems: items.length,
+    totalGroups: sorted.length,
+    totals: {
+      pastSpend: round(items.reduce((sum, item) => sum + item.pastSpend, 0)),
+      projectedSpend: round(items.reduce((sum, item) => sum + item.projectedSpend, 0))
+    },
+    groups: sorted.slice(0, limit).map(group => ({
+      ...group,
+      pastSpend: round(group.pastSpend),
+      projectedSpend: round(group.projectedSpend),
+      savingsMin: round(group.savingsMin),
+      savingsMax: round(group.savingsMax)
+    })),
+    truncated: sorted.length > limit
+  };
+};
+
+const listExpiringContracts: ToolRunner = (args, conversation) => {
+  const withinMonths = typeof args.withinMonths === 'number' ? args.withinMonths : 6;
+  const includeExpired = args.includeExpired !== false;
+  const asOf = new Date();
+
+  // Earliest end date per vendor, from the uploaded rows
+  const ends = new Map<string, { vendor: string; contractEnd: string; spend: number }>();
+  conversation.rawData.forEach(row => {
+    const contractEnd = toPeriod(row?.contractEnd);
+    const vendor = text(row?.vendor);
+    if (!contractEnd || !vendor) return;
+    const entry = ends.get(vendor.toLowerCase()) || { vendor, contractEnd, spend: 0 };
+    if (contractEnd < entry.contractEnd) entry.contractEnd = contractEnd;
+    entry.spend += Number(row.spend) || 0;
+    ends.set(vendor.toLowerCase(), entry);
+  });
+
+  if (ends.size === 0) {
+    return { available: false, note: 'The uploaded data has no contract end dates for this analysis.' };
+  }
+
+  const contracts = Array.from(ends.values())
+    .map(entry => ({ ...entry, spend: round(entry.spend), monthsLeft: monthsUntil(entry.contractEnd, asOf) }))
+    .filter(entry => entry.monthsLeft <= withinMonths && (includeExpired || entry.monthsLeft >= 0))
+    .sort((a, b) => a.contractEnd.localeCompare(b.contractEnd));
+
+  return { available: true, asOf: asOf.toISOString().slice(0, 7), withinMonths, contracts: contracts.slice(0, MAX_LIMIT), truncated: contracts.length > MAX_LIMIT };
+};
+
+const savingsScenario: ToolRunner = (args, conversation) => {
+  const names = Array.isArray(args.vendors) ? args.vendors.map(text).filter(Boolean) : [];
+  const items = filterItems(conversation.analysisResults, { category: args.category, segment: args.segment })
+    .filter(item => names.length === 0 || names.some(name => matches(item.vendor, name)));
+  const reduction = typeof args.reductionPercent === 'number' ? args.reductionPercent / 100 : null;
+
+  const vendors = items.map(item => {
+    const savings = reduction !== null
+      ? { min: item.pastSpend * reduction, max: item.pastSpend * reduction }
+      : savingsOf(item);
+    return { vendor: item.vendor, pastSpend: round(item.pastSpend), savingsMin: round(savings.min), savingsMax: round(savings.max) };
+  });
+  const unmatched = names.filter(name => !items.some(item => matches(item.vendor, name)));
+
+  return {
+    currency: conversation.analysisResults[0]?.currency,
+    basis: reduction !== null ? `${args.reductionPercent}% flat reduction` : 'analysis savings ranges',
+    pastSpend: round(vendors.reduce((sum, vendor) => sum + vendor.pastSpend, 0)),
+    savingsMin: round(vendors.reduce((sum, vendor) => sum + vendor.savingsMin, 0)),
+    savingsMax: round(vendors.reduce((sum, vendor) => sum + vendor.savingsMax, 0)),
+    vendors: vendors.slice(0, MAX_LIMIT),
+    ...(unmatched.length > 0 ? { unmatched } : {})
+  };
+};
+
+const findAlternatives: ToolRunner = (args, conversation) => {
+  const query = text(args.vendor);
+  const item = conversation.analysisResults.find(candidate => candidate.vendor.toLowerCase() === query.toLowerCase())
+    ?? conversation.analysisResults.find(candidate => matches(candidate.vendor, query));
+  if (!item) return { found: false, note: `No vendor matching "${query}" in the analysis.` };
+
+  return {
+    found: true,
+    vendor: item.vendor,
+    category: item.category,
+    pastSpend: item.pastSpend,
+    savingsRange: item.savingsRange,
+    recommendation: item.details.description,
+    implementation: item.details.implementation,
+    riskLevel: item.details.riskLevel,
+    alternatives: item.alternatives ?? [],
+    sameCategoryVendors: conversation.analysisResults
+      .filter(other => other !== item && other.category === item.category)
+      .sort((a, b) => b.pastSpend - a.pastSpend)
+      .slice(0, DEFAULT_LIMIT)
+      .map(other => ({ vendor: other.vendor, pastSpend: other.pastSpend }))
+  };
+};
+
+const RUNNERS: Record<string, ToolRunner> = {
+  aggregate_spend: aggregateSpend,
+  list_expiring_contracts: listExpiringContracts,
+  savings_scenario: savingsScenario,
+  find_alternatives: findAlternatives
+};
+
+/**
+ * Run one tool call from the model. Bad arguments and unknown tools come back
+ * as an error on the call, which is sent to the model like any result.
+ */
+export function runChatTool(id: string, name: string, rawArguments: string, conversation: ConversationData | undefined): ChatToolCall {
+  let args: ToolArgs = {};
+  try {
+    args = rawArguments ? (JSON.parse(rawArguments) as ToolArgs) : {};
+    const runner = RUNNERS[name];
+    if (!runner) throw new Error(`Unknown tool ${name}`);
+    if (!conversation) throw new Error('No analysis is loaded');
+    const result = runner(args, conversation);
+    console.log('[ChatTools]', name, args);
+    return { id, name, arguments: args, result };
+  } catch (error) {
+    console.warn('[ChatTools]', name, 'failed:', getErrorMessage(error));
+    return { id, name, arguments: args, result: null, error: getErrorMessage(error) };
+  }
+}
@@ -1,14 +1,30 @@
 import type { SpendAnalysis, SummaryMetrics } from '../types';
+import { saveConversation } from './workspaceDb';
+import { logError } from '../utils/errorHandling';
+import { formatMoney } from '../utils/currency';
+
+// A tool the model called while answering, with what it returned
+export interface ChatToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  result: unknown;
+  error?: string;
+}
 
 export interface ChatMessage {
   id: string;
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  truncated?: boolean; // Generation was stopped before the reply was complete
+  offline?: boolean; // Computed from the analysis because the chat model was unavailable
+  toolCalls?: ChatToolCall[];
   context?: {
     fileId?: string;
-    vendorMentioned?: string[];
-    savingsCalculated?: number;
+    vendorMentioned?: string[]; // Analysis vendors the reply names
+    savingsCalculated?: number; // Savings those vendors account for
+    currency?: string; // Of savingsCalculated
   };
 }
 
@@ -16,7 +32,7 @@ export interface ConversationData {
   fileId: string;
   fileName: string;
   uploadTimestamp: Date;
-  rawData: any[];
+  rawData: any[]; // Prepared rows the analysis ran on; kept in memory only
   normalizedData: any[];
   analysisResults: SpendAnalysis[];
   summaryMetrics: SummaryMetrics;
@@ -62,6 +78,7 @@ export class ConversationDataManager {
 
     this.conversations.set(fileId, conversationData);
     this.currentFileId = fileId;
+    this.persist(conversationData);
     
     console.log('[ConversationData] Stored:', {
       fileId,
@@ -71,6 +88,23 @@ export class ConversationDataManager {
     });
   }
 
+  /**
+   * Bring back a conversation loaded from the workspace database
+   */
+  restore(conversation: ConversationData): void {
+    this.conversations.set(conversation.fileId, conversation);
+    this.currentFileId = conversation.fileId;
+    console.log('[ConversationData] Restored:', conversation.fileName, conversation.conversationHistory.length, 'messages');
+  }
+
+  /**
+   * Write a conversation through to IndexedDB; memory stays the source of truth.
+   * Rows are left out: the stored analysis holds them, and they can be large.
+   */
+  private persist(conversation: ConversationData): void {
+    saveConversation({ ...conversation, rawData: [] }).catch(error => logError('ConversationData', error));
+  }
+
   /**
    * Build comprehensive context for AI chat
    */
@@ -130,8 +164,8 @@ export class ConversationDataManager {
       currentFileId: targetFileId,
       totalFiles: availableFiles.length,
       totalVendors,
-      totalSpend: `€${totalSpend.toLocaleString()}`,
-      totalSavings: `€${totalSavings.toLocaleString()}`,
+      totalSpend: formatMoney(totalSpend, currentFile?.summaryMetrics.currency),
+      totalSavings: formatMoney(totalSavings, currentFile?.summaryMetrics.currency),
       topCategories: topCategories.slice(0, 3)
     });
 
@@ -145,6 +179,7 @@ export class ConversationDataManager {
     const conversation = this.conversations.get(fileId);
     if (conversation) {
       conversation.conversationHistory.push(message);
+      this.persist(conversation);
       console.log('[ConversationData] Added message:', {
         fileId,
         role: message.role,
@@ -1,413 +0,0 @@
-import type { SpendAnalysis, SummaryMetrics, ExcelRow } from '../types';
-import { extractVendorName, extractSpendAmount, extractCategory, extractSegment } from '../utils/dataExtraction';
-import { handleApiError, logError, getErrorMessage } from '../utils/errorHandling';
-
-// Enhanced mode API endpoints
-const ENHANCED_STEP1_API_URL = 'https://kenriippa.app.n8n.cloud/webhook/59ba9c89-d9ba-4422-a1fe-a96b4e5ef5b0';
-const ENHANCED_STEP2_API_URL = 'https://kenriippa.app.n8n.cloud/webhook/b584496f-c724-4528-a73a-d8c59668ffe4';
-
-// Normal mode API endpoints  
-const NORMAL_STEP1_API_URL = 'https://kenriippa.app.n8n.cloud/webhook/0bbb216c-d8e9-4e6d-961b-1241ec5c7bcb';
-const NORMAL_STEP2_API_URL = 'https://kenriippa.app.n8n.cloud/webhook/cdbfeea8-e5d0-4ce8-81ec-e4f532c5dd1b';
-// Note: This is a demo key - in production, use environment variables
-const API_KEY = 'Y2mqY#lfHL2Yi[Pasted text #1 +27 lines]W9RZWlO11tGmTEV*u';
-
-interface ExternalApiResponse {
-  analysis: SpendAnalysis[];
-  summary: SummaryMetrics;
-}
-
-/**
- * Convert Excel data to CSV format for Step 1 API
- */
-function convertExcelToCsvString(excelData: ExcelRow[]): string {
-  if (!excelData || excelData.length === 0) {
-    return '';
-  }
-
-  // Get headers from first row
-  const headers = Object.keys(excelData[0]);
-  
-  // Create CSV string
-  const csvRows = [
-    headers.join(','), // Header row
-    ...excelData.map(row => 
-      headers.map(header => {
-        const value = row[header] || '';
-        // Escape commas and quotes in CSV
-        if (typeof value === 'string' && (value.includes(',') || value.includes('"'))) {
-          return `"${value.replace(/"/g, '""')}"`;
-        }
-        return value;
-      }).join(',')
-    )
-  ];
-
-  return csvRows.join('\n');
-}
-
-/**
- * Call Step 1: Excel → Table Format (Data Normalization)
- */
-async function callStep1Api(excelData: ExcelRow[]): Promise<any> {
-  
-  const csvData = convertExcelToCsvString(excelData);
-  
-  const response = await fetch(ENHANCED_STEP1_API_URL, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'API-KEY': API_KEY,
-    },
-    body: JSON.stringify({
-      csv_data: csvData
-    })
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('[ExternalAPI] Step 1 failed:', response.status, errorText);
-    throw handleApiError(response, errorText, 'Step 1 API');
-  }
-
-  const result = await response.json();
-  return result;
-}
-
-/**
- * Call Step 2: Table Enrichment (find additional info, suggest alternatives)
- */
-async function callStep2Api(normalizedData: any): Promise<any> {
-  
-  const response = await fetch(ENHANCED_STEP2_API_URL, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'API-KEY': API_KEY,
-    },
-    body: JSON.stringify(normalizedData)
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('[ExternalAPI] Step 2 failed:', response.status, errorText);
-    throw handleApiError(response, errorText, 'Step 2 API');
-  }
-
-  const result = await response.json();
-  return result;
-}
-
-/**
- * Call Normal Mode Step 1: Excel → Table Format (Data Normalization)
- */
-async function callNormalStep1Api(excelData: ExcelRow[]): Promise<any> {
-  
-  const csvData = convertExcelToCsvString(excelData);
-  
-  const response = await fetch(NORMAL_STEP1_API_URL, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'API-KEY': API_KEY,
-    },
-    body: JSON.stringify({
-      csv_data: csvData
-    })
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('[NormalAPI] Step 1 failed:', response.status, errorText);
-    throw handleApiError(response, errorText, 'Normal Step 1 API');
-  }
-
-  const result = await response.json();
-  return result;
-}
-
-/**
- * Call Normal Mode Step 2: Table Enrichment (find additional info, suggest alternatives)
- */
-async function callNormalStep2Api(normalizedData: any): Promise<any> {
-  
-  const response = await fetch(NORMAL_STEP2_API_URL, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'API-KEY': API_KEY,
-    },
-    body: JSON.stringify(normalizedData)
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('[NormalAPI] Step 2 failed:', response.status, errorText);
-    throw handleApiError(response, errorText, 'Normal Step 2 API');
-  }
-
-  const result = await response.json();
-  return result;
-}
-
-/**
- * Convert external API response to our SpendAnalysis format
- */
-function mapToSpendAnalysis(_step1Data: any, _step2Data: any): SpendAnalysis[] {
-  const mockAnalysis: SpendAnalysis[] = [
-    {
-      id: 'ext-1',
-      vendor: 'Microsoft Corporation',
-      segment: 'IT',
-      category: 'Software',
-      type: 'Office Suite',
-      item: 'MS 365 E3 (Enhanced)',
-      pastSpend: 450000,
-      projectedSpend: 495000,
-      projectedChange: '+10%',
-      savingsRange: '€35,000 to €67,500',
-      savingsPercentage: '-8 to -15%',
-      confidence: 0.94,
-      alternatives: [
-        {
-          vendor: 'Google Workspace',
-          estimatedPrice: '€380,000',
-          feasibility: 'High - similar features, 30-day migration'
-        },
-        {
-          vendor: 'Zoho Workplace',
-          estimatedPrice: '€290,000',
-          feasibility: 'Medium - feature gaps, 60-day migration'
-        }
-      ],
-      details: {
-        description: 'Internet-enhanced analysis shows additional alternatives and real market pricing',
-        implementation: 'Audit usage patterns, negotiate enterprise discount, consider Google Workspace migration',
-        timeline: '30-60 days',
-        riskLevel: 'Low'
-      }
-    },
-    {
-      id: 'ext-2',
-      vendor: 'Salesforce',
-      segment: 'Sales',
-      category: 'Software',
-      type: 'Customer Relationship Management',
-      item: 'Salesforce Professional (Enhanced)',
-      pastSpend: 185000,
-      projectedSpend: 203000,
-      projectedChange: '+9%',
-      savingsRange: '€28,000 to €45,000',
-      savingsPercentage: '-15 to -25%',
-      confidence: 0.89,
-      alternatives: [
-        {
-          vendor: 'HubSpot',
-          estimatedPrice: '€140,000',
-          feasibility: 'High - easy migration, similar features'
-        },
-        {
-          vendor: 'Pipedrive',
-          estimatedPrice: '€95,000',
-          feasibility: 'Medium - simpler features, 45-day migration'
-        }
-      ],
-      details: {
-        description: 'Enhanced with real-time market data and alternative vendor pricing',
-        implementation: 'Compare feature sets, test HubSpot trial, negotiate current contract',
-        timeline: '45-90 days',
-        riskLevel: 'Medium'
-      }
-    }
-  ];
-
-  return mockAnalysis;
-}
-
-/**
- * Generate summary metrics from enhanced analysis
- */
-function generateSummaryMetrics(analysis: SpendAnalysis[]): SummaryMetrics {
-  const totalPastSpend = analysis.reduce((sum, item) => sum + item.pastSpend, 0);
-  const totalProjectedSpend = analysis.reduce((sum, item) => sum + item.projectedSpend, 0);
-  
-  // Enhanced analysis typically shows better savings due to internet-sourced alternatives
-  const enhancedSavings = {
-    min: totalPastSpend * 0.12, // 12% minimum savings (better than standard 8%)
-    max: totalPastSpend * 0.25  // 25% maximum savings (better than standard 18%)
-  };
-
-  return {
-    pastSpend: totalPastSpend,
-    projectedSpend: totalProjectedSpend,
-    potentialSavings: enhancedSavings,
-    roi: Math.round(((enhancedSavings.min + enhancedSavings.max) / 2) / totalPastSpend * 100)
-  };
-}
-
-/**
- * Generate enhanced mock data based on input Excel data
- */
-function generateEnhancedMockData(excelData: ExcelRow[]): ExternalApiResponse {
-  console.log('🎭 Generating enhanced mock data for demo...');
-  
-  // Create enhanced analysis based on input data - process ALL vendors
-  const mockAnalysis: SpendAnalysis[] = excelData.map((row, index) => {
-    // Check if this is preprocessed data (has 'vendor' and 'spend' fields) or raw Excel
-    const isPreprocessed = row.vendor && row.spend !== undefined;
-    
-    const vendorName = isPreprocessed ? String(row.vendor || '') : (extractVendorName(row) || `Vendor ${index + 1}`);
-    const baseSpend = isPreprocessed ? Number(row.spend || 0) : (extractSpendAmount(row) || (50000 + Math.random() * 400000));
-    const actualSavings = isPreprocessed ? Number(row.potentialSavings || 0) : 0;
-    const savingsPercent = isPreprocessed ? String(row.savingsPercentage || '15%') : '15%';
-    
-    // Use actual values when available, enhanced estimates otherwise
-    const projectedSpend = isPreprocessed && row.projectedSpend ? 
-      Number(row.projectedSpend) : baseSpend - Math.abs(actualSavings || baseSpend * 0.15);
-    
-    const segment = isPreprocessed ? String(row.segment || 'Operations') : (extractSegment(row) || 'Operations');
-    const category = isPreprocessed ? String(row.category || 'Hardware') : (extractCategory(row) || 'Hardware');
-    
-    return {
-      id: `enhanced-${index + 1}`,
-      vendor: vendorName,
-      segment: segment,
-      category: category,
-      type: isPreprocessed ? String(row.productInfo || category) : 'Enterprise Solution',
-      item: `${vendorName} (Enhanced Analysis)`,
-      pastSpend: Math.round(baseSpend * 100) / 100,
-      projectedSpend: Math.round(projectedSpend * 100) / 100,
-      projectedChange: savingsPercent,
-      savingsRange: actualSavings !== 0 ? 
-        `€${Math.abs(actualSavings).toLocaleString()}` : 
-        `€${Math.round(baseSpend * 0.12).toLocaleString()} to €${Math.round(baseSpend * 0.25).toLocaleString()}`,
-      savingsPercentage: savingsPercent,
-      confidence: Math.round((0.85 + Math.random() * 0.15) * 100) / 100,
-      alternatives: [
-        {
-          vendor: `Alternative ${index + 1}A`,
-          estimatedPrice: `€${Math.round(baseSpend * (0.75 + Math.random() * 0.15)).toLocaleString()}`,
-          feasibility: 'High - internet-verified compatibility'
-        },
-        {
-          vendor: `Alternative ${index + 1}B`, 
-          estimatedPrice: `€${Math.round(baseSpend * (0.60 + Math.random() * 0.20)).toLocaleString()}`,
-          feasibility: 'Medium - requires integration assessment'
-        },
-        {
-          vendor: `Market Leader ${index + 1}`,
-          estimatedPrice: `€${Math.round(baseSpend * (0.80 + Math.random() * 0.10)).toLocaleString()}`,
-          feasibility: 'High - industry standard solution'
-        }
-      ],
-      details: {
-        description: 'Enhanced with real-time market data, competitive pricing analysis, and verified alternatives',
-        implementation: 'Market research shows 3 viable alternatives with verified pricing and compatibility',
-        timeline: `${30 + Math.round(Math.random() * 60)} days`,
-        riskLevel: Math.random() > 0.7 ? 'Medium' : 'Low' as any
-      }
-    };
-  });
-
-  const summary = generateSummaryMetrics(mockAnalysis);
-
-  return { analysis: mockAnalysis, summary };
-}
-
-
-/**
- * Main function: Process Excel data through both external APIs
- */
-export async function processWithExternalAPIs(excelData: ExcelRow[]): Promise<ExternalApiResponse> {
-  console.log('🚀 Starting Enhanced Analysis with External APIs...');
-  console.log('Processing', excelData.length, 'records');
-
-  try {
-    // Step 1: Data Normalization
-    const step1Result = await callStep1Api(excelData);
-    const step2Result = await callStep2Api(step1Result);
-    const analysis = mapToSpendAnalysis(step1Result, step2Result);
-    const summary = generateSummaryMetrics(analysis);
-    
-    console.log('✅ Enhanced Analysis Complete with Live APIs!');
-    console.log('Records processed:', analysis.length, '| Total spend: €' + summary.pastSpend.toLocaleString());
-    
-    return {
-      analysis,
-      summary
-    };
-    
-  } catch (error) {
-    logError('ExternalAPI', error);
-    console.warn('🔄 Live APIs unavailable, using enhanced mock data for demo:', getErrorMessage(error));
-    
-    console.log('🎭 Falling back to Enhanced Demo Mode...');
-    const mockResult = generateEnhancedMockData(excelData);
-    
-    console.log('✅ Enhanced Analysis Complete with Demo Data!');
-    console.log('Records processed:', mockResult.analysis.length, '| Total spend: €' + mockResult.summary.pastSpend.toLocaleString());
-    
-    return mockResult;
-  }
-}
-
-/**
- * Main function: Process Excel data through normal mode external APIs
- */
-export async function processWithNormalAPIs(excelData: ExcelRow[]): Promise<ExternalApiResponse> {
-  console.log('🚀 Starting Normal Analysis with External APIs...');
-  console.log('Processing', excelData.length, 'records');
-
-  try {
-    // Step 1: Data Normalization
-    const step1Result = await callNormalStep1Api(excelData);
-    const step2Result = await callNormalStep2Api(step1Result);
-    const analysis = mapToSpendAnalysis(step1Result, step2Result);
-    const summary = generateSummaryMetrics(analysis);
-    
-    console.log('✅ Normal Analysis Complete with Live APIs!');
-    console.log('Records processed:', analysis.length, '| Total spend: €' + summary.pastSpend.toLocaleString());
-    
-    return {
-      analysis,
-      summary
-    };
-    
-  } catch (error) {
-    logError('NormalAPI', error);
-    console.warn('🔄 Live APIs unavailable, using mock data for demo:', getErrorMessage(error));
-    
-    console.log('🎭 Falling back to Demo Mode...');
-    const mockResult = generateEnhancedMockData(excelData);
-    
-    console.log('✅ Normal Analysis Complete with Demo Data!');
-    console.log('Records processed:', mockResult.analysis.length, '| Total spend: €' + mockResult.summary.pastSpend.toLocaleString());
-    
-    return mockResult;
-  }
-}
-
-/**
- * Test function to verify API connectivity
- */
-export async function testExternalAPIConnection(): Promise<boolean> {
-  try {
-    // Test with minimal data
-    const testData = [
-      {
-        'Vendor Name': 'Test Vendor',
-        'Annual Spend': '1000',
-        'Category': 'Software'
-      }
-    ];
-    
-    console.log('[ExternalAPI] Testing connection...');
-    await callStep1Api(testData);
-    
-    console.log('[ExternalAPI] ✅ Connection test successful');
-    return true;
-  } catch (error) {
-    logError('ExternalAPI Connection Test', error);
-    return false;
-  }
-}
\ No newline at end of file
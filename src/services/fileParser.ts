@@ -0,0 +1,113 @@
+import type { WorkbookSheet } from '../types';
+import type { ParseKind, ParseProgress, ParseResponse } from '../workers/parserMessages';
+import { parseCsvFile, parseExcelWorkbook } from './openai';
+import { ErrorType, ValoriesError, handleCancelledError, handleParsingError } from '../utils/errorHandling';
+
+export interface ParseTask<T> {
+  promise: Promise<T>;
+  cancel: () => void;
+}
+
+/**
+ * Run one parse in a dedicated worker. Cancelling terminates the worker,
+ * which also stops an xlsx parse that never yields back to the message loop.
+ */
+function runParserWorker<T>(
+  file: File,
+  kind: ParseKind,
+  onProgress: (progress: ParseProgress) => void,
+  pickResult: (response: ParseResponse) => T | undefined
+): ParseTask<T> {
+  const worker = new Worker(new URL('../workers/parser.worker.ts', import.meta.url), { type: 'module' });
+  let settled = false;
+  let rejectTask: (error: Error) => void = () => {};
+
+  const promise = new Promise<T>((resolve, reject) => {
+    rejectTask = reject;
+
+    worker.onmessage = (event: MessageEvent<ParseResponse>) => {
+      const response = event.data;
+      if (response.type === 'progress') {
+        const { stage, bytesRead, totalBytes, rowsParsed } = response;
+        onProgress({ stage, bytesRead, totalBytes, rowsParsed });
+        return;
+      }
+
+      settled = true;
+      worker.terminate();
+      if (response.type === 'error') {
+        reject(new ValoriesError(ErrorType.PARSING_ERROR, response.message));
+        return;
+      }
+      const result = pickResult(response);
+      if (result === undefined) {
+        reject(handleParsingError(file.name));
+      } else {
+        resolve(result);
+      }
+    };
+
+    worker.onerror = (event) => {
+      settled = true;
+      worker.terminate();
+      reject(handleParsingError(file.name, new Error(event.message)));
+    };
+  });
+
+  worker.postMessage({ type: 'parse', file, kind });
+
+  return {
+    promise,
+    cancel: () => {
+      if (settled) return;
+      settled = true;
+      worker.terminate();
+      console.log('[FileParser] Cancelled parsing', file.name);
+      rejectTask(handleCancelledError(`Parsing ${file.name}`));
+    }
+  };
+}
+
+/**
+ * Fallback for environments without workers: parse on the main thread, no cancellation
+ */
+function runOnMainThread<T>(parse: () => Promise<T>): ParseTask<T> {
+  return { promise: parse(), cancel: () => {} };
+}
+
+/**
+ * Stream a CSV file into rows in a worker
+ */
+export function parseCsvInWorker(
+  file: File,
+  onProgress: (progress: ParseProgress) => void
+): ParseTask<Record<string, unknown>[]> {
+  if (typeof Worker === 'undefined') return runOnMainThread(() => parseCsvFile(file));
+
+  return runParserWorker(file, 'csv', onProgress, response => {
+    if (response.type !== 'csv') return undefined;
+    console.log('[FileParser] CSV parsed:', response.rows.length, 'rows, delimiter', JSON.stringify(response.delimiter));
+    if (response.diagnostics.length > 0) {
+      console.warn(`[FileParser] ${response.diagnostics.length} row(s) with unexpected column count:`, response.diagnostics.slice(0, 20));
+    }
+    return response.rows;
+  });
+}
+
+/**
+ * Read every sheet of a workbook in a worker
+ */
+export function parseWorkbookInWorker(
+  file: File,
+  onProgress: (progress: ParseProgress) => void
+): ParseTask<WorkbookSheet[]> {
+  if (typeof Worker === 'undefined') return runOnMainThread(() => parseExcelWorkbook(file));
+
+  return runParserWorker(file, 'excel', onProgress, response => {
+    if (response.type !== 'workbook') return undefined;
+    response.sheets.forEach(sheet => {
+      console.log('[FileParser] Sheet', sheet.name, '-', sheet.rows.length, 'rows with', sheet.headers.length, 'columns');
+    });
+    return response.sheets;
+  });
+}
@@ -0,0 +1,87 @@
+import type { FxRate } from '../utils/currency';
+import { toPeriod } from '../utils/currency';
+import { parseCsv, detectCsvDelimiter } from '../utils/csvParser';
+import { normalizeHeader } from '../utils/columnMapping';
+import { parseAmountColumn } from '../utils/numberParsing';
+import { ErrorType, ValoriesError, logError } from '../utils/errorHandling';
+
+const STORAGE_KEY = 'valoris.fxRates';
+
+export interface FxImportResult {
+  imported: number;
+  skipped: number;
+  rates: FxRate[];
+}
+
+/**
+ * Load the local FX rate table
+ */
+export function loadFxRates(): FxRate[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as FxRate[]) : [];
+  } catch (error) {
+    logError('FxRates', error);
+    return [];
+  }
+}
+
+function writeFxRates(rates: FxRate[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(rates));
+  } catch (error) {
+    logError('FxRates', error);
+  }
+}
+
+const rateKey = (rate: FxRate) => `${rate.period}|${rate.base}|${rate.quote}`;
+
+/**
+ * Import rates from CSV with the columns period, base, quote and rate
+ * (one base unit in quote units). Rows for an existing period and pair
+ * replace the stored rate.
+ */
+export function importFxRatesCsv(text: string): FxImportResult {
+  const { headers, rows } = parseCsv(text, detectCsvDelimiter(text));
+  const column = (name: string) => headers.find(header => normalizeHeader(header) === name);
+
+  const periodHeader = column('period') || column('date') || column('month');
+  const baseHeader = column('base') || column('from');
+  const quoteHeader = column('quote') || column('to');
+  const rateHeader = column('rate');
+
+  if (!periodHeader || !baseHeader || !quoteHeader || !rateHeader) {
+    throw new ValoriesError(
+      ErrorType.VALIDATION_ERROR,
+      'FX rate CSV needs the columns period, base, quote and rate'
+    );
+  }
+
+  const values = parseAmountColumn(rows.map(row => row[rateHeader]));
+  const imported: FxRate[] = [];
+
+  rows.forEach((row, index) => {
+    const period = toPeriod(row[periodHeader]);
+    const base = String(row[baseHeader] ?? '').trim().toUpperCase();
+    const quote = String(row[quoteHeader] ?? '').trim().toUpperCase();
+    const rate = values.parsed[index].value;
+
+    if (!period || !/^[A-Z]{3}$/.test(base) || !/^[A-Z]{3}$/.test(quote) || !rate || rate <= 0) return;
+    imported.push({ period, base, quote, rate });
+  });
+
+  const merged = new Map(loadFxRates().map(rate => [rateKey(rate), rate]));
+  imported.forEach(rate => merged.set(rateKey(rate), rate));
+  const rates = Array.from(merged.values()).sort((a, b) => rateKey(a).localeCompare(rateKey(b)));
+
+  writeFxRates(rates);
+  console.log('[FxRates] Imported', imported.length, 'rates,', rows.length - imported.length, 'skipped');
+  return { imported: imported.length, skipped: rows.length - imported.length, rates };
+}
+
+/**
+ * Remove every stored rate
+ */
+export function clearFxRates(): void {
+  writeFxRates([]);
+}
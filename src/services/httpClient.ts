@@ -0,0 +1,226 @@
+import {
+  ErrorType,
+  ValoriesError,
+  handleApiError,
+  handleCancelledError,
+  handleNetworkError
+} from '../utils/errorHandling';
+
+/**
+ * Shared HTTP client for every outbound call: per-endpoint timeouts,
+ * exponential backoff with jitter on transient failures, Retry-After,
+ * request IDs and cancellation through an AbortSignal.
+ */
+
+export type EndpointName =
+  | 'n8n.normalize'
+  | 'n8n.enrich'
+  | 'n8n.health'
+  | 'openai.models'
+  | 'openai.chat'
+  | 'llm.probe'
+  | 'config';
+
+export interface EndpointPolicy {
+  label: string;
+  timeoutMs: number; // Until response headers arrive, per attempt
+  maxRetries: number;
+}
+
+export const ENDPOINT_POLICIES: Record<EndpointName, EndpointPolicy> = {
+  // Workflows run LLM steps before answering
+  'n8n.normalize': { label: 'Normalization webhook', timeoutMs: 120000, maxRetries: 2 },
+  'n8n.enrich': { label: 'Enrichment webhook', timeoutMs: 180000, maxRetries: 2 },
+  'n8n.health': { label: 'Webhook connection test', timeoutMs: 15000, maxRetries: 0 },
+  'openai.models': { label: 'OpenAI connection test', timeoutMs: 10000, maxRetries: 1 },
+  'openai.chat': { label: 'Chat completion', timeoutMs: 60000, maxRetries: 2 },
+  // Local models can take a while to load on the first request
+  'llm.probe': { label: 'Model capability check', timeoutMs: 60000, maxRetries: 0 },
+  'config': { label: 'Runtime configuration', timeoutMs: 5000, maxRetries: 1 }
+};
+
+export interface HttpRequest {
+  endpoint: EndpointName;
+  url: string;
+  method?: 'GET' | 'POST';
+  headers?: Record<string, string>;
+  body?: unknown; // Sent as JSON
+  signal?: AbortSignal; // Aborting cancels the request and any pending retry
+}
+
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_CAP_MS = 30000;
+const MAX_RETRY_AFTER_MS = 60000;
+
+/**
+ * Id sent as X-Request-ID, the same for every retry of one request
+ */
+export function createRequestId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) return crypto.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Full-jitter exponential backoff: a random delay up to base * 2^attempt
+ */
+function backoffDelay(attempt: number): number {
+  return Math.random() * Math.min(BACKOFF_CAP_MS, BACKOFF_BASE_MS * 2 ** attempt);
+}
+
+/**
+ * Delay requested by a Retry-After header, in seconds or as an HTTP date
+ */
+function retryAfterDelay(response: Response): number | null {
+  const header = response.headers.get('Retry-After');
+  if (!header) return null;
+
+  const seconds = Number(header);
+  const delay = Number.isFinite(seconds) ? seconds * 1000 : new Date(header).getTime() - Date.now();
+  if (!Number.isFinite(delay)) return null;
+  return Math.min(Math.max(delay, 0), MAX_RETRY_AFTER_MS);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * One attempt with its own timeout; the caller's signal aborts it too
+ */
+async function attemptFetch(request: HttpRequest, policy: EndpointPolicy, requestId: string): Promise<Response> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, policy.timeoutMs);
+  const forwardAbort = () => controller.abort();
+  request.signal?.addEventListener('abort', forwardAbort, { once: true });
+
+  try {
+    return await fetch(request.url, {
+      method: request.method || (request.body === undefined ? 'GET' : 'POST'),
+      headers: {
+        ...(request.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        ...request.headers,
+        'X-Request-ID': requestId
+      },
+      body: request.body !== undefined ? JSON.stringify(request.body) : undefined,
+      signal: controller.signal
+    });
+  } catch (error) {
+    if (request.signal?.aborted) throw handleCancelledError(policy.label);
+    if (timedOut) {
+      throw new ValoriesError(ErrorType.NETWORK_ERROR, `${policy.label} timed out after ${policy.timeoutMs / 1000}s`, undefined, undefined, true);
+    }
+    throw handleNetworkError(policy.label, error instanceof Error ? error : new Error(String(error)));
+  } finally {
+    clearTimeout(timer);
+    request.signal?.removeEventListener('abort', forwardAbort);
+  }
+}
+
+/**
+ * Send a request, retrying transient failures. Resolves with the first OK
+ * response; non-OK responses become ValoriesError with the status.
+ */
+export async function httpRequest(request: HttpRequest): Promise<Response> {
+  const policy = ENDPOINT_POLICIES[request.endpoint];
+  const requestId = createRequestId();
+
+  for (let attempt = 0; ; attempt++) {
+    if (request.signal?.aborted) throw handleCancelledError(policy.label);
+
+    let error: ValoriesError;
+    let retryAfter: number | null = null;
+    try {
+      const response = await attemptFetch(request, policy, requestId);
+      if (response.ok) return response;
+
+      const errorText = await response.text().catch(() => '');
+      error = handleApiError(response, errorText, `${policy.label} [${requestId}]`);
+      retryAfter = retryAfterDelay(response);
+    } catch (caught) {
+      if (!(caught instanceof ValoriesError)) throw caught;
+      error = caught;
+    }
+
+    if (!error.retriable || attempt >= policy.maxRetries) throw error;
+
+    const delay = retryAfter ?? backoffDelay(attempt);
+    console.warn(`[HttpClient] ${policy.label} attempt ${attempt + 1} failed (${error.message}); retrying in ${Math.round(delay)}ms`);
+    try {
+      await sleep(delay, request.signal);
+    } catch {
+      throw handleCancelledError(policy.label);
+    }
+  }
+}
+
+/**
+ * Send a request and parse the JSON response
+ */
+export async function httpJson<T = unknown>(request: HttpRequest): Promise<T> {
+  const response = await httpRequest(request);
+  const text = await response.text();
+  try {
+    return JSON.parse(text) as T;
+  } catch (error) {
+    console.error(`[HttpClient] ${ENDPOINT_POLICIES[request.endpoint].label} returned invalid JSON:`, text.slice(0, 200));
+    throw new ValoriesError(
+      ErrorType.PARSING_ERROR,
+      `${ENDPOINT_POLICIES[request.endpoint].label} returned invalid JSON`,
+      response.status,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Data payloads of a server-sent event stream, in order. Aborting the signal
+ * cancels the body, so a stopped stream releases its connection.
+ */
+export async function* readEventStream(response: Response, signal?: AbortSignal): AsyncGenerator<string> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const cancel = () => {
+    reader.cancel().catch(() => undefined);
+  };
+  signal?.addEventListener('abort', cancel, { once: true });
+
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (signal?.aborted) throw handleCancelledError('Event stream');
+      // A last event without its closing blank line still counts
+      buffer += done ? '\n\n' : decoder.decode(value, { stream: true });
+
+      // Events end with a blank line; a multi-line payload is joined with newlines
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = events.pop() ?? '';
+      for (const event of events) {
+        const data = event
+          .split(/\r?\n/)
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).replace(/^ /, ''));
+        if (data.length > 0) yield data.join('\n');
+      }
+      if (done) break;
+    }
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+    reader.releaseLock();
+  }
+}
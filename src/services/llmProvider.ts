@@ -0,0 +1,297 @@
+import { httpJson, httpRequest, readEventStream } from './httpClient';
+import { getConfig } from './appConfig';
+import { getErrorMessage, isCancelledError, logError } from '../utils/errorHandling';
+
+/**
+ * The model behind the chat. Every provider speaks the OpenAI chat
+ * completions API, so a self-hosted server (llama.cpp, vLLM, Ollama, LM Studio)
+ * is just another base URL and model. Endpoints come from the configuration;
+ * users pick a provider and adjust its model, extra headers and request
+ * parameters in settings. The client holds no keys: the OpenAI endpoint is
+ * the proxy route that adds one, and self-hosted servers usually need none.
+ */
+
+export type LlmProviderId = 'openai' | 'self-hosted';
+
+export interface LlmProviderInfo {
+  id: LlmProviderId;
+  label: string;
+  description: string;
+  external: boolean; // Sends data outside the company network
+  keyed: boolean; // Its endpoint is the proxy route that adds a key, so users cannot move it
+}
+
+export interface LlmCapabilities {
+  streaming: boolean;
+  toolCalling: boolean;
+  contextLength?: number; // Tokens, when the server reports it
+  checkedAt: number;
+}
+
+// What users can change per provider; empty fields fall back to the configuration
+export interface LlmEndpointSettings {
+  baseUrl: string;
+  model: string;
+  headers: Record<string, string>; // Sent with every request
+  parameters: Record<string, unknown>; // Merged into every chat completion request
+}
+
+export interface LlmSettings {
+  providerId: LlmProviderId | null; // null until a user picks one; the configuration decides
+  endpoints: Partial<Record<LlmProviderId, Partial<LlmEndpointSettings>>>;
+  capabilities: Record<string, LlmCapabilities>; // Last probe per base URL and model
+}
+
+export interface ChatLlm extends LlmEndpointSettings {
+  provider: LlmProviderInfo;
+  capabilities?: LlmCapabilities;
+}
+
+export interface LlmProbeResult {
+  ok: boolean;
+  detail?: string;
+  models: string[];
+  capabilities?: LlmCapabilities;
+}
+
+export const LLM_PROVIDERS: LlmProviderInfo[] = [
+  {
+    id: 'openai',
+    label: 'OpenAI',
+    description: 'OpenAI hosted models; chat messages and analysis context leave your network',
+    external: true,
+    keyed: true
+  },
+  {
+    id: 'self-hosted',
+    label: 'Self-hosted',
+    description: 'Any OpenAI-compatible server you run, such as llama.cpp or vLLM',
+    external: false,
+    keyed: false
+  }
+];
+
+const STORAGE_KEY = 'valoris.llmSettings';
+
+const DEFAULT_SETTINGS: LlmSettings = { providerId: null, endpoints: {}, capabilities: {} };
+
+interface ModelList {
+  data?: {
+    id: string;
+    max_model_len?: number; // vLLM
+    context_length?: number; // LM Studio and others
+    meta?: { n_ctx_train?: number }; // llama.cpp
+  }[];
+}
+
+interface ProbeCompletion {
+  choices?: { message?: { content?: string | null; tool_calls?: unknown[] } }[];
+}
+
+const PROBE_TOOL = {
+  type: 'function',
+  function: {
+    name: 'report_status',
+    description: 'Report that the assistant is ready',
+    parameters: { type: 'object', properties: { status: { type: 'string' } }, required: ['status'] }
+  }
+};
+
+const capabilityKey = (baseUrl: string, model: string) => `${baseUrl}|${model}`;
+
+const trimSlash = (url: string) => url.trim().replace(/\/+$/, '');
+
+const PRIVATE_IPV4 = [/^127\./, /^10\./, /^172\.(1[6-9]|2\d|3[01])\./, /^192\.168\./, /^169\.254\./];
+
+/**
+ * Whether a base URL stays on this machine or the private network: localhost,
+ * .local names, private IPv4 ranges and IPv6 loopback, unique-local and link-local.
+ * Paths resolve against the page, like the requests themselves.
+ */
+export function isPrivateNetworkUrl(url: string): boolean {
+  let hostname: string;
+  try {
+    hostname = new URL(url, window.location.href).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || hostname.endsWith('.local')) return true;
+  if (PRIVATE_IPV4.some(range => range.test(hostname))) return true;
+  const ipv6 = hostname.replace(/^\[|\]$/g, '');
+  return ipv6 === '::1' || /^f[cd][0-9a-f]{2}:/.test(ipv6) || /^fe[89ab][0-9a-f]:/.test(ipv6);
+}
+
+/**
+ * Load the chat model settings, filling in defaults for missing keys
+ */
+export function loadLlmSettings(): LlmSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_SETTINGS, ...(JSON.parse(stored) as Partial<LlmSettings>) } : DEFAULT_SETTINGS;
+  } catch (error) {
+    logError('LLM', error);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+/**
+ * Merge and persist a settings change
+ */
+export function saveLlmSettings(changes: Partial<LlmSettings>): LlmSettings {
+  const settings = { ...loadLlmSettings(), ...changes };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    logError('LLM', error);
+  }
+  return settings;
+}
+
+/**
+ * Providers users may pick; external ones are left out when the configuration forbids them
+ */
+export function availableLlmProviders(): LlmProviderInfo[] {
+  const { allowExternal } = getConfig().llm;
+  return LLM_PROVIDERS.filter(provider => allowExternal || !provider.external);
+}
+
+/**
+ * Provider, endpoint and known capabilities the chat should use right now
+ */
+export function getChatLlm(settings: LlmSettings = loadLlmSettings()): ChatLlm {
+  const config = getConfig();
+  const available = availableLlmProviders();
+  const provider =
+    available.find(candidate => candidate.id === settings.providerId) ??
+    available.find(candidate => candidate.id === config.llm.provider) ??
+    available[0];
+
+  const configured = provider.id === 'openai'
+    ? { baseUrl: config.openai.baseUrl, model: config.openai.chatModel }
+    : { baseUrl: config.llm.selfHosted.baseUrl, model: config.llm.selfHosted.model };
+  const overrides = settings.endpoints[provider.id] ?? {};
+  // Keyed endpoints stay where the configuration puts them; with external
+  // calls disabled, an override has to stay on the private network too
+  const overrideUrl = !provider.keyed && overrides.baseUrl && (config.llm.allowExternal || isPrivateNetworkUrl(overrides.baseUrl))
+    ? overrides.baseUrl
+    : '';
+  const baseUrl = trimSlash(overrideUrl || configured.baseUrl);
+  const model = (overrides.model || configured.model).trim();
+
+  return {
+    provider,
+    baseUrl,
+    model,
+    headers: overrides.headers ?? {},
+    parameters: overrides.parameters ?? {},
+    capabilities: settings.capabilities[capabilityKey(baseUrl, model)]
+  };
+}
+
+/**
+ * Whether the chat can send requests: an endpoint and a model
+ */
+export function isLlmConfigured(llm: ChatLlm): boolean {
+  return Boolean(llm.baseUrl && llm.model);
+}
+
+/**
+ * Request headers: the custom headers only, since keys are added by the proxy
+ */
+export function llmHeaders(llm: ChatLlm): Record<string, string> {
+  return { ...llm.headers };
+}
+
+function contextLengthOf(models: ModelList, model: string): number | undefined {
+  const entry = models.data?.find(candidate => candidate.id === model);
+  const length = entry?.max_model_len ?? entry?.context_length ?? entry?.meta?.n_ctx_train;
+  return typeof length === 'number' && length > 0 ? length : undefined;
+}
+
+async function probeStreaming(llm: ChatLlm, signal?: AbortSignal): Promise<boolean> {
+  const response = await httpRequest({
+    endpoint: 'llm.probe',
+    url: `${llm.baseUrl}/chat/completions`,
+    headers: llmHeaders(llm),
+    body: { model: llm.model, messages: [{ role: 'user', content: 'Reply with OK.' }], max_tokens: 5, stream: true },
+    signal
+  });
+  if (!response.headers.get('Content-Type')?.includes('text/event-stream')) {
+    await response.body?.cancel();
+    return false;
+  }
+  for await (const data of readEventStream(response, signal)) {
+    if (data === '[DONE]') break;
+  }
+  return true;
+}
+
+async function probeToolCalling(llm: ChatLlm, signal?: AbortSignal): Promise<boolean> {
+  try {
+    const data = await httpJson<ProbeCompletion>({
+      endpoint: 'llm.probe',
+      url: `${llm.baseUrl}/chat/completions`,
+      headers: llmHeaders(llm),
+      body: {
+        model: llm.model,
+        messages: [{ role: 'user', content: 'Call the report_status tool with status "ready".' }],
+        tools: [PROBE_TOOL],
+        max_tokens: 50
+      },
+      signal
+    });
+    return (data.choices?.[0]?.message?.tool_calls?.length ?? 0) > 0;
+  } catch (error) {
+    // Servers without tool support tend to reject the request outright
+    if (isCancelledError(error)) throw error;
+    console.log('[LLM] Tool call probe failed:', getErrorMessage(error));
+    return false;
+  }
+}
+
+/**
+ * Check an endpoint: list its models, then try a streamed completion and a
+ * tool call with the selected model. The capabilities found are saved, and
+ * the chat adapts to them (no tools or no streaming where unsupported).
+ */
+export async function probeLlm(llm: ChatLlm, signal?: AbortSignal): Promise<LlmProbeResult> {
+  if (!llm.baseUrl || !llm.model) {
+    return { ok: false, detail: 'Set a base URL and model first', models: [] };
+  }
+
+  let models: string[] = [];
+  let contextLength: number | undefined;
+  try {
+    const list = await httpJson<ModelList>({
+      endpoint: 'llm.probe',
+      url: `${llm.baseUrl}/models`,
+      headers: llmHeaders(llm),
+      signal
+    });
+    models = (list.data ?? []).map(entry => entry.id).filter(Boolean);
+    contextLength = contextLengthOf(list, llm.model);
+  } catch (error) {
+    if (isCancelledError(error)) throw error;
+    logError('LLM', error);
+    return { ok: false, detail: `Could not reach ${llm.baseUrl}: ${getErrorMessage(error)}`, models };
+  }
+  if (models.length > 0 && !models.includes(llm.model)) {
+    return { ok: false, detail: `The server has no model "${llm.model}"`, models };
+  }
+
+  let streaming: boolean;
+  try {
+    streaming = await probeStreaming(llm, signal);
+  } catch (error) {
+    if (isCancelledError(error)) throw error;
+    logError('LLM', error);
+    return { ok: false, detail: `Chat completion failed: ${getErrorMessage(error)}`, models };
+  }
+  const toolCalling = await probeToolCalling(llm, signal);
+
+  const capabilities: LlmCapabilities = { streaming, toolCalling, contextLength, checkedAt: Date.now() };
+  const settings = loadLlmSettings();
+  saveLlmSettings({ capabilities: { ...settings.capabilities, [capabilityKey(llm.baseUrl, llm.model)]: capabilities } });
+  console.log('[LLM] Probed', llm.model, 'at', llm.baseUrl, capabilities);
+  return { ok: true, models, capabilities };
+}
@@ -0,0 +1,484 @@
+/**
+ * Rules-based savings analysis that runs entirely in the browser. Works on
+ * mapped rows (canonical vendor/spend/category/... columns, spend already
+ * converted to the reporting currency) and only uses numbers found in them.
+ */
+
+import type { AnalysisDetails, ExcelRow, SpendAnalysis, SummaryMetrics, VendorAlternative } from '../types';
+import { DEFAULT_REPORTING_CURRENCY, formatMoney, toPeriod } from '../utils/currency';
+import { vendorKey } from '../utils/entityResolution';
+import { parseAmount } from '../utils/numberParsing';
+
+export type SavingsLever = 'rightSizing' | 'consolidation' | 'renewalTiming' | 'tailSpend';
+
+export interface SavingsFinding {
+  lever: SavingsLever;
+  minRate: number; // Share of the vendor's spend, 0-1
+  maxRate: number;
+  explanation: string;
+  implementation: string;
+  timeline: string;
+  riskLevel: AnalysisDetails['riskLevel'];
+  alternatives?: VendorAlternative[];
+}
+
+export interface LocalAnalysisOptions {
+  asOf?: Date; // Reference date for renewal windows and trends; defaults to now
+}
+
+interface VendorProfile {
+  key: string;
+  vendor: string;
+  spend: number;
+  originalSpend: number;
+  originalCurrencies: Set<string>;
+  rows: number;
+  category: string;
+  segment: string;
+  contractEnd: string | null; // Earliest contract end period (YYYY-MM)
+  seats: { used: number; licensed: number } | null;
+  seatSpend: number; // Spend on rows with seat data
+  periods: Map<string, number>; // Spend per YYYY-MM
+  filled: Record<CompletenessField, number>; // Rows with a value per supporting field
+}
+
+type CompletenessField = 'category' | 'segment' | 'contractEnd' | 'usage' | 'date';
+
+const COMPLETENESS_FIELDS: CompletenessField[] = ['category', 'segment', 'contractEnd', 'usage', 'date'];
+
+export const LEVER_LABELS: Record<SavingsLever, string> = {
+  rightSizing: 'License right-sizing',
+  consolidation: 'Vendor consolidation',
+  renewalTiming: 'Renewal leverage',
+  tailSpend: 'Tail-spend rationalization'
+};
+
+// Seats kept unassigned for joiners before anything counts as idle
+const SEAT_HEADROOM = 0.05;
+// Below this utilization, idle seats are worth a finding
+const RIGHT_SIZING_THRESHOLD = 0.85;
+// Volume discount range when a category's spend moves to its largest vendor
+const CONSOLIDATION_RATES = { min: 0.05, max: 0.12 };
+// Vendors outside the top share of spend form the tail
+const TAIL_SPEND_SHARE = 0.8;
+const MIN_VENDORS_FOR_TAIL = 5;
+const TAIL_RATES = { min: 0.1, max: 0.2 };
+
+const RISK_ORDER: AnalysisDetails['riskLevel'][] = ['Low', 'Medium', 'High'];
+
+const LICENSED_HEADER = /licen[cs]e|seat|purchased|entitle|subscri/i;
+const ACTIVE_HEADER = /active|used|assigned|consumed|logged/i;
+
+const text = (value: unknown) => String(value ?? '').trim();
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  return parseAmount(value).value;
+};
+
+/**
+ * Used and licensed seats of a row. The usage cell may hold both ("45/100",
+ * "45 of 100"), a utilization share ("45%"), or one count that pairs with an
+ * unmapped licensed or active seats column.
+ */
+export function parseSeatUsage(row: ExcelRow): { used: number; licensed: number } | null {
+  const usage = text(row.usage);
+
+  const pair = usage.match(/^([\d.,\s]+)\s*(?:\/|of)\s*([\d.,\s]+)$/i);
+  if (pair) {
+    const used = toNumber(pair[1]);
+    const licensed = toNumber(pair[2]);
+    return used !== null && licensed ? { used, licensed } : null;
+  }
+
+  const share = usage.match(/^([\d.,]+)\s*%$/);
+  if (share) {
+    const percent = toNumber(share[1]);
+    return percent !== null ? { used: percent, licensed: 100 } : null;
+  }
+
+  // Unmapped seat columns; headers starting with "_" are ingestion tags
+  const columnValue = (pattern: RegExp, exclude: RegExp) => {
+    const header = Object.keys(row).find(key => !key.startsWith('_') && pattern.test(key) && !exclude.test(key));
+    return header ? toNumber(row[header]) : null;
+  };
+  const licensedColumn = columnValue(LICENSED_HEADER, ACTIVE_HEADER);
+  const activeColumn = columnValue(ACTIVE_HEADER, /^$/);
+  const count = usage ? toNumber(usage) : null;
+
+  const used = activeColumn ?? (licensedColumn !== null ? count : null);
+  const licensed = licensedColumn ?? (activeColumn !== null ? count : null);
+  if (used === null || !licensed || licensed <= 0) return null;
+  return { used, licensed };
+}
+
+/**
+ * Months from the reference period to a YYYY-MM period (negative when past)
+ */
+export function monthsUntil(period: string, asOf: Date): number {
+  const [year, month] = period.split('-').map(Number);
+  return (year - asOf.getFullYear()) * 12 + (month - 1 - asOf.getMonth());
+}
+
+function buildProfiles(rows: ExcelRow[]): VendorProfile[] {
+  const profiles = new Map<string, VendorProfile>();
+  const categoryVotes = new Map<string, Map<string, number>>();
+  const segmentVotes = new Map<string, Map<string, number>>();
+
+  const vote = (votes: Map<string, Map<string, number>>, key: string, value: string, spend: number) => {
+    if (!value) return;
+    const tally = votes.get(key) || new Map<string, number>();
+    tally.set(value, (tally.get(value) || 0) + Math.abs(spend));
+    votes.set(key, tally);
+  };
+  const winner = (votes: Map<string, Map<string, number>>, key: string) =>
+    Array.from(votes.get(key)?.entries() || []).sort((a, b) => b[1] - a[1])[0]?.[0] || '';
+
+  rows.forEach(row => {
+    const vendor = text(row.vendor);
+    const spend = Number(row.spend) || 0;
+    if (!vendor || spend === 0) return;
+
+    const key = vendorKey(vendor);
+    const profile = profiles.get(key) || {
+      key,
+      vendor,
+      spend: 0,
+      originalSpend: 0,
+      originalCurrencies: new Set<string>(),
+      rows: 0,
+      category: '',
+      segment: '',
+      contractEnd: null,
+      seats: null,
+      seatSpend: 0,
+      periods: new Map<string, number>(),
+      filled: { category: 0, segment: 0, contractEnd: 0, usage: 0, date: 0 }
+    };
+
+    profile.spend += spend;
+    profile.originalSpend += row.originalSpend !== undefined ? Number(row.originalSpend) || 0 : spend;
+    if (row.originalCurrency) profile.originalCurrencies.add(text(row.originalCurrency));
+    profile.rows++;
+
+    const category = text(row.category);
+    const segment = text(row.segment);
+    vote(categoryVotes, key, category, spend);
+    vote(segmentVotes, key, segment, spend);
+    if (category) profile.filled.category++;
+    if (segment) profile.filled.segment++;
+
+    const contractEnd = toPeriod(row.contractEnd);
+    if (contractEnd) {
+      profile.filled.contractEnd++;
+      if (!profile.contractEnd || contractEnd < profile.contractEnd) profile.contractEnd = contractEnd;
+    }
+
+    const seats = parseSeatUsage(row);
+    if (seats) {
+      profile.filled.usage++;
+      profile.seatSpend += spend;
+      profile.seats = {
+        used: (profile.seats?.used || 0) + seats.used,
+        licensed: (profile.seats?.licensed || 0) + seats.licensed
+      };
+    }
+
+    const period = toPeriod(row.date);
+    if (period) {
+      profile.filled.date++;
+      profile.periods.set(period, (profile.periods.get(period) || 0) + spend);
+    }
+
+    profiles.set(key, profile);
+  });
+
+  return Array.from(profiles.values()).map(profile => ({
+    ...profile,
+    category: winner(categoryVotes, profile.key),
+    segment: winner(segmentVotes, profile.key)
+  }));
+}
+
+/**
+ * Idle seats beyond a small headroom can be removed at the next true-up
+ */
+function rightSizingFinding(profile: VendorProfile): SavingsFinding | null {
+  if (!profile.seats) return null;
+  const { used, licensed } = profile.seats;
+  const utilization = Math.min(used / licensed, 1);
+  if (utilization >= RIGHT_SIZING_THRESHOLD) return null;
+
+  // Only the spend on rows with seat data is licence spend
+  const removable = Math.max(1 - utilization - SEAT_HEADROOM, 0) * Math.min(profile.seatSpend / profile.spend, 1);
+  const idleSeats = Math.max(Math.round(licensed - used), 0);
+  return {
+    lever: 'rightSizing',
+    minRate: removable * 0.6,
+    maxRate: removable,
+    explanation: `${Math.round(used)} of ${Math.round(licensed)} licenses in use (${Math.round(utilization * 100)}%); ${idleSeats} are idle.`,
+    implementation: `Reclaim inactive licenses and reduce the seat count to about ${Math.ceil(used * (1 + SEAT_HEADROOM))} at the next true-up.`,
+    timeline: '30-60 days',
+    riskLevel: 'Low'
+  };
+}
+
+/**
+ * Categories served by several vendors: moving spend to the largest one buys volume
+ */
+function consolidationFindings(profiles: VendorProfile[], currency: string): Map<string, SavingsFinding> {
+  const findings = new Map<string, SavingsFinding>();
+  const byCategory = new Map<string, VendorProfile[]>();
+
+  profiles.forEach(profile => {
+    if (!profile.category) return;
+    const category = profile.category.toLowerCase();
+    byCategory.set(category, [...(byCategory.get(category) || []), profile]);
+  });
+
+  byCategory.forEach(members => {
+    if (members.length < 2) return;
+    const sorted = [...members].sort((a, b) => b.spend - a.spend);
+    const leader = sorted[0];
+    const categorySpend = sorted.reduce((sum, member) => sum + member.spend, 0);
+
+    sorted.slice(1).forEach(member => {
+      const others = sorted.filter(other => other !== member).slice(0, 3);
+      findings.set(member.key, {
+        lever: 'consolidation',
+        minRate: CONSOLIDATION_RATES.min,
+        maxRate: CONSOLIDATION_RATES.max,
+        explanation: `${members.length} vendors share ${member.category} spend of ${formatMoney(categorySpend, currency)}; ${leader.vendor} holds ${Math.round((leader.spend / categorySpend) * 100)}% of it.`,
+        implementation: `Consolidate ${member.category} volume onto ${leader.vendor} or run a competitive tender across the ${members.length} incumbents.`,
+        timeline: '60-120 days',
+        riskLevel: 'Medium',
+        alternatives: others.map(other => ({
+          vendor: other.vendor,
+          estimatedPrice: formatMoney(member.spend * (1 - (CONSOLIDATION_RATES.min + CONSOLIDATION_RATES.max) / 2), currency),
+          feasibility: `Existing ${member.category} supplier, ${formatMoney(other.spend, currency)} today`
+        }))
+      });
+    });
+  });
+
+  return findings;
+}
+
+/**
+ * Contracts ending soon, or already past their end date, are negotiable now
+ */
+function renewalFinding(profile: VendorProfile, asOf: Date): SavingsFinding | null {
+  if (!profile.contractEnd) return null;
+  const months = monthsUntil(profile.contractEnd, asOf);
+
+  if (months < 0) {
+    return {
+      lever: 'renewalTiming',
+      minRate: 0.04,
+      maxRate: 0.08,
+      explanation: `Contract ended ${profile.contractEnd}; it has likely rolled over on unchanged terms.`,
+      implementation: 'Confirm the auto-renewal terms and renegotiate price and notice period before the next billing cycle.',
+      timeline: '30 days',
+      riskLevel: 'Low'
+    };
+  }
+  if (months <= 6) {
+    return {
+      lever: 'renewalTiming',
+      minRate: 0.03,
+      maxRate: 0.08,
+      explanation: `Contract ends ${profile.contractEnd}, ${months === 0 ? 'this month' : `in ${months} month${months === 1 ? '' : 's'}`}; the renewal is the point of maximum leverage.`,
+      implementation: 'Collect competing quotes now and open the renewal negotiation before the notice deadline.',
+      timeline: `${Math.max(months, 1) * 30} days`,
+      riskLevel: 'Low'
+    };
+  }
+  if (months <= 12) {
+    return {
+      lever: 'renewalTiming',
+      minRate: 0.02,
+      maxRate: 0.05,
+      explanation: `Contract ends ${profile.contractEnd}, in ${months} months; there is time to prepare a sourcing event.`,
+      implementation: 'Benchmark pricing and plan the renewal strategy ahead of the notice period.',
+      timeline: `${months * 30} days`,
+      riskLevel: 'Low'
+    };
+  }
+  return null;
+}
+
+/**
+ * Vendors outside the top 80% of spend: cheaper to buy through preferred suppliers
+ */
+function tailSpendFindings(profiles: VendorProfile[], currency: string): Map<string, SavingsFinding> {
+  const findings = new Map<string, SavingsFinding>();
+  if (profiles.length < MIN_VENDORS_FOR_TAIL) return findings;
+
+  const sorted = [...profiles].sort((a, b) => b.spend - a.spend);
+  const total = sorted.reduce((sum, profile) => sum + profile.spend, 0);
+  let cumulative = 0;
+  const tailStart = sorted.findIndex(profile => {
+    const inHead = cumulative < total * TAIL_SPEND_SHARE;
+    cumulative += profile.spend;
+    return !inHead;
+  });
+  if (tailStart < 0) return findings;
+
+  const tail = sorted.slice(tailStart);
+  const tailSpend = tail.reduce((sum, profile) => sum + profile.spend, 0);
+  tail.forEach(profile => {
+    findings.set(profile.key, {
+      lever: 'tailSpend',
+      minRate: TAIL_RATES.min,
+      maxRate: TAIL_RATES.max,
+      explanation: `One of ${tail.length} tail vendors outside the top ${Math.round(TAIL_SPEND_SHARE * 100)}% of spend; together they account for ${formatMoney(tailSpend, currency)}.`,
+      implementation: 'Move purchases to a preferred supplier or catalogue, or to purchasing cards with negotiated rates.',
+      timeline: '90-180 days',
+      riskLevel: 'Medium'
+    });
+  });
+
+  return findings;
+}
+
+/**
+ * Share of rows carrying each supporting field, averaged
+ */
+function completeness(profile: VendorProfile): number {
+  const shares = COMPLETENESS_FIELDS.map(field => Math.min(profile.filled[field] / profile.rows, 1));
+  return shares.reduce((sum, share) => sum + share, 0) / shares.length;
+}
+
+/**
+ * Growth of the last 12 months over the 12 before, when the dates cover both
+ */
+function spendTrend(profile: VendorProfile, latestPeriod: string | null): number | null {
+  if (!latestPeriod || profile.periods.size === 0) return null;
+  let recent = 0;
+  let previous = 0;
+  profile.periods.forEach((spend, period) => {
+    const age = -monthsUntil(period, new Date(`${latestPeriod}-01T00:00:00`));
+    if (age < 12) recent += spend;
+    else if (age < 24) previous += spend;
+  });
+  if (recent <= 0 || previous <= 0) return null;
+  return Math.max(-0.5, Math.min(recent / previous - 1, 0.5));
+}
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+const signedPercent = (rate: number) => `${rate > 0 ? '+' : ''}${percent(rate)}`;
+
+/**
+ * Levers compound: each applies to the spend the previous ones leave
+ */
+function combineRates(rates: number[]): number {
+  return 1 - rates.reduce((remaining, rate) => remaining * (1 - rate), 1);
+}
+
+function toSpendAnalysis(
+  profile: VendorProfile,
+  findings: SavingsFinding[],
+  currency: string,
+  trend: number | null,
+  index: number
+): { item: SpendAnalysis; savings: { min: number; max: number } } {
+  const money = (amount: number) => formatMoney(amount, currency);
+  const minRate = combineRates(findings.map(finding => finding.minRate));
+  const maxRate = combineRates(findings.map(finding => finding.maxRate));
+  const projectedSpend = Math.round(profile.spend * (1 + (trend ?? 0)) * 100) / 100;
+
+  const dataCompleteness = completeness(profile);
+  const filledFields = COMPLETENESS_FIELDS.filter(field => profile.filled[field] > 0);
+  const confidence = Math.round((0.4 + 0.55 * dataCompleteness) * 100) / 100;
+  const confidenceNote = `Confidence ${percent(confidence)}: ${filledFields.length} of ${COMPLETENESS_FIELDS.length} supporting fields present${filledFields.length ? ` (${filledFields.join(', ')})` : ''}.`;
+
+  const riskLevel = findings.reduce<AnalysisDetails['riskLevel']>(
+    (highest, finding) => (RISK_ORDER.indexOf(finding.riskLevel) > RISK_ORDER.indexOf(highest) ? finding.riskLevel : highest),
+    'Low'
+  );
+
+  const singleCurrency = profile.originalCurrencies.size === 1 ? Array.from(profile.originalCurrencies)[0] : undefined;
+
+  const item: SpendAnalysis = {
+    id: `local-${index + 1}`,
+    vendor: profile.vendor,
+    segment: profile.segment || 'Unassigned',
+    category: profile.category || 'Uncategorized',
+    type: findings.length > 0 ? findings.map(finding => LEVER_LABELS[finding.lever]).join(', ') : 'No savings lever found',
+    item: profile.rows === 1 ? profile.vendor : `${profile.vendor} (${profile.rows} line items)`,
+    pastSpend: Math.round(profile.spend * 100) / 100,
+    projectedSpend,
+    currency,
+    originalSpend: singleCurrency ? Math.round(profile.originalSpend * 100) / 100 : undefined,
+    originalCurrency: singleCurrency,
+    projectedChange: trend === null ? '0%' : signedPercent(trend),
+    savingsRange: findings.length > 0 ? `${money(profile.spend * minRate)} to ${money(profile.spend * maxRate)}` : money(0),
+    savingsPercentage: findings.length > 0 ? `-${percent(minRate)} to -${percent(maxRate)}` : '0%',
+    confidence,
+    alternatives: findings.flatMap(finding => finding.alternatives || []),
+    details: {
+      description: [
+        ...findings.map(finding => `${LEVER_LABELS[finding.lever]}: ${finding.explanation}`),
+        ...(findings.length === 0 ? ['No rule matched this vendor; usage and contract end dates let more rules apply.'] : []),
+        confidenceNote
+      ].join(' '),
+      implementation: findings.map(finding => finding.implementation).join(' ') || 'Keep under regular review.',
+      timeline: findings[0]?.timeline || 'Ongoing',
+      riskLevel
+    }
+  };
+
+  return { item, savings: { min: profile.spend * minRate, max: profile.spend * maxRate } };
+}
+
+/**
+ * Run every savings rule over the rows, one result per vendor ordered by spend
+ */
+export function runLocalAnalysis(
+  rows: ExcelRow[],
+  options: LocalAnalysisOptions = {}
+): { analysis: SpendAnalysis[]; summary: SummaryMetrics } {
+  const asOf = options.asOf || new Date();
+  const currency = text(rows.find(row => row.currency)?.currency) || DEFAULT_REPORTING_CURRENCY;
+  const profiles = buildProfiles(rows).sort((a, b) => b.spend - a.spend);
+
+  const latestPeriod = profiles
+    .flatMap(profile => Array.from(profile.periods.keys()))
+    .sort()
+    .pop() || null;
+  const consolidation = consolidationFindings(profiles, currency);
+  const tail = tailSpendFindings(profiles, currency);
+
+  let minSavings = 0;
+  let maxSavings = 0;
+  const analysis = profiles.map((profile, index) => {
+    const findings = [
+      rightSizingFinding(profile),
+      renewalFinding(profile, asOf),
+      // Consolidation and tail rationalization both move spend elsewhere; count it once
+      consolidation.get(profile.key) || tail.get(profile.key) || null
+    ].filter((finding): finding is SavingsFinding => finding !== null);
+
+    const { item, savings } = toSpendAnalysis(profile, findings, currency, spendTrend(profile, latestPeriod), index);
+    minSavings += savings.min;
+    maxSavings += savings.max;
+    return item;
+  });
+
+  const pastSpend = Math.round(analysis.reduce((sum, item) => sum + item.pastSpend, 0) * 100) / 100;
+  const projectedSpend = Math.round(analysis.reduce((sum, item) => sum + item.projectedSpend, 0) * 100) / 100;
+
+  console.log('[LocalAnalysis]', analysis.length, 'vendors,', Math.round(minSavings), '-', Math.round(maxSavings), currency, 'savings');
+
+  return {
+    analysis,
+    summary: {
+      pastSpend,
+      projectedSpend,
+      potentialSavings: { min: Math.round(minSavings), max: Math.round(maxSavings) },
+      roi: pastSpend > 0 ? Math.round(((minSavings + maxSavings) / 2 / pastSpend) * 100) : 0,
+      currency
+    }
+  };
+}
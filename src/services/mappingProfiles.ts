@@ -0,0 +1,89 @@
+import type { CanonicalField, ColumnMapping } from '../utils/columnMapping';
+import { headerFingerprint, normalizeHeader } from '../utils/columnMapping';
+import { logError } from '../utils/errorHandling';
+
+export interface MappingProfile {
+  id: string;
+  name: string;
+  fingerprint: string;
+  headers: string[];
+  mapping: ColumnMapping;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const STORAGE_KEY = 'valoris.mappingProfiles';
+
+/**
+ * Load all saved column-mapping profiles
+ */
+export function loadMappingProfiles(): MappingProfile[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as MappingProfile[]) : [];
+  } catch (error) {
+    logError('MappingProfiles', error);
+    return [];
+  }
+}
+
+function writeMappingProfiles(profiles: MappingProfile[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  } catch (error) {
+    logError('MappingProfiles', error);
+  }
+}
+
+/**
+ * Find the profile saved for an identical header set
+ */
+export function findProfileForHeaders(headers: string[]): MappingProfile | undefined {
+  const fingerprint = headerFingerprint(headers);
+  return loadMappingProfiles().find(profile => profile.fingerprint === fingerprint);
+}
+
+/**
+ * A profile's mapping onto the given headers. The fingerprint ignores case and
+ * separators, so each stored header is matched by normalized name; fields
+ * whose column cannot be found are listed in missing.
+ */
+export function matchProfileMapping(
+  profile: MappingProfile,
+  headers: string[]
+): { mapping: ColumnMapping; missing: CanonicalField[] } {
+  const byName = new Map(headers.map(header => [normalizeHeader(header), header]));
+  const mapping: ColumnMapping = {};
+  const missing: CanonicalField[] = [];
+  (Object.entries(profile.mapping) as Array<[CanonicalField, string]>).forEach(([field, stored]) => {
+    const header = headers.includes(stored) ? stored : byName.get(normalizeHeader(stored));
+    if (header) mapping[field] = header;
+    else missing.push(field);
+  });
+  return { mapping, missing };
+}
+
+/**
+ * Save a confirmed mapping. A profile with the same fingerprint is replaced,
+ * so re-confirming an export updates its profile instead of duplicating it.
+ */
+export function saveMappingProfile(name: string, headers: string[], mapping: ColumnMapping): MappingProfile {
+  const fingerprint = headerFingerprint(headers);
+  const profiles = loadMappingProfiles();
+  const existing = profiles.find(profile => profile.fingerprint === fingerprint);
+  const now = new Date().toISOString();
+
+  const profile: MappingProfile = {
+    id: existing?.id || `profile_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+    name: name.trim() || existing?.name || 'Untitled profile',
+    fingerprint,
+    headers: headers.filter(header => !header.startsWith('_')),
+    mapping,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now
+  };
+
+  writeMappingProfiles([...profiles.filter(p => p.fingerprint !== fingerprint), profile]);
+  console.log('[MappingProfiles] Saved profile:', profile.name, profile.fingerprint);
+  return profile;
+}
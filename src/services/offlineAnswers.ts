@@ -0,0 +1,304 @@
+import type { SpendAnalysis } from '../types';
+import type { ChatContext, ConversationData } from './conversationData';
+import { vendorMentioned } from './chatPromptContext';
+import { parseSavingsRange } from '../utils/analysisValidation';
+import { formatMoney, toPeriod } from '../utils/currency';
+import { MAX_CHART_POINTS, type ChartSpec } from '../utils/markdown';
+
+/**
+ * Answers for when the chat model can't be used. A fixed set of intents is
+ * matched against the question and answered straight from the loaded
+ * analysis as markdown tables, with a chart where it helps, so the same
+ * question always gets the same answer. Every answer starts with a line
+ * saying it was computed offline.
+ */
+
+export type OfflineIntent = 'alternatives' | 'expiringContracts' | 'roi' | 'savingsByCategory' | 'topVendors' | 'help';
+
+export interface OfflineAnswer {
+  intent: OfflineIntent;
+  content: string;
+}
+
+const DEFAULT_TOP_VENDORS = 10;
+const MAX_TABLE_ROWS = 25;
+const DEFAULT_CONTRACT_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Checked in order; the first intent whose pattern matches answers
+const INTENTS: { intent: Exclude<OfflineIntent, 'help'>; pattern: RegExp }[] = [
+  { intent: 'alternatives', pattern: /alternativ|replace|switch|substitut|instead of|competitor/ },
+  { intent: 'expiringContracts', pattern: /contract|expir|renew|notice period/ },
+  { intent: 'roi', pattern: /\broi\b|return on|payback|pay back/ },
+  { intent: 'savingsByCategory', pattern: /saving|save|cost reduction|reduce cost/ },
+  { intent: 'topVendors', pattern: /\btop\b|largest|biggest|most|highest|vendor|supplier|spend/ }
+];
+
+const UNIT_DAYS: Record<string, number> = { day: 1, week: 7, month: 30, year: 365 };
+
+/**
+ * Markdown table; pipes inside cells are escaped
+ */
+function table(headers: string[], rows: string[][]): string {
+  const cell = (value: string) => value.replace(/\|/g, '\\|');
+  return [
+    `| ${headers.map(cell).join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(cell).join(' | ')} |`)
+  ].join('\n');
+}
+
+/**
+ * A ```chart fence, rendered by the chat like the model's own charts
+ */
+function chart(spec: ChartSpec): string {
+  return ['```chart', JSON.stringify(spec), '```'].join('\n');
+}
+
+const percent = (part: number, whole: number) => (whole > 0 ? `${((part / whole) * 100).toFixed(1)}%` : '–');
+
+function savingsOf(item: SpendAnalysis): { min: number; max: number } {
+  return parseSavingsRange(item.savingsRange) ?? { min: 0, max: 0 };
+}
+
+/**
+ * "in 60 days", "next 3 months", "within a year" → days; null when the question names no window
+ */
+function requestedDays(question: string): number | null {
+  const match = question.match(/(\d+|an?|one)\s*(day|week|month|year)s?/);
+  if (!match) return null;
+  const count = /^\d+$/.test(match[1]) ? Number(match[1]) : 1;
+  return count * UNIT_DAYS[match[2]];
+}
+
+/**
+ * Days from asOf to the last day of a "YYYY-MM" period; negative once it has passed
+ */
+function daysUntilPeriodEnd(period: string, asOf: Date): number {
+  const [year, month] = period.split('-').map(Number);
+  const end = new Date(year, month, 0); // Day 0 of the next month is the last of this one
+  return Math.ceil((end.getTime() - asOf.getTime()) / DAY_MS);
+}
+
+function topVendors(conversation: ConversationData, question: string, money: (amount: number) => string): string {
+  const items = conversation.analysisResults;
+  const requested = Number(question.match(/\btop\s+(\d+)/)?.[1]);
+  const count = Math.min(requested > 0 ? requested : DEFAULT_TOP_VENDORS, MAX_TABLE_ROWS);
+  const total = items.reduce((sum, item) => sum + item.pastSpend, 0);
+  const top = [...items].sort((a, b) => b.pastSpend - a.pastSpend).slice(0, count);
+  const topSpend = top.reduce((sum, item) => sum + item.pastSpend, 0);
+
+  return [
+    `**Top ${top.length} of ${items.length} vendors by past spend**`,
+    '',
+    table(
+      ['#', 'Vendor', 'Category', 'Past spend', 'Share', 'Savings range'],
+      top.map((item, index) => [
+        String(index + 1),
+        item.vendor,
+        item.category || 'Uncategorized',
+        money(item.pastSpend),
+        percent(item.pastSpend, total),
+        item.savingsRange || '–'
+      ])
+    ),
+    '',
+    `These vendors account for ${money(topSpend)} of ${money(total)} (${percent(topSpend, total)}).`
+  ].join('\n');
+}
+
+function savingsByCategory(conversation: ConversationData, money: (amount: number) => string, currency?: string): string {
+  const groups = new Map<string, { vendors: number; spend: number; min: number; max: number }>();
+  conversation.analysisResults.forEach(item => {
+    const category = item.category || 'Uncategorized';
+    const group = groups.get(category) || { vendors: 0, spend: 0, min: 0, max: 0 };
+    const savings = savingsOf(item);
+    group.vendors++;
+    group.spend += item.pastSpend;
+    group.min += savings.min;
+    group.max += savings.max;
+    groups.set(category, group);
+  });
+  const sorted = Array.from(groups.entries()).sort((a, b) => b[1].max - a[1].max);
+  const totals = sorted.reduce(
+    (sum, [, group]) => ({ vendors: sum.vendors + group.vendors, spend: sum.spend + group.spend, min: sum.min + group.min, max: sum.max + group.max }),
+    { vendors: 0, spend: 0, min: 0, max: 0 }
+  );
+
+  return [
+    '**Savings potential by category**',
+    '',
+    table(
+      ['Category', 'Vendors', 'Past spend', 'Savings (min)', 'Savings (max)', 'Max % of spend'],
+      [
+        ...sorted.slice(0, MAX_TABLE_ROWS).map(([category, group]) => [
+          category,
+          String(group.vendors),
+          money(group.spend),
+          money(group.min),
+          money(group.max),
+          percent(group.max, group.spend)
+        ]),
+        ['**Total**', String(totals.vendors), money(totals.spend), money(totals.min), money(totals.max), percent(totals.max, totals.spend)]
+      ]
+    ),
+    ...(sorted.length > MAX_TABLE_ROWS ? ['', `${sorted.length - MAX_TABLE_ROWS} smaller categories are included in the total only.`] : []),
+    '',
+    chart({
+      type: 'bar',
+      title: 'Savings range by category',
+      x: 'category',
+      y: ['Min savings', 'Max savings'],
+      currency,
+      data: sorted.slice(0, MAX_CHART_POINTS).map(([category, group]) => ({
+        category,
+        'Min savings': Math.round(group.min),
+        'Max savings': Math.round(group.max)
+      }))
+    })
+  ].join('\n');
+}
+
+function expiringContracts(conversation: ConversationData, question: string, money: (amount: number) => string): string {
+  const days = requestedDays(question) ?? DEFAULT_CONTRACT_DAYS;
+  const asOf = new Date();
+
+  // Earliest end date per vendor, from the uploaded rows
+  const ends = new Map<string, { vendor: string; period: string; spend: number }>();
+  conversation.rawData.forEach(row => {
+    const period = toPeriod(row?.contractEnd);
+    const vendor = typeof row?.vendor === 'string' ? row.vendor.trim() : '';
+    if (!period || !vendor) return;
+    const entry = ends.get(vendor.toLowerCase()) || { vendor, period, spend: 0 };
+    if (period < entry.period) entry.period = period;
+    entry.spend += Number(row.spend) || 0;
+    ends.set(vendor.toLowerCase(), entry);
+  });
+
+  if (ends.size === 0) {
+    return 'The uploaded data has no contract end dates, so expiring contracts can\'t be listed. Map a contract end column when uploading to enable this.';
+  }
+
+  const contracts = Array.from(ends.values())
+    .map(entry => ({ ...entry, daysLeft: daysUntilPeriodEnd(entry.period, asOf) }))
+    .filter(entry => entry.daysLeft <= days)
+    .sort((a, b) => a.daysLeft - b.daysLeft);
+  const heading = `**Contracts ending within ${days} days** (as of ${asOf.toISOString().slice(0, 10)})`;
+  if (contracts.length === 0) {
+    return `${heading}\n\nNone of the ${ends.size} contracts with an end date ends in that window.`;
+  }
+
+  return [
+    heading,
+    '',
+    table(
+      ['Vendor', 'Contract end', 'Days left', 'Spend'],
+      contracts.slice(0, MAX_TABLE_ROWS).map(entry => [
+        entry.vendor,
+        entry.period,
+        entry.daysLeft < 0 ? `ended ${-entry.daysLeft} days ago` : String(entry.daysLeft),
+        money(entry.spend)
+      ])
+    ),
+    '',
+    `End dates are by month, counted to the month's last day.${contracts.length > MAX_TABLE_ROWS ? ` ${contracts.length - MAX_TABLE_ROWS} more not shown.` : ''}`
+  ].join('\n');
+}
+
+function alternatives(conversation: ConversationData, question: string, money: (amount: number) => string): string {
+  const items = conversation.analysisResults;
+  const item = items
+    .filter(candidate => vendorMentioned(question, candidate.vendor))
+    .sort((a, b) => b.pastSpend - a.pastSpend)[0];
+  if (!item) {
+    const withAlternatives = items.filter(candidate => (candidate.alternatives?.length ?? 0) > 0).length;
+    return `Name a vendor to see its alternatives, for example "alternatives to ${items[0]?.vendor ?? 'Salesforce'}". ${withAlternatives} of ${items.length} vendors ${withAlternatives === 1 ? 'has' : 'have'} suggested alternatives.`;
+  }
+
+  const peers = items
+    .filter(other => other !== item && other.category === item.category)
+    .sort((a, b) => b.pastSpend - a.pastSpend)
+    .slice(0, 5);
+
+  return [
+    `**Alternatives to ${item.vendor}** (${item.category || 'Uncategorized'}, past spend ${money(item.pastSpend)}, savings ${item.savingsRange || '–'})`,
+    '',
+    item.alternatives && item.alternatives.length > 0
+      ? table(
+        ['Alternative', 'Estimated price', 'Feasibility'],
+        item.alternatives.map(alternative => [alternative.vendor, alternative.estimatedPrice || '–', alternative.feasibility || '–'])
+      )
+      : 'The analysis suggested no alternative vendors for it.',
+    ...(item.details.description ? ['', `Recommendation: ${item.details.description}`] : []),
+    ...(peers.length > 0 ? ['', `Other ${item.category} vendors you already use: ${peers.map(peer => `${peer.vendor} (${money(peer.pastSpend)})`).join(', ')}.`] : [])
+  ].join('\n');
+}
+
+function roi(conversation: ConversationData, money: (amount: number) => string): string {
+  const { pastSpend, projectedSpend, potentialSavings } = conversation.summaryMetrics;
+  const midpoint = (potentialSavings.min + potentialSavings.max) / 2;
+  const contributors = [...conversation.analysisResults]
+    .map(item => ({ item, max: savingsOf(item).max }))
+    .filter(entry => entry.max > 0)
+    .sort((a, b) => b.max - a.max)
+    .slice(0, 5);
+
+  return [
+    '**Return on the recommended changes**',
+    '',
+    table(
+      ['Metric', 'Value'],
+      [
+        ['Past spend', money(pastSpend)],
+        ['Projected spend', money(projectedSpend)],
+        ['Savings range', `${money(potentialSavings.min)} – ${money(potentialSavings.max)}`],
+        ['Savings midpoint', money(midpoint)],
+        ['Midpoint as % of past spend', percent(midpoint, pastSpend)]
+      ]
+    ),
+    ...(contributors.length > 0
+      ? ['', `Largest contributors: ${contributors.map(entry => `${entry.item.vendor} (up to ${money(entry.max)})`).join(', ')}.`]
+      : [])
+  ].join('\n');
+}
+
+function help(conversation: ConversationData, money: (amount: number) => string): string {
+  return [
+    `${conversation.fileName} covers ${conversation.analysisResults.length} vendors and ${money(conversation.summaryMetrics.pastSpend)} of spend. Offline, I can answer:`,
+    '',
+    '- "Top 10 vendors by spend"',
+    '- "Savings by category"',
+    '- "Contracts expiring in 90 days"',
+    '- "Alternatives to <vendor>"',
+    '- "What is the total ROI?"'
+  ].join('\n');
+}
+
+/**
+ * Match the question to an intent and answer it from the current analysis.
+ * `reason` says why the model isn't answering and heads the reply.
+ */
+export function answerOffline(message: string, chatContext: ChatContext, reason: string): OfflineAnswer {
+  const label = `**Offline answer** · ${reason}.`;
+  const conversation = chatContext?.currentFile;
+  if (!conversation || conversation.analysisResults.length === 0) {
+    return { intent: 'help', content: `${label}\n\nNo analysis is loaded. Upload a procurement file to get answers from your data.` };
+  }
+
+  const question = message.toLowerCase();
+  const currency = conversation.summaryMetrics.currency ?? conversation.analysisResults[0]?.currency;
+  const money = (amount: number) => formatMoney(amount, currency);
+  const intent = INTENTS.find(candidate => candidate.pattern.test(question))?.intent ?? 'help';
+
+  const body = {
+    alternatives: () => alternatives(conversation, question, money),
+    expiringContracts: () => expiringContracts(conversation, question, money),
+    roi: () => roi(conversation, money),
+    savingsByCategory: () => savingsByCategory(conversation, money, currency),
+    topVendors: () => topVendors(conversation, question, money),
+    help: () => help(conversation, money)
+  }[intent]();
+
+  console.log('[OfflineAnswers] Answered', intent);
+  return { intent, content: `${label} Computed directly from your analysis, without the AI model.\n\n${body}` };
+}
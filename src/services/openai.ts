@@ -1,43 +1,43 @@
-import type { SpendAnalysis, SummaryMetrics, ExcelRow } from '../types';
-import { groupByVendor } from '../utils/dataExtraction';
-import { handleApiError, handleConfigError, handleParsingError, handleNetworkError, logError } from '../utils/errorHandling';
-
-const OPENAI_API_KEY = import.meta.env.VITE_OPENAI_API_KEY || '';
-const N8N_NORMALIZATION_URL = import.meta.env.VITE_N8N_NORMALIZATION_URL || '';
-const N8N_ENRICHMENT_URL = import.meta.env.VITE_N8N_ENRICHMENT_URL || '';
-const N8N_KEY = import.meta.env?.VITE_N8N_KEY as string || 'KEY';
+import type { SpendAnalysis, SummaryMetrics, ExcelRow, QuarantinedItem, WorkbookSheet } from '../types';
+import { groupByVendor, getFieldValue } from '../utils/dataExtraction';
+import { detectColumnMapping, getDataHeaders } from '../utils/columnMapping';
+import { parseAmountColumn } from '../utils/numberParsing';
+import { parseCsv, detectCsvDelimiter } from '../utils/csvParser';
+import { extractWorkbookSheets, combineSheets } from '../utils/workbookParser';
+import { handleApiError, handleConfigError, handleParsingError, handleNetworkError, isCancelledError, logError } from '../utils/errorHandling';
+import { validateAnalysisResponse } from '../utils/analysisValidation';
+import { BATCH_CONCURRENCY, MAX_BATCH_CHARS, mapWithConcurrency, mergeNormalizedBatches, splitIntoBatches } from '../utils/batching';
+import { loadVendorAliases } from './vendorAliases';
+import { httpJson, httpRequest } from './httpClient';
+import { getConfig, isFeatureAvailable } from './appConfig';
 
 interface AnalysisResponse {
   analysis: SpendAnalysis[];
   summary: SummaryMetrics;
+  quarantined?: QuarantinedItem[];
 }
 
 // Test OpenAI API connectivity
-async function testOpenAIConnection(): Promise<boolean> {
+export async function testOpenAIConnection(signal?: AbortSignal): Promise<boolean> {
   try {
-    const response = await fetch('https://api.openai.com/v1/models', {
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-      }
+    const { openai } = getConfig();
+    await httpRequest({
+      endpoint: 'openai.models',
+      url: `${openai.baseUrl}/models`,
+      signal
     });
-    
-    if (response.ok) {
-      return true;
-    } else {
-      const errorText = await response.text();
-      console.error('[OpenAI] API connection test: ❌ Failed -', response.status, errorText);
-      return false;
-    }
+    return true;
   } catch (error) {
+    if (isCancelledError(error)) throw error;
     logError('OpenAI Connection Test', error);
     return false;
   }
 }
 
 export async function analyzeExcelData(excelData: Record<string, unknown>[]): Promise<AnalysisResponse> {
-  if (!OPENAI_API_KEY) {
-    console.error('OpenAI API key not found. Using mock data.');
-    throw handleConfigError('OpenAI API key not configured');
+  if (!getConfig().openai.baseUrl) {
+    console.error('OpenAI endpoint not configured. Using mock data.');
+    throw handleConfigError('OpenAI endpoint not configured');
   }
 
   // Create a hash of the data to prevent duplicate requests
@@ -71,119 +71,136 @@ async function performAnalysis(excelData: Record<string, unknown>[]): Promise<An
 
   console.log('🚀 Starting two-stage analysis...');
 
-  // Prepare data for analysis
-  const cleanedData = groupByVendor(excelData);
-  
-  const shouldUseMarkdown = cleanedData.length === 0 || cleanedData.filter(row => (row.spend as number) > 0).length < 2;
-  
-  let finalData;
-  if (shouldUseMarkdown) {
-    finalData = convertToMarkdownTable(excelData);
-  } else {
-    finalData = cleanedData;
+  try {
+    const stage1Content = await runBatchedNormalization(buildAnalysisPayloads(excelData));
+    const { analysis, summary, quarantined } = validateAnalysisResponse(await runEnrichmentStage(stage1Content));
+    return { analysis, summary, quarantined };
+  } catch (error) {
+    logError('Two-stage Analysis', error);
+    throw error;
   }
+}
 
-  // Prepare prompt data
-  let promptData;
-  if (typeof finalData === 'string') {
-    promptData = finalData;
-  } else {
-    const sampleData = finalData.slice(0, 100);
-    promptData = {
-      totalRows: finalData.length,
-      sampleRows: sampleData,
-      columns: Object.keys(finalData[0] || {}),
-      dataQuality: {
-        totalVendors: sampleData.filter(row => row.vendor).length,
-        withSpendData: sampleData.filter(row => (row.spend as number) > 0).length,
-        avgSpend: sampleData.reduce((sum, row) => sum + ((row.spend as number) || 0), 0) / sampleData.length
-      }
-    };
-  }
+/**
+ * Whether the two-stage pipeline is enabled and has its keys and both workflow URLs
+ */
+export function isTwoStageConfigured(): boolean {
+  return isFeatureAvailable('twoStageAnalysis');
+}
 
-  // Check data size to prevent API errors
-  const dataSize = typeof promptData === 'string' ? promptData.length : JSON.stringify(promptData).length;
-  if (dataSize > 50000) {
-    console.warn('⚠️ Large data size detected:', dataSize, 'characters - analysis may take longer');
+/**
+ * Prepare the Stage 1 payloads: vendor-grouped rows, or markdown tables when
+ * grouping finds too little spend to work with. Every row is included, split
+ * into batches by payload size, largest spend first.
+ */
+export function buildAnalysisPayloads(excelData: Record<string, unknown>[]): (string | Record<string, unknown>)[] {
+  const cleanedData = groupByVendor(excelData, undefined, loadVendorAliases().aliases);
+  
+  const shouldUseMarkdown = cleanedData.length === 0 || cleanedData.filter(row => (row.spend as number) > 0).length < 2;
+  if (shouldUseMarkdown) {
+    return convertToMarkdownTables(excelData);
   }
 
-  try {
-    // ============= STAGE 1: DATA NORMALIZATION =============
-    console.log('\n=== STAGE 1: DATA NORMALIZATION ===');
-    console.log('[Stage 1] Sending data to n8n for normalization...');
-    console.log(promptData);
-
-    const stage1Response = await fetch(N8N_NORMALIZATION_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'API-KEY': N8N_KEY,
-      },
-      body: JSON.stringify(promptData),
-    });
-    
+  const sortedData = [...cleanedData].sort((a, b) => ((b.spend as number) || 0) - ((a.spend as number) || 0));
+  const batches = splitIntoBatches(sortedData);
+  const columns = Object.keys(sortedData[0] || {});
+
+  console.log(`[Stage 1] ${sortedData.length} vendors in ${batches.length} batch(es)`);
+  return batches.map((batch, index) => ({
+    totalRows: sortedData.length,
+    batch: { index: index + 1, count: batches.length },
+    sampleRows: batch,
+    columns,
+    dataQuality: {
+      totalVendors: batch.filter(row => row.vendor).length,
+      withSpendData: batch.filter(row => (row.spend as number) > 0).length,
+      avgSpend: batch.reduce((sum, row) => sum + ((row.spend as number) || 0), 0) / batch.length
+    }
+  }));
+}
 
-    const stage1Result = await stage1Response.json();
-    //const stage1Content = stage1Result.choices[0].message.content;
-    const stage1Content = stage1Result.normalizedData;
-    
-    console.log('[Stage 1] Raw response:', stage1Content);
-    
-    // ============= STAGE 2: OPTIMIZATION ANALYSIS =============
-    console.log('[Stage 2] Feeding normalized data into optimization analysis...');
-
-    const stage2Response = await fetch(N8N_ENRICHMENT_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'API-KEY': N8N_KEY,
-      },
-      body: JSON.stringify(stage1Content),
-    });
+/**
+ * Stage 1 for every batch, a few at a time, merged into one normalized result
+ */
+export async function runBatchedNormalization(
+  payloads: (string | Record<string, unknown>)[],
+  signal?: AbortSignal
+): Promise<unknown> {
+  const results = await mapWithConcurrency(
+    payloads,
+    BATCH_CONCURRENCY,
+    (payload, index, batchSignal) => {
+      console.log(`[Stage 1] Batch ${index + 1}/${payloads.length}`);
+      return runNormalizationStage(payload, batchSignal);
+    },
+    signal
+  );
+  return mergeNormalizedBatches(results);
+}
 
-    if (!stage2Response.ok) {
-      const errorText = await stage2Response.text();
-      console.error('[Stage 2] API error details:');
-      console.error('Status:', stage2Response.status);
-      console.error('Response:', errorText);
-      throw new Error(`Stage 2 API error: ${stage2Response.status} - ${errorText}`);
-    }
+/**
+ * Stage 1: send the payload to n8n for normalization
+ */
+export async function runNormalizationStage(
+  promptData: string | Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<unknown> {
+  console.log('\n=== STAGE 1: DATA NORMALIZATION ===');
+  console.log('[Stage 1] Sending data to n8n for normalization...');
+  console.log(promptData);
+
+  const { n8n } = getConfig();
+  const stage1Result = await httpJson<{ normalizedData?: unknown }>({
+    endpoint: 'n8n.normalize',
+    url: n8n.twoStage.normalizeUrl,
+    body: promptData,
+    signal
+  });
+  //const stage1Content = stage1Result.choices[0].message.content;
+  const stage1Content = stage1Result.normalizedData;
+  
+  console.log('[Stage 1] Raw response:', stage1Content);
+  return stage1Content;
+}
 
-    const stage2Result = await stage2Response.json();
-    console.log('[Stage 2] Response:', stage2Result);
-    
-    const analysis = stage2Result;
-    
-    // Validate the response structure
-    if (!analysis.analysis || !Array.isArray(analysis.analysis)) {
-      console.error('[Stage 2] Invalid analysis structure:', analysis);
-      throw new Error('Invalid response structure: missing analysis array');
-    }
-    
-    if (!analysis.summary || typeof analysis.summary !== 'object') {
-      console.error('[Stage 2] Invalid summary structure:', analysis);
-      throw new Error('Invalid response structure: missing summary object');
-    }
+/**
+ * Stage 2: feed the normalized data into the optimization analysis
+ */
+export async function runEnrichmentStage(stage1Content: unknown, signal?: AbortSignal): Promise<AnalysisResponse> {
+  console.log('[Stage 2] Feeding normalized data into optimization analysis...');
+
+  const { n8n } = getConfig();
+  const stage2Result = await httpJson<AnalysisResponse>({
+    endpoint: 'n8n.enrich',
+    url: n8n.twoStage.enrichUrl,
+    body: stage1Content,
+    signal
+  });
+  console.log('[Stage 2] Response:', stage2Result);
+  
+  const analysis = stage2Result;
+  
+  // Validate the response structure; items and summary are checked field by field downstream
+  if (!analysis.analysis || !Array.isArray(analysis.analysis)) {
+    console.error('[Stage 2] Invalid analysis structure:', analysis);
+    throw new Error('Invalid response structure: missing analysis array');
+  }
 
-    // Add unique IDs if not present
-    analysis.analysis = analysis.analysis.map((item: Record<string, unknown>, index: number) => ({
-      ...item,
-      id: item.id || `vendor-${index + 1}`
-    }));
+  // Add unique IDs if not present
+  analysis.analysis = analysis.analysis.map((item, index) => ({
+    ...item,
+    id: item.id || `vendor-${index + 1}`
+  }));
 
 
-    console.log('\n=== TWO-STAGE ANALYSIS COMPLETE ===');
-    console.log('[Final] Returning optimized analysis with', analysis.analysis.length, 'vendors');
-    
-    return analysis;
-  } catch (error) {
-    logError('Two-stage Analysis', error);
-    throw error;
-  }
+  console.log('\n=== TWO-STAGE ANALYSIS COMPLETE ===');
+  console.log('[Final] Returning optimized analysis with', analysis.analysis.length, 'vendors');
+  
+  return analysis;
 }
 
-// Lightweight function to parse Excel without blocking UI
-export async function parseExcelFile(file: File): Promise<Record<string, unknown>[]> {
+// Read every sheet of a workbook on the main thread (fallback when workers are unavailable)
+export async function parseExcelWorkbook(file: File): Promise<WorkbookSheet[]> {
   // Dynamically import xlsx to keep initial bundle small
   const XLSX = await import('xlsx');
   
@@ -192,59 +209,32 @@ export async function parseExcelFile(file: File): Promise<Record<string, unknown
     
     reader.onload = (e) => {
       try {
-        const data = e.target?.result;
-        const workbook = XLSX.read(data, { type: 'binary' });
-        
-        // Get the first worksheet
-        const firstSheet = workbook.Sheets[workbook.SheetNames[0]];
+        const data = new Uint8Array(e.target?.result as ArrayBuffer);
+        const workbook = XLSX.read(data, { type: 'array' });
+        const sheets = extractWorkbookSheets(XLSX, workbook);
         
-        // Convert to JSON with better options for complex Excel files
-        const jsonData = XLSX.utils.sheet_to_json(firstSheet, {
-          defval: '', // Default value for empty cells
-          raw: false, // Format numbers as strings to preserve formatting
-          dateNF: 'YYYY-MM-DD', // Normalize date format
-          blankrows: false, // Skip blank rows
-          header: 1 // Use first row as headers
+        sheets.forEach(sheet => {
+          console.log('[Excel] Sheet', sheet.name, '-', sheet.rows.length, 'rows with', sheet.headers.length, 'columns',
+            sheet.hidden ? '(hidden)' : '', sheet.pivotOnly ? '(pivot only)' : '');
         });
         
-        // Handle merged cells and complex formatting by trying alternative parsing
-        if (jsonData.length === 0 || Object.keys(jsonData[0] || {}).length < 2) {
-          console.log('[Excel] Primary parsing failed, trying alternative parsing method');
-          const alternativeData = XLSX.utils.sheet_to_json(firstSheet, {
-            header: 'A', // Use column letters as keys
-            defval: '',
-            raw: false
-          });
-          
-          if (alternativeData.length > 0) {
-            console.log('[Excel] Alternative parsing successful, converting format');
-            // Convert from column-letter format to more readable format
-            const convertedData = (alternativeData as Record<string, unknown>[]).map((row: Record<string, unknown>) => {
-              const newRow: Record<string, unknown> = {};
-              Object.keys(row).forEach((key, index) => {
-                const columnName = row['A'] && index === 0 ? 'Header' : `Column_${key}`;
-                newRow[columnName] = row[key];
-              });
-              return newRow;
-            });
-            resolve(convertedData);
-            return;
-          }
-        }
-        
-        console.log('[Excel] Parsed', jsonData.length, 'rows with', Object.keys(jsonData[0] || {}).length, 'columns');
-        
-        resolve(jsonData as Record<string, unknown>[]);
+        resolve(sheets);
       } catch (error) {
         reject(error);
       }
     };
     
     reader.onerror = reject;
-    reader.readAsBinaryString(file);
+    reader.readAsArrayBuffer(file);
   });
 }
 
+// Parse the sheets included by default (visible, not pivot-only), tagged with their sheet name
+export async function parseExcelFile(file: File): Promise<Record<string, unknown>[]> {
+  const sheets = await parseExcelWorkbook(file);
+  return combineSheets(sheets, sheets.filter(sheet => sheet.includedByDefault).map(sheet => sheet.name));
+}
+
 // Function to parse CSV files with support for various delimiters and formats
 export async function parseCsvFile(file: File): Promise<Record<string, unknown>[]> {
   return new Promise((resolve, reject) => {
@@ -255,38 +245,20 @@ export async function parseCsvFile(file: File): Promise<Record<string, unknown>[
         const text = e.target?.result as string;
         console.log('[CSV] Raw CSV content preview:', text.slice(0, 500));
         
-        // Detect delimiter (semicolon, comma, or tab)
+        // Detect delimiter (semicolon, comma, tab or pipe), ignoring quoted sections
         const delimiter = detectCsvDelimiter(text);
-        console.log('[CSV] Detected delimiter:', delimiter === ';' ? 'semicolon' : delimiter === ',' ? 'comma' : 'tab');
-        
-        // Parse CSV content
-        const lines = text.split('\n').filter(line => line.trim());
-        if (lines.length === 0) {
-          resolve([]);
-          return;
-        }
+        console.log('[CSV] Detected delimiter:', delimiter === ';' ? 'semicolon' : delimiter === ',' ? 'comma' : delimiter === '\t' ? 'tab' : 'pipe');
         
-        // Extract headers
-        const headers = lines[0].split(delimiter).map(h => h.trim());
+        const { headers, rows, diagnostics } = parseCsv(text, delimiter);
         console.log('[CSV] Headers:', headers);
         
-        // Parse data rows
-        const data = [];
-        for (let i = 1; i < lines.length; i++) {
-          const values = lines[i].split(delimiter);
-          if (values.length > 1) { // Skip empty lines
-            const row: Record<string, unknown> = {};
-            headers.forEach((header, index) => {
-              const value = values[index]?.trim() || '';
-              // Convert European decimal format (0,514) to US format (0.514) for numbers
-              row[header] = convertEuropeanDecimals(value);
-            });
-            data.push(row);
-          }
+        if (diagnostics.length > 0) {
+          console.warn(`[CSV] ${diagnostics.length} row(s) with unexpected column count:`, diagnostics.slice(0, 20));
         }
         
-        console.log('[CSV] Parsed', data.length, 'rows, sample:', data[0]);
-        resolve(data);
+        // Values stay as text; amounts are parsed per column once the mapping is known
+        console.log('[CSV] Parsed', rows.length, 'rows, sample:', rows[0]);
+        resolve(rows);
       } catch (error) {
         console.error('[CSV] Error parsing CSV file:', error);
         reject(error);
@@ -298,66 +270,9 @@ export async function parseCsvFile(file: File): Promise<Record<string, unknown>[
   });
 }
 
-// Detect CSV delimiter by analyzing the first few lines
-function detectCsvDelimiter(text: string): string {
-  const lines = text.split('\n').slice(0, 3); // Check first 3 lines
-  const delimiters = [';', ',', '\t'];
-  
-  let bestDelimiter = ',';
-  let maxCount = 0;
-  
-  for (const delimiter of delimiters) {
-    let totalCount = 0;
-    for (const line of lines) {
-      totalCount += (line.match(new RegExp(`\\${delimiter}`, 'g')) || []).length;
-    }
-    if (totalCount > maxCount) {
-      maxCount = totalCount;
-      bestDelimiter = delimiter;
-    }
-  }
-  
-  return bestDelimiter;
-}
-
-// Convert European decimal format to US format for parsing
-function convertEuropeanDecimals(value: string): string {
-  if (!value || typeof value !== 'string') return value;
-  
-  // Check if this looks like a European number (has comma as decimal separator)
-  // Pattern: digits, optional comma with 2-3 digits after
-  const europeanNumberPattern = /^\d+,\d{2,3}$/;
-  
-  if (europeanNumberPattern.test(value)) {
-    // Convert comma to dot for US decimal format
-    return value.replace(',', '.');
-  }
-  
-  return value;
-}
-
-// Cache analysis results to avoid re-processing
-const analysisCache = new Map<string, AnalysisResponse>();
-
 // Prevent duplicate API calls for the same file
 const activeRequests = new Map<string, Promise<AnalysisResponse>>();
 
-export async function getCachedAnalysis(fileHash: string): Promise<AnalysisResponse | null> {
-  return analysisCache.get(fileHash) || null;
-}
-
-export function cacheAnalysis(fileHash: string, analysis: AnalysisResponse): void {
-  analysisCache.set(fileHash, analysis);
-  
-  // Clean up old cache entries if too many
-  if (analysisCache.size > 10) {
-    const firstKey = analysisCache.keys().next().value;
-    if (firstKey) {
-      analysisCache.delete(firstKey);
-    }
-  }
-}
-
 // Preprocess Excel data to standardize field names and clean data
 function preprocessExcelData(rawData: Record<string, unknown>[]): Record<string, unknown>[] {
   if (!rawData || rawData.length === 0) {
@@ -367,46 +282,29 @@ function preprocessExcelData(rawData: Record<string, unknown>[]): Record<string,
 
   console.log('[OpenAI] Preprocessing Excel data, sample row:', rawData[0]);
   
+  // Detect the column mapping once for the whole data set
+  const { mapping } = detectColumnMapping(getDataHeaders(rawData[0]), rawData);
+  console.log('[OpenAI] Detected column mapping:', mapping);
+  
+  // Parse the spend column as a whole so its number locale is inferred from every value
+  const amounts = parseAmountColumn(rawData.map(row => row[mapping.spend || '']));
+  if (amounts.ambiguous.length > 0 || amounts.invalid.length > 0) {
+    console.warn('[OpenAI] Spend column issues:', {
+      locale: amounts.locale,
+      ambiguous: amounts.ambiguous.map(index => amounts.parsed[index].raw).slice(0, 10),
+      invalid: amounts.invalid.map(index => amounts.parsed[index].raw).slice(0, 10)
+    });
+  }
+  
   return rawData.map((row, index) => {
-    // Extract vendor name from various possible field names
-    const vendor = extractField(row, [
-      'vendor name', 'vendor', 'supplier', 'company name', 'company', 
-      'contractor', 'provider', 'service provider', 'organization'
-    ]);
-
-    // Extract spend amount from various possible field names
-    const spendText = extractField(row, [
-      'annual spend (eur)', 'annual spend', 'spend', 'amount', 'cost', 
-      'total cost', 'yearly cost', 'budget', 'expense', 'value',
-      'contract value', 'total amount', 'price'
-    ]);
-
-    // Clean and parse spend amount
-    const spend = parseSpendAmount(spendText);
-
-    // Extract category/type
-    const category = extractField(row, [
-      'category', 'type', 'service type', 'product type', 
-      'classification', 'service category'
-    ]);
-
-    // Extract segment/department
-    const segment = extractField(row, [
-      'segment', 'department', 'division', 'business unit',
-      'area', 'function', 'team', 'group'
-    ]);
-
-    // Extract contract information
-    const contractEnd = extractField(row, [
-      'contract end date', 'contract end', 'expiry date', 'end date',
-      'renewal date', 'expiration', 'contract expiry'
-    ]);
-
-    // Extract usage metrics
-    const usage = extractField(row, [
-      'licenses', 'users', 'seats', 'usage', 'volume',
-      'quantity', 'count', 'instances'
-    ]);
+    const fields = row as ExcelRow;
+    const vendor = getFieldValue(fields, 'vendor', mapping);
+    const spend = amounts.parsed[index].value;
+
+    const category = getFieldValue(fields, 'category', mapping);
+    const segment = getFieldValue(fields, 'segment', mapping);
+    const contractEnd = getFieldValue(fields, 'contractEnd', mapping);
+    const usage = getFieldValue(fields, 'usage', mapping);
 
     // Create standardized row
     const cleanedRow = {
@@ -423,64 +321,6 @@ function preprocessExcelData(rawData: Record<string, unknown>[]): Record<string,
   }).filter(row => row.vendor && row.spend > 0); // Only keep rows with vendor and spend data
 }
 
-// Extract field value from various possible column names
-function extractField(row: Record<string, unknown>, possibleNames: string[]): string {
-  for (const name of possibleNames) {
-    // Try exact match first
-    if (row[name] !== undefined && row[name] !== null) {
-      return String(row[name]).trim();
-    }
-    
-    // Try case-insensitive match
-    const keys = Object.keys(row);
-    const matchingKey = keys.find(key => 
-      key.toLowerCase().includes(name.toLowerCase()) ||
-      name.toLowerCase().includes(key.toLowerCase())
-    );
-    
-    if (matchingKey && row[matchingKey] !== undefined && row[matchingKey] !== null) {
-      return String(row[matchingKey]).trim();
-    }
-  }
-  return '';
-}
-
-// Parse spend amount from various formats including European decimal notation
-function parseSpendAmount(spendText: string): number {
-  if (!spendText) return 0;
-  
-  const text = String(spendText).trim();
-  console.log('[parseSpendAmount] Input:', text);
-  
-  // Handle European number format first (comma as decimal separator)
-  // Pattern examples: "11.571,68", "0,514", "1.234,56"
-  const europeanPattern = /^[\d.]*,\d{2,3}$/;
-  
-  if (europeanPattern.test(text.replace(/[€$£¥₹\s]/g, ''))) {
-    console.log('[parseSpendAmount] Detected European format');
-    // Remove currency symbols and spaces, then convert comma to dot
-    const cleaned = text
-      .replace(/[€$£¥₹\s]/g, '') // Remove currency symbols and spaces
-      .replace(/\./g, '') // Remove thousands separators (dots in European format)
-      .replace(',', '.'); // Convert decimal comma to dot
-    
-    const parsed = parseFloat(cleaned);
-    console.log('[parseSpendAmount] European parsed:', parsed);
-    return isNaN(parsed) ? 0 : Math.abs(parsed);
-  }
-  
-  // Handle US number format (dot as decimal separator)
-  // Remove currency symbols and commas (thousands separators)
-  const cleaned = text
-    .replace(/[€$£¥₹\s]/g, '') // Remove currency symbols and spaces
-    .replace(/,/g, '') // Remove thousands separators (commas in US format)
-    .replace(/[^\d.-]/g, ''); // Keep only digits, dots, and dashes
-  
-  const parsed = parseFloat(cleaned);
-  console.log('[parseSpendAmount] US format parsed:', parsed);
-  return isNaN(parsed) ? 0 : Math.abs(parsed); // Return absolute value
-}
-
 // Normalize category to standard values
 function normalizeCategory(category: string): string {
   if (!category) return 'Other';
@@ -511,40 +351,28 @@ function normalizeSegment(segment: string): string {
   return segment; // Return original if no match
 }
 
-// Convert Excel data to markdown table format for better AI comprehension
-function convertToMarkdownTable(rawData: Record<string, unknown>[]): string {
+// Convert Excel data to markdown tables for better AI comprehension, one per batch
+function convertToMarkdownTables(rawData: Record<string, unknown>[]): string[] {
   if (!rawData || rawData.length === 0) {
-    return 'No data available';
+    return ['No data available'];
   }
 
-  console.log('[Markdown] Converting', rawData.length, 'rows to markdown table');
+  console.log('[Markdown] Converting', rawData.length, 'rows to markdown tables');
   
   // Get all unique column names from the data
   const allColumns = new Set<string>();
   rawData.forEach(row => {
-    Object.keys(row).forEach(key => allColumns.add(key));
+    getDataHeaders(row).forEach(key => allColumns.add(key));
   });
+  const columns = Array.from(allColumns);
   
-  const columns = Array.from(allColumns).slice(0, 10); // Limit to 10 columns for readability
-  console.log('[Markdown] Using columns:', columns);
-  
-  // Create markdown table header
-  let markdown = `# Procurement Data Analysis\n\n`;
-  markdown += `**Total Records:** ${rawData.length - 1}\n\n`;
-  markdown += `| ${columns.join(' | ')} |\n`;
-  markdown += `| ${columns.map(() => '---').join(' | ')} |\n`;
-  
-  // Sort by spend amount and limit to top 12 rows for efficiency
-  const sortedData = rawData.sort((a, b) => {
-    const spendA = parseFloat(String(a['Annual Spend'] || a['Spend'] || a['Amount'] || a['Cost'] || 0).replace(/[^\d.-]/g, '')) || 0;
-    const spendB = parseFloat(String(b['Annual Spend'] || b['Spend'] || b['Amount'] || b['Cost'] || 0).replace(/[^\d.-]/g, '')) || 0;
-    return spendB - spendA; // Sort descending by spend
-  });
-  
-  const limitedData = sortedData.slice(0, 12);
-  
-  limitedData.forEach(row => {
-    const rowValues = columns.map(col => {
+  // Highest spend first, so the first batches carry most of the spend
+  const { mapping } = detectColumnMapping(getDataHeaders(rawData[0]), rawData);
+  const amounts = parseAmountColumn(rawData.map(row => row[mapping.spend || '']));
+  const sortedRows = rawData
+    .map((row, index) => ({ row, spend: amounts.parsed[index].value ?? 0 }))
+    .sort((a, b) => b.spend - a.spend) // Sort descending by spend
+    .map(({ row }) => `| ${columns.map(col => {
       const value = row[col];
       if (value === null || value === undefined) return '';
       
@@ -555,26 +383,25 @@ function convertToMarkdownTable(rawData: Record<string, unknown>[]): string {
         .trim();
         
       return cleanValue.slice(0, 100); // Limit cell content length
-    });
-    
-    markdown += `| ${rowValues.join(' | ')} |\n`;
-  });
+    }).join(' | ')} |`);
   
-  if (rawData.length > 12) {
-    markdown += `\n*Note: Showing top 12 highest-spend vendors of ${rawData.length} total records*\n`;
-  }
-  /*
-  markdown += `\n## Instructions\n`;
-  markdown += `Please analyze this procurement data table and identify:\n`;
-  markdown += `1. Vendor/supplier information\n`;
-  markdown += `2. Annual spend amounts\n`;
-  markdown += `3. Categories and segments\n`;
-  markdown += `4. Potential cost optimization opportunities\n`;*/
+  const batches = splitIntoBatches(sortedRows, MAX_BATCH_CHARS, row => row.length);
+  const tables = batches.map((batchRows, index) => {
+    let markdown = `# Procurement Data Analysis\n\n`;
+    markdown += `**Total Records:** ${rawData.length}\n\n`;
+    if (batches.length > 1) {
+      markdown += `**Batch:** ${index + 1} of ${batches.length}\n\n`;
+    }
+    markdown += `| ${columns.join(' | ')} |\n`;
+    markdown += `| ${columns.map(() => '---').join(' | ')} |\n`;
+    markdown += batchRows.join('\n') + '\n';
+    return markdown;
+  });
   
-  console.log(`[Markdown] Generated table with top ${limitedData.length} vendors (from ${rawData.length} total)`);
-  console.log('[Markdown] Sample:', markdown.slice(0, 500) + '...');
+  console.log(`[Markdown] Generated ${tables.length} table(s) covering all ${rawData.length} rows`);
+  console.log('[Markdown] Sample:', tables[0].slice(0, 500) + '...');
   
-  return markdown;
+  return tables;
 }
 
 // Generate a simple hash for file caching
@@ -585,8 +412,14 @@ export async function hashFile(file: File): Promise<string> {
   return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
 }
 
+// Hash of several file hashes, independent of upload order; a single file keeps its own hash
+export async function hashFileSet(fileHashes: string[]): Promise<string> {
+  if (fileHashes.length === 1) return fileHashes[0];
+  return generateDataHash([...fileHashes].sort().join('|'));
+}
+
 // Generate hash for data to prevent duplicate API calls
-async function generateDataHash(data: string): Promise<string> {
+export async function generateDataHash(data: string): Promise<string> {
   const encoder = new TextEncoder();
   const dataBuffer = encoder.encode(data);
   const hashBuffer = await crypto.subtle.digest('SHA-256', dataBuffer);
@@ -0,0 +1,19 @@
+/**
+ * Analysis providers. Built-in providers register here; new ones only need a
+ * registerProvider call to show up in the picker and the fallback order.
+ */
+
+import { registerProvider } from './registry';
+import { n8nEnhancedProvider, n8nStandardProvider } from './n8nWebhook';
+import { twoStageProvider } from './twoStage';
+import { localProvider } from './local';
+
+registerProvider(n8nStandardProvider);
+registerProvider(n8nEnhancedProvider);
+registerProvider(twoStageProvider);
+registerProvider(localProvider);
+
+export { getProvider, listProviders, registerProvider, runAnalysis } from './registry';
+export type { ProviderAttempt, ProviderRun, RunOptions } from './registry';
+export { DEFAULT_PROVIDER_ORDER } from './types';
+export type { AnalysisProvider, AnalysisResult, ProviderCapabilities, ProviderHealth, ProviderStage } from './types';
@@ -0,0 +1,23 @@
+import type { ExcelRow } from '../../types';
+import type { AnalysisProvider } from './types';
+import { runLocalAnalysis } from '../localAnalysis';
+
+/**
+ * The rules engine in the browser. Rows arrive normalized by the mapping
+ * step, so there is no separate normalization stage.
+ */
+export const localProvider: AnalysisProvider<ExcelRow[]> = {
+  id: 'local',
+  label: 'Local rules engine',
+  description: 'Right-sizing, consolidation, renewal and tail-spend rules computed in the browser',
+  version: '1',
+  capabilities: { marketEnrichment: false, offline: true, requiresApiKey: false },
+
+  isConfigured: () => true,
+
+  healthCheck: async () => ({ ok: true }),
+
+  normalize: async (rows: ExcelRow[]) => rows,
+
+  enrich: async (rows: ExcelRow[]) => runLocalAnalysis(rows)
+};
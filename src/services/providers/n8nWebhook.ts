@@ -0,0 +1,164 @@
+import type { SpendAnalysis, ExcelRow } from '../../types';
+import type { AnalysisProvider, ProviderCapabilities } from './types';
+import { ErrorType, ValoriesError, logError, getErrorMessage } from '../../utils/errorHandling';
+import { httpJson, type EndpointName } from '../httpClient';
+import { getConfig, isFeatureAvailable, type ConfigFeature } from '../appConfig';
+import { summarizeAnalysis } from '../../utils/analysisValidation';
+import { BATCH_CONCURRENCY, mapWithConcurrency, mergeNormalizedBatches, splitIntoBatches } from '../../utils/batching';
+
+interface WebhookProviderConfig {
+  id: string;
+  label: string;
+  description: string;
+  logTag: string;
+  workflow: 'standard' | 'enhanced'; // Endpoints under n8n.<workflow> in the app config
+  feature: ConfigFeature;
+  capabilities: ProviderCapabilities;
+}
+
+/**
+ * Quote a CSV field when it holds the delimiter, a quote or a line break
+ */
+function csvField(value: unknown): string {
+  const text = String(value ?? '');
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Convert Excel data to CSV format for Step 1 API
+ */
+function convertExcelToCsvString(excelData: ExcelRow[]): string {
+  if (!excelData || excelData.length === 0) {
+    return '';
+  }
+
+  // Headers from every row, since sheets and files can add columns part-way
+  const headers = Array.from(new Set(excelData.flatMap(row => Object.keys(row))));
+
+  const csvRows = [
+    headers.map(csvField).join(','),
+    ...excelData.map(row => headers.map(header => csvField(row[header])).join(','))
+  ];
+
+  return csvRows.join('\n');
+}
+
+/**
+ * POST to one webhook step and return its JSON
+ */
+async function callWebhookStep(
+  url: string,
+  body: unknown,
+  endpoint: EndpointName,
+  logTag: string,
+  signal?: AbortSignal
+): Promise<unknown> {
+  try {
+    // No API-KEY header: the /api/n8n proxy adds it
+    return await httpJson({ endpoint, url, body, signal });
+  } catch (error) {
+    console.error(`[${logTag}] ${endpoint} failed:`, getErrorMessage(error));
+    throw error;
+  }
+}
+
+/**
+ * Convert external API response to our SpendAnalysis format. Throws when the
+ * enrichment step returned no analysis, so callers fall back to the local engine.
+ * Items are checked field by field by the registry, so they pass through as sent.
+ */
+function mapToSpendAnalysis(step2Data: unknown): SpendAnalysis[] {
+  const items = Array.isArray(step2Data)
+    ? step2Data
+    : typeof step2Data === 'object' && step2Data !== null ? (step2Data as { analysis?: unknown }).analysis : undefined;
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new ValoriesError(ErrorType.PARSING_ERROR, 'Enrichment response contains no analysis');
+  }
+
+  return items.map((item: unknown, index: number) => {
+    if (typeof item !== 'object' || item === null) return item;
+    const { id } = item as { id?: unknown };
+    return { ...item, id: typeof id === 'string' && id ? id : `ext-${index + 1}` };
+  }) as SpendAnalysis[];
+}
+
+/**
+ * Provider for one n8n workflow pair: Step 1 (Excel → table format, data
+ * normalization) and Step 2 (table enrichment, alternatives)
+ */
+function createWebhookProvider(config: WebhookProviderConfig): AnalysisProvider {
+  return {
+    id: config.id,
+    label: config.label,
+    description: config.description,
+    version: '1',
+    capabilities: config.capabilities,
+
+    isConfigured: () => isFeatureAvailable(config.feature),
+
+    async healthCheck() {
+      try {
+        // Test with minimal data
+        const testData = [
+          {
+            'Vendor Name': 'Test Vendor',
+            'Annual Spend': '1000',
+            'Category': 'Software'
+          }
+        ];
+
+        console.log(`[${config.logTag}] Testing connection...`);
+        await callWebhookStep(getConfig().n8n[config.workflow].normalizeUrl, { csv_data: convertExcelToCsvString(testData) }, 'n8n.health', config.logTag);
+
+        console.log(`[${config.logTag}] ✅ Connection test successful`);
+        return { ok: true };
+      } catch (error) {
+        logError(`${config.logTag} Connection Test`, error);
+        return { ok: false, detail: getErrorMessage(error) };
+      }
+    },
+
+    async normalize(rows: ExcelRow[], signal?: AbortSignal) {
+      // Each batch is a CSV of its own, with the header row
+      const batches = splitIntoBatches(rows, undefined, row => Object.values(row).join(',').length);
+      console.log(`🚀 ${config.label}: processing`, rows.length, 'records in', batches.length, 'batch(es)');
+
+      const results = await mapWithConcurrency(
+        batches,
+        BATCH_CONCURRENCY,
+        (batch, _index, batchSignal) => callWebhookStep(getConfig().n8n[config.workflow].normalizeUrl, { csv_data: convertExcelToCsvString(batch) }, 'n8n.normalize', config.logTag, batchSignal),
+        signal
+      );
+      return mergeNormalizedBatches(results);
+    },
+
+    async enrich(normalized: unknown, _rows: ExcelRow[], signal?: AbortSignal) {
+      const step2Result = await callWebhookStep(getConfig().n8n[config.workflow].enrichUrl, normalized, 'n8n.enrich', config.logTag, signal);
+      const analysis = mapToSpendAnalysis(step2Result);
+      const summary = summarizeAnalysis(analysis);
+
+      console.log(`✅ ${config.label} complete with live APIs! Records processed:`, analysis.length);
+      return { analysis, summary };
+    }
+  };
+}
+
+export const n8nStandardProvider = createWebhookProvider({
+  id: 'n8n-standard',
+  label: 'Standard analysis',
+  description: 'n8n workflows: normalization, then savings analysis',
+  logTag: 'NormalAPI',
+  workflow: 'standard',
+  feature: 'standardAnalysis',
+  capabilities: { marketEnrichment: false, offline: false, requiresApiKey: true }
+});
+
+export const n8nEnhancedProvider = createWebhookProvider({
+  id: 'n8n-enhanced',
+  label: 'Enhanced analysis',
+  description: 'n8n workflows with internet-sourced market data, vendor alternatives and pricing',
+  logTag: 'ExternalAPI',
+  workflow: 'enhanced',
+  feature: 'enhancedAnalysis',
+  capabilities: { marketEnrichment: true, offline: false, requiresApiKey: true }
+});
@@ -0,0 +1,132 @@
+import type { ExcelRow, QuarantinedItem } from '../../types';
+import type { AnalysisProvider, AnalysisResult, ProviderStage } from './types';
+import { attachOriginalSpend, spendCoverage, validateAnalysisResponse } from '../../utils/analysisValidation';
+import {
+  ErrorType,
+  ValoriesError,
+  getErrorMessage,
+  handleCancelledError,
+  handleConfigError,
+  isCancelledError,
+  logError
+} from '../../utils/errorHandling';
+
+export interface ProviderAttempt {
+  providerId: string;
+  error?: string; // Absent for the provider that succeeded
+}
+
+export interface ProviderRun extends AnalysisResult {
+  providerId: string;
+  attempts: ProviderAttempt[];
+  quarantined: QuarantinedItem[]; // Items of the successful response that failed validation
+}
+
+export interface RunOptions {
+  signal?: AbortSignal;
+  onStage?: (stage: ProviderStage, providerId: string, reused: boolean) => void;
+  normalized?: Record<string, unknown>; // Stage 1 output by provider id, reused instead of normalizing again
+  onNormalized?: (providerId: string, normalized: unknown) => void;
+}
+
+const providers = new Map<string, AnalysisProvider>();
+
+/**
+ * Make a provider available to the picker and to runAnalysis
+ */
+export function registerProvider(provider: AnalysisProvider): void {
+  if (providers.has(provider.id)) {
+    console.warn('[Providers] Replacing provider', provider.id);
+  }
+  providers.set(provider.id, provider);
+}
+
+export function getProvider(id: string): AnalysisProvider | undefined {
+  return providers.get(id);
+}
+
+/**
+ * Registered providers in registration order
+ */
+export function listProviders(): AnalysisProvider[] {
+  return Array.from(providers.values());
+}
+
+/**
+ * Run the providers in order until one produces an analysis. Unknown and
+ * unconfigured providers are skipped; every failure is recorded in `attempts`.
+ * Responses are validated here, so no provider output reaches the UI unchecked.
+ * Aborting the signal ends the run; cancellation never falls back.
+ */
+export async function runAnalysis(rows: ExcelRow[], order: string[], options: RunOptions = {}): Promise<ProviderRun> {
+  const { signal, onStage, onNormalized } = options;
+  const attempts: ProviderAttempt[] = [];
+  let lastError: unknown = null;
+
+  for (const providerId of order) {
+    if (signal?.aborted) throw handleCancelledError('Analysis');
+
+    const provider = providers.get(providerId);
+    if (!provider) {
+      console.warn('[Providers] Unknown provider in fallback order:', providerId);
+      continue;
+    }
+    if (!provider.isConfigured()) {
+      attempts.push({ providerId, error: 'Not configured' });
+      continue;
+    }
+
+    try {
+      let normalized: unknown;
+      if (options.normalized && providerId in options.normalized) {
+        console.log(`[Providers] ${provider.label}: reusing normalized data`);
+        onStage?.('normalizing', providerId, true);
+        normalized = options.normalized[providerId];
+      } else {
+        console.log(`[Providers] ${provider.label}: normalizing ${rows.length} rows`);
+        onStage?.('normalizing', providerId, false);
+        normalized = await provider.normalize(rows, signal);
+        onNormalized?.(providerId, normalized);
+      }
+
+      console.log(`[Providers] ${provider.label}: enriching`);
+      onStage?.('enriching', providerId, false);
+      const result = await provider.enrich(normalized, rows, signal);
+
+      onStage?.('validating', providerId, false);
+      const validated = validateAnalysisResponse(result);
+      if (validated.repairs.length > 0) {
+        console.warn(`[Providers] ${provider.label}: ${validated.repairs.length} repair(s)`, validated.repairs);
+      }
+      if (validated.quarantined.length > 0) {
+        console.warn(`[Providers] ${provider.label}: ${validated.quarantined.length} item(s) quarantined`, validated.quarantined);
+      }
+      if (validated.analysis.length === 0 && validated.quarantined.length > 0) {
+        throw new ValoriesError(ErrorType.VALIDATION_ERROR, `All ${validated.quarantined.length} analysis items failed validation`);
+      }
+
+      const coverage = spendCoverage(rows, validated.analysis);
+      if (coverage !== null && coverage < 0.95) {
+        console.warn(`[Providers] ${provider.label}: analysis covers ${Math.round(coverage * 100)}% of the uploaded spend`);
+      }
+
+      attempts.push({ providerId });
+      return {
+        analysis: attachOriginalSpend(validated.analysis, rows),
+        summary: coverage !== null ? { ...validated.summary, coverage } : validated.summary,
+        providerId,
+        attempts,
+        quarantined: validated.quarantined
+      };
+    } catch (error) {
+      if (isCancelledError(error) || signal?.aborted) throw handleCancelledError('Analysis');
+      logError(`Providers:${providerId}`, error);
+      attempts.push({ providerId, error: getErrorMessage(error) });
+      lastError = error;
+    }
+  }
+
+  if (lastError instanceof ValoriesError) throw lastError;
+  if (lastError) throw new ValoriesError(ErrorType.API_ERROR, getErrorMessage(lastError));
+  throw handleConfigError('No configured analysis provider in the fallback order');
+}
@@ -0,0 +1,40 @@
+import type { ExcelRow } from '../../types';
+import type { AnalysisProvider } from './types';
+import {
+  buildAnalysisPayloads,
+  isTwoStageConfigured,
+  runBatchedNormalization,
+  runEnrichmentStage,
+  testOpenAIConnection
+} from '../openai';
+import { handleNetworkError } from '../../utils/errorHandling';
+
+/**
+ * The environment-configured pipeline: vendor-grouped payload to the n8n
+ * normalization workflow, then the enrichment workflow
+ */
+export const twoStageProvider: AnalysisProvider = {
+  id: 'two-stage',
+  label: 'Two-stage OpenAI',
+  description: 'Vendor-grouped data through the normalization and enrichment workflows set in the environment',
+  version: '1',
+  capabilities: { marketEnrichment: true, offline: false, requiresApiKey: true },
+
+  isConfigured: isTwoStageConfigured,
+
+  async healthCheck() {
+    const ok = await testOpenAIConnection();
+    return ok ? { ok } : { ok, detail: 'OpenAI API connection failed' };
+  },
+
+  async normalize(rows: ExcelRow[], signal?: AbortSignal) {
+    if (!(await testOpenAIConnection(signal))) {
+      throw handleNetworkError('OpenAI API connection failed', new Error('Check your API key and network'));
+    }
+    return runBatchedNormalization(buildAnalysisPayloads(rows), signal);
+  },
+
+  enrich(normalized: unknown, _rows: ExcelRow[], signal?: AbortSignal) {
+    return runEnrichmentStage(normalized, signal);
+  }
+};
@@ -0,0 +1,40 @@
+import type { ExcelRow, SpendAnalysis, SummaryMetrics } from '../../types';
+
+export interface ProviderCapabilities {
+  marketEnrichment: boolean; // Internet-sourced pricing and vendor alternatives
+  offline: boolean; // Runs without network access
+  requiresApiKey: boolean;
+}
+
+export interface ProviderHealth {
+  ok: boolean;
+  detail?: string;
+}
+
+export interface AnalysisResult {
+  analysis: SpendAnalysis[];
+  summary: SummaryMetrics;
+}
+
+/**
+ * One analysis pipeline. `normalize` turns mapped rows into whatever the
+ * provider's enrichment stage consumes; `enrich` produces the analysis.
+ * Both take the run's AbortSignal and should pass it to any request they make.
+ */
+export interface AnalysisProvider<Normalized = unknown> {
+  id: string;
+  label: string;
+  description: string;
+  version: string; // Bumped when the provider's output changes for the same input
+  capabilities: ProviderCapabilities;
+  isConfigured(): boolean;
+  healthCheck(): Promise<ProviderHealth>;
+  normalize(rows: ExcelRow[], signal?: AbortSignal): Promise<Normalized>;
+  enrich(normalized: Normalized, rows: ExcelRow[], signal?: AbortSignal): Promise<AnalysisResult>;
+}
+
+// Steps of one provider run, reported while runAnalysis works
+export type ProviderStage = 'normalizing' | 'enriching' | 'validating';
+
+// Tried in this order until one succeeds
+export const DEFAULT_PROVIDER_ORDER = ['n8n-standard', 'local'];
@@ -0,0 +1,80 @@
+import type { MergeProposal, VendorAliasMap } from '../utils/entityResolution';
+import { normalizeVendorName } from '../utils/entityResolution';
+import { logError } from '../utils/errorHandling';
+
+export interface VendorAliasDictionary {
+  aliases: VendorAliasMap;
+  rejected: string[]; // Ids of merge proposals the user turned down
+}
+
+const STORAGE_KEY = 'valoris.vendorAliases';
+
+/**
+ * Load the alias dictionary maintained by the user
+ */
+export function loadVendorAliases(): VendorAliasDictionary {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored
+      ? { aliases: {}, rejected: [], ...(JSON.parse(stored) as Partial<VendorAliasDictionary>) }
+      : { aliases: {}, rejected: [] };
+  } catch (error) {
+    logError('VendorAliases', error);
+    return { aliases: {}, rejected: [] };
+  }
+}
+
+function writeVendorAliases(dictionary: VendorAliasDictionary): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(dictionary));
+  } catch (error) {
+    logError('VendorAliases', error);
+  }
+}
+
+/**
+ * Accept a merge: every variant becomes an alias of the canonical name.
+ * Aliases that pointed at a merged variant are re-pointed as well.
+ */
+export function acceptVendorMerge(proposal: MergeProposal, canonical: string = proposal.canonical): VendorAliasDictionary {
+  const dictionary = loadVendorAliases();
+  const mergedNames = new Set(proposal.variants.map(variant => variant.name));
+  const aliases: VendorAliasMap = {};
+
+  Object.entries(dictionary.aliases).forEach(([alias, target]) => {
+    aliases[alias] = mergedNames.has(target) ? canonical : target;
+  });
+  proposal.variants.forEach(variant => {
+    aliases[normalizeVendorName(variant.name)] = canonical;
+  });
+
+  const updated = { ...dictionary, aliases };
+  writeVendorAliases(updated);
+  console.log('[VendorAliases] Merged', proposal.variants.length, 'variants into', canonical);
+  return updated;
+}
+
+/**
+ * Reject a merge so it is not proposed again
+ */
+export function rejectVendorMerge(proposal: MergeProposal): VendorAliasDictionary {
+  const dictionary = loadVendorAliases();
+  const updated = {
+    ...dictionary,
+    rejected: dictionary.rejected.includes(proposal.id) ? dictionary.rejected : [...dictionary.rejected, proposal.id]
+  };
+  writeVendorAliases(updated);
+  return updated;
+}
+
+/**
+ * Remove one alias, splitting that variant off again
+ */
+export function removeVendorAlias(alias: string): VendorAliasDictionary {
+  const dictionary = loadVendorAliases();
+  const aliases = { ...dictionary.aliases };
+  delete aliases[alias];
+  const updated = { ...dictionary, aliases };
+  writeVendorAliases(updated);
+  return updated;
+}
@@ -0,0 +1,241 @@
+import type { ExcelRow, QuarantinedItem, SpendAnalysis, SummaryMetrics, WorkbookSheet } from '../types';
+import type { ConversationData } from './conversationData';
+import { logError } from '../utils/errorHandling';
+
+const DB_NAME = 'valoris';
+
+export interface StoredFile {
+  hash: string; // hashFile of the uploaded file
+  name: string;
+  size: number;
+  storedAt: string;
+  rows?: Record<string, unknown>[]; // CSV files
+  sheets?: WorkbookSheet[]; // Workbooks
+}
+
+export interface StoredAnalysis {
+  id: string; // hashFile for one file, hash of the sorted file hashes for several
+  fileNames: string[];
+  fileHashes: string[];
+  createdAt: string;
+  rowCount: number;
+  analysis: SpendAnalysis[];
+  summary: SummaryMetrics;
+  quarantined?: QuarantinedItem[]; // Response items that failed validation
+  rows?: ExcelRow[]; // Prepared rows the analysis ran on, for the chat tools; absent in older records
+}
+
+export interface CachedAnalysisEntry {
+  key: string; // See analysisCache.cacheKey
+  fileHash: string;
+  mappingHash: string;
+  providerId: string;
+  providerVersion: string;
+  mode: string;
+  createdAt: string;
+  lastUsedAt: string; // Least recently used entries are evicted first
+  size: number; // Serialized size of the result, in characters
+  analysis: SpendAnalysis[];
+  summary: SummaryMetrics;
+  quarantined?: QuarantinedItem[];
+}
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+  persisted: boolean;
+}
+
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+/**
+ * Schema migrations, applied in order. The database version is the number of
+ * migrations, so a new schema change is always appended, never edited.
+ */
+const MIGRATIONS: Migration[] = [
+  // v1: parsed files and analyses keyed by file hash
+  (db) => {
+    db.createObjectStore('files', { keyPath: 'hash' });
+    db.createObjectStore('analyses', { keyPath: 'id' });
+  },
+  // v2: chat conversations, and listing analyses newest first
+  (db, transaction) => {
+    db.createObjectStore('conversations', { keyPath: 'fileId' });
+    transaction.objectStore('analyses').createIndex('createdAt', 'createdAt');
+  },
+  // v3: analysis results cached by input, mapping and provider
+  (db) => {
+    const cache = db.createObjectStore('analysisCache', { keyPath: 'key' });
+    cache.createIndex('lastUsedAt', 'lastUsedAt');
+  }
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+type StoreName = 'files' | 'analyses' | 'conversations' | 'analysisCache';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (and upgrade) the workspace database once per page load
+ */
+export function openWorkspaceDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const transaction = request.transaction!;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        console.log('[WorkspaceDb] Migrating to version', version + 1);
+        MIGRATIONS[version](db, transaction);
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema; close so it isn't blocked
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => console.warn('[WorkspaceDb] Upgrade blocked by another open tab');
+  });
+
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+/**
+ * Run one request in its own transaction; resolves once the transaction commits
+ */
+async function withStore<T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openWorkspaceDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(name, mode);
+    const request = run(transaction.objectStore(name));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Persist the parsed content of an uploaded file
+ */
+export async function saveParsedFile(file: StoredFile): Promise<void> {
+  await withStore('files', 'readwrite', store => store.put(file));
+}
+
+export async function loadParsedFile(hash: string): Promise<StoredFile | undefined> {
+  return withStore<StoredFile | undefined>('files', 'readonly', store => store.get(hash));
+}
+
+export async function saveAnalysis(record: StoredAnalysis): Promise<void> {
+  await withStore('analyses', 'readwrite', store => store.put(record));
+}
+
+export async function loadAnalysis(id: string): Promise<StoredAnalysis | undefined> {
+  return withStore<StoredAnalysis | undefined>('analyses', 'readonly', store => store.get(id));
+}
+
+/**
+ * All stored analyses, newest first
+ */
+export async function listAnalyses(): Promise<StoredAnalysis[]> {
+  const records = await withStore<StoredAnalysis[]>('analyses', 'readonly', store => store.index('createdAt').getAll());
+  return records.reverse();
+}
+
+/**
+ * Delete an analysis with its conversation, and the parsed files no other analysis uses
+ */
+export async function deleteAnalysis(id: string): Promise<void> {
+  const record = await loadAnalysis(id);
+  await withStore('analyses', 'readwrite', store => store.delete(id));
+  await withStore('conversations', 'readwrite', store => store.delete(conversationIdForAnalysis(id)));
+
+  if (record) {
+    const stillUsed = new Set((await listAnalyses()).flatMap(other => other.fileHashes));
+    for (const hash of record.fileHashes) {
+      if (!stillUsed.has(hash)) await withStore('files', 'readwrite', store => store.delete(hash));
+    }
+  }
+}
+
+/**
+ * Conversation id of the chat attached to a stored analysis
+ */
+export function conversationIdForAnalysis(analysisId: string): string {
+  return `analysis_${analysisId}`;
+}
+
+export async function saveConversation(conversation: ConversationData): Promise<void> {
+  await withStore('conversations', 'readwrite', store => store.put(conversation));
+}
+
+export async function loadConversation(fileId: string): Promise<ConversationData | undefined> {
+  return withStore<ConversationData | undefined>('conversations', 'readonly', store => store.get(fileId));
+}
+
+export async function saveCacheEntry(entry: CachedAnalysisEntry): Promise<void> {
+  await withStore('analysisCache', 'readwrite', store => store.put(entry));
+}
+
+export async function loadCacheEntry(key: string): Promise<CachedAnalysisEntry | undefined> {
+  return withStore<CachedAnalysisEntry | undefined>('analysisCache', 'readonly', store => store.get(key));
+}
+
+/**
+ * All cached analyses, least recently used first
+ */
+export async function listCacheEntries(): Promise<CachedAnalysisEntry[]> {
+  return withStore<CachedAnalysisEntry[]>('analysisCache', 'readonly', store => store.index('lastUsedAt').getAll());
+}
+
+export async function deleteCacheEntry(key: string): Promise<void> {
+  await withStore('analysisCache', 'readwrite', store => store.delete(key));
+}
+
+export async function clearCacheEntries(): Promise<void> {
+  await withStore('analysisCache', 'readwrite', store => store.clear());
+}
+
+/**
+ * Space used by this origin and the quota the browser grants it
+ */
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+  if (!navigator.storage?.estimate) return null;
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    const persisted = navigator.storage.persisted ? await navigator.storage.persisted() : false;
+    return { usage, quota, persisted };
+  } catch (error) {
+    logError('WorkspaceDb', error);
+    return null;
+  }
+}
+
+/**
+ * Ask the browser not to evict the workspace under storage pressure
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (!navigator.storage?.persist) return false;
+  return navigator.storage.persist();
+}
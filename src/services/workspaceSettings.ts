@@ -0,0 +1,41 @@
+import { DEFAULT_REPORTING_CURRENCY } from '../utils/currency';
+import { DEFAULT_PROVIDER_ORDER } from './providers/types';
+import { logError } from '../utils/errorHandling';
+
+export interface WorkspaceSettings {
+  reportingCurrency: string;
+  providerOrder: string[]; // Analysis providers to try, primary first
+}
+
+const STORAGE_KEY = 'valoris.workspaceSettings';
+
+const DEFAULT_SETTINGS: WorkspaceSettings = {
+  reportingCurrency: DEFAULT_REPORTING_CURRENCY,
+  providerOrder: DEFAULT_PROVIDER_ORDER
+};
+
+/**
+ * Load the workspace settings, filling in defaults for missing keys
+ */
+export function loadWorkspaceSettings(): WorkspaceSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_SETTINGS, ...(JSON.parse(stored) as Partial<WorkspaceSettings>) } : DEFAULT_SETTINGS;
+  } catch (error) {
+    logError('WorkspaceSettings', error);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+/**
+ * Merge and persist a settings change
+ */
+export function saveWorkspaceSettings(changes: Partial<WorkspaceSettings>): WorkspaceSettings {
+  const settings = { ...loadWorkspaceSettings(), ...changes };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    logError('WorkspaceSettings', error);
+  }
+  return settings;
+}
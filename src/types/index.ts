@@ -12,8 +12,11 @@ export interface SpendAnalysis {
   category: string; // 'Software' | 'Hardware' | 'Services' | 'Cloud' | 'CRM' | 'Marketing' | 'HR' | 'Other' | string
   type: string;
   item: string;
-  pastSpend: number;
+  pastSpend: number; // In the reporting currency
   projectedSpend: number;
+  currency?: string; // Reporting currency of pastSpend and projectedSpend
+  originalSpend?: number; // Amount as it appeared in the source file
+  originalCurrency?: string;
   projectedChange: string;
   savingsRange: string;
   savingsPercentage: string;
@@ -45,7 +48,16 @@ export interface UploadedFile {
 }
 
 export interface ExcelRow {
-  [key: string]: string | number | undefined;
+  [key: string]: unknown;
+}
+
+export interface WorkbookSheet {
+  name: string;
+  hidden: boolean;
+  pivotOnly: boolean; // Sheet only holds pivot table output
+  headers: string[];
+  rows: Record<string, unknown>[];
+  includedByDefault: boolean;
 }
 
 export interface ProcessingStatus {
@@ -56,6 +68,34 @@ export interface ErrorMessages {
   [fileName: string]: string;
 }
 
+// An analysis item that failed validation, kept so it can be shown rather than dropped
+export interface QuarantinedItem {
+  index: number; // Position in the provider's response
+  raw: unknown;
+  reasons: string[];
+}
+
+// Identifies a stored analysis so it can be reopened with its chat history
+export interface AnalysisMeta {
+  analysisId?: string; // Absent when the files could not be hashed
+  fileNames: string[];
+  quarantined?: QuarantinedItem[];
+  cached?: CachedResultInfo; // Present when the result was served from the analysis cache
+  rows?: ExcelRow[]; // Prepared rows the analysis ran on, for the chat tools
+}
+
+export interface CachedResultInfo {
+  key: string;
+  providerId: string;
+  createdAt: string;
+}
+
+// A request to show a vendor's row in the analysis table
+export interface VendorFocus {
+  vendor: string;
+  requestedAt: number; // Distinguishes repeated requests for the same vendor
+}
+
 export interface CachedAnalysis {
   analysis: SpendAnalysis[];
   summary: SummaryMetrics;
@@ -69,4 +109,6 @@ export interface SummaryMetrics {
     max: number;
   };
   roi: number;
+  currency?: string; // Reporting currency; EUR when absent
+  coverage?: number; // Share (0-1) of the uploaded spend the analysis items account for
 }
\ No newline at end of file
@@ -0,0 +1,339 @@
+/**
+ * Runtime validation of analysis responses. Fields that can be read safely
+ * are coerced (numeric strings, confidence in percent, missing optional
+ * text); items that cannot be repaired are quarantined, never dropped.
+ */
+
+import type {
+  AnalysisDetails,
+  ExcelRow,
+  QuarantinedItem,
+  SpendAnalysis,
+  SummaryMetrics,
+  VendorAlternative
+} from '../types';
+import { formatMoney } from './currency';
+import { normalizeVendorName } from './entityResolution';
+import { parseAmount } from './numberParsing';
+
+export interface ValidatedAnalysis {
+  analysis: SpendAnalysis[];
+  summary: SummaryMetrics;
+  quarantined: QuarantinedItem[];
+  repairs: string[]; // One line per coercion applied, for the console
+  summaryRecomputed: boolean;
+}
+
+// Summary totals within this share of the item totals count as agreeing
+const SUMMARY_TOLERANCE = 0.01;
+const SAVINGS_TOLERANCE = 0.05;
+
+const RISK_LEVELS: AnalysisDetails['riskLevel'][] = ['Low', 'Medium', 'High'];
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Number from a number or a numeric string ("€450,000", "1 234,50")
+ */
+function coerceNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  return parseAmount(value).value;
+}
+
+function coerceText(value: unknown): string | null {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return null;
+}
+
+/**
+ * Confidence as a 0-1 share. Values marked with "%" and whole numbers up to
+ * 100 are read as percentages; any other value above 1 (1.5) is unreadable.
+ */
+function coerceConfidence(value: unknown): number | null {
+  const percent = typeof value === 'string' && value.includes('%');
+  const number = coerceNumber(percent ? value.replace('%', '') : value);
+  if (number === null || number < 0 || number > 100) return null;
+  if (percent || number > 1) {
+    return percent || Number.isInteger(number) ? Math.round(number) / 100 : null;
+  }
+  return Math.round(number * 100) / 100;
+}
+
+function coerceRiskLevel(value: unknown): AnalysisDetails['riskLevel'] | null {
+  const text = coerceText(value)?.toLowerCase();
+  return RISK_LEVELS.find(level => level.toLowerCase() === text) || null;
+}
+
+// "to" between spaces, or a hyphen or dash with or without them. A dash only
+// separates after a non-space, so a leading minus stays with the first number.
+const RANGE_SEPARATOR = /\s+to\s+|(?<=\S)\s*[-–—]\s*/i;
+const MAGNITUDE_SUFFIX = /(\d)\s*([km])(?![a-z])\.?/i;
+
+/**
+ * One bound of a savings range; "35K" and "€1.2M" are read with their magnitude
+ */
+function coerceRangeBound(text: string): number | null {
+  const suffix = text.match(MAGNITUDE_SUFFIX);
+  const value = coerceNumber(suffix ? text.replace(MAGNITUDE_SUFFIX, '$1') : text);
+  if (value === null || !suffix) return value;
+  return value * (suffix[2].toLowerCase() === 'k' ? 1_000 : 1_000_000);
+}
+
+/**
+ * Minimum and maximum of a savings range such as "€35,000 to €67,500",
+ * "€35,000-€67,500" or "35K–67K"
+ */
+export function parseSavingsRange(range: string): { min: number; max: number } | null {
+  const parts = range.trim().split(RANGE_SEPARATOR).map(coerceRangeBound);
+  if (parts.length === 0 || parts.some(part => part === null)) return null;
+  const values = parts as number[];
+  return { min: Math.min(...values), max: Math.max(...values) };
+}
+
+function validateAlternative(value: unknown, currency: string | undefined): VendorAlternative | null {
+  if (!isObject(value)) return null;
+  const vendor = coerceText(value.vendor);
+  if (!vendor) return null;
+
+  const price = typeof value.estimatedPrice === 'number'
+    ? formatMoney(value.estimatedPrice, currency)
+    : coerceText(value.estimatedPrice) || '';
+  return { vendor, estimatedPrice: price, feasibility: coerceText(value.feasibility) || '' };
+}
+
+function validateDetails(value: unknown, repair: (note: string) => void): AnalysisDetails {
+  if (!isObject(value)) {
+    repair('details missing; defaults used');
+    return { description: '', implementation: '', timeline: '', riskLevel: 'Medium' };
+  }
+
+  const riskLevel = coerceRiskLevel(value.riskLevel);
+  if (!riskLevel) repair(`riskLevel ${JSON.stringify(value.riskLevel)} read as Medium`);
+
+  return {
+    description: coerceText(value.description) || '',
+    implementation: coerceText(value.implementation) || '',
+    timeline: coerceText(value.timeline) || '',
+    riskLevel: riskLevel || 'Medium'
+  };
+}
+
+/**
+ * One analysis item, or the reasons it can't be used
+ */
+export function validateSpendAnalysis(
+  value: unknown,
+  index: number,
+  repairs: string[] = []
+): { item: SpendAnalysis } | { reasons: string[] } {
+  if (!isObject(value)) return { reasons: ['Item is not an object'] };
+
+  const reasons: string[] = [];
+  const vendor = coerceText(value.vendor);
+  const pastSpend = coerceNumber(value.pastSpend);
+  const projectedSpend = coerceNumber(value.projectedSpend ?? value.pastSpend);
+
+  if (!vendor) reasons.push('Missing vendor');
+  if (pastSpend === null) reasons.push(`pastSpend ${JSON.stringify(value.pastSpend)} is not a number`);
+  if (projectedSpend === null) reasons.push(`projectedSpend ${JSON.stringify(value.projectedSpend)} is not a number`);
+  if (reasons.length > 0 || !vendor || pastSpend === null || projectedSpend === null) return { reasons };
+
+  const repair = (note: string) => repairs.push(`Item ${index + 1} (${vendor}): ${note}`);
+  if (typeof value.pastSpend !== 'number') repair('pastSpend coerced from text');
+  if (value.projectedSpend === undefined) repair('projectedSpend missing; pastSpend used');
+  else if (typeof value.projectedSpend !== 'number') repair('projectedSpend coerced from text');
+
+  let confidence = coerceConfidence(value.confidence);
+  if (confidence === null) {
+    repair(`confidence ${JSON.stringify(value.confidence)} unreadable; 0.5 used`);
+    confidence = 0.5;
+  } else if (confidence !== value.confidence) {
+    repair(`confidence ${JSON.stringify(value.confidence)} read as ${confidence}`);
+  }
+
+  const currency = coerceText(value.currency) || undefined;
+  const change = pastSpend !== 0 ? (projectedSpend - pastSpend) / pastSpend : 0;
+  const projectedChange = coerceText(value.projectedChange) || `${change > 0 ? '+' : ''}${Math.round(change * 100)}%`;
+
+  const savingsRange = typeof value.savingsRange === 'number'
+    ? formatMoney(value.savingsRange, currency)
+    : coerceText(value.savingsRange) || '';
+  if (parseSavingsRange(savingsRange) === null) {
+    repair(`savingsRange ${JSON.stringify(value.savingsRange)} unreadable; left out of the savings total`);
+  }
+  const savingsPercentage = typeof value.savingsPercentage === 'number'
+    ? `${Math.round(value.savingsPercentage)}%`
+    : coerceText(value.savingsPercentage) || '';
+
+  let alternatives: VendorAlternative[] | undefined;
+  if (Array.isArray(value.alternatives)) {
+    alternatives = value.alternatives
+      .map(alternative => validateAlternative(alternative, currency))
+      .filter((alternative): alternative is VendorAlternative => alternative !== null);
+    if (alternatives.length < value.alternatives.length) {
+      repair(`${value.alternatives.length - alternatives.length} unreadable alternative(s) left out`);
+    }
+  }
+
+  const originalSpend = coerceNumber(value.originalSpend);
+
+  return {
+    item: {
+      id: coerceText(value.id) || `vendor-${index + 1}`,
+      vendor,
+      segment: coerceText(value.segment) || 'Other',
+      category: coerceText(value.category) || 'Other',
+      type: coerceText(value.type) || '',
+      item: coerceText(value.item) || vendor,
+      pastSpend,
+      projectedSpend,
+      ...(currency ? { currency } : {}),
+      ...(originalSpend !== null ? { originalSpend } : {}),
+      ...(coerceText(value.originalCurrency) ? { originalCurrency: coerceText(value.originalCurrency)! } : {}),
+      projectedChange,
+      savingsRange,
+      savingsPercentage,
+      confidence,
+      ...(alternatives ? { alternatives } : {}),
+      details: validateDetails(value.details, repair)
+    }
+  };
+}
+
+/**
+ * Summary computed from the items alone. Savings come from the items'
+ * savings ranges; items without a readable range add nothing.
+ */
+export function summarizeAnalysis(analysis: SpendAnalysis[]): SummaryMetrics {
+  const pastSpend = analysis.reduce((sum, item) => sum + item.pastSpend, 0);
+  const projectedSpend = analysis.reduce((sum, item) => sum + item.projectedSpend, 0);
+  const potentialSavings = analysis.reduce(
+    (total, item) => {
+      const range = parseSavingsRange(item.savingsRange);
+      return range ? { min: total.min + range.min, max: total.max + range.max } : total;
+    },
+    { min: 0, max: 0 }
+  );
+
+  return {
+    pastSpend,
+    projectedSpend,
+    potentialSavings,
+    roi: pastSpend > 0 ? Math.round(((potentialSavings.min + potentialSavings.max) / 2 / pastSpend) * 100) : 0,
+    currency: analysis.find(item => item.currency)?.currency
+  };
+}
+
+/**
+ * Share (0-1) of the uploaded spend that the analysis items account for;
+ * null when the rows carry no spend to compare against
+ */
+export function spendCoverage(rows: ExcelRow[], analysis: SpendAnalysis[]): number | null {
+  const uploadedSpend = rows.reduce((sum, row) => sum + (coerceNumber(row.spend) ?? 0), 0);
+  if (uploadedSpend <= 0) return null;
+
+  const analyzedSpend = analysis.reduce((sum, item) => sum + item.pastSpend, 0);
+  return Math.min(Math.max(analyzedSpend / uploadedSpend, 0), 1);
+}
+
+/**
+ * Items with the source-file amount of their vendor's rows, for providers that
+ * don't return it. Set only when the vendor has a single item and its rows
+ * share one source currency; items carrying their own are left as they are.
+ */
+export function attachOriginalSpend(analysis: SpendAnalysis[], rows: ExcelRow[]): SpendAnalysis[] {
+  const byVendor = new Map<string, { spend: number; currencies: Set<string> }>();
+  rows.forEach(row => {
+    if (!row.originalCurrency || typeof row.vendor !== 'string') return;
+    const key = normalizeVendorName(row.vendor);
+    const entry = byVendor.get(key) || { spend: 0, currencies: new Set<string>() };
+    entry.spend += coerceNumber(row.originalSpend) ?? 0;
+    entry.currencies.add(String(row.originalCurrency));
+    byVendor.set(key, entry);
+  });
+
+  const itemCounts = new Map<string, number>();
+  analysis.forEach(item => {
+    const key = normalizeVendorName(item.vendor);
+    itemCounts.set(key, (itemCounts.get(key) || 0) + 1);
+  });
+
+  return analysis.map(item => {
+    if (item.originalSpend !== undefined || item.originalCurrency) return item;
+    const key = normalizeVendorName(item.vendor);
+    const entry = byVendor.get(key);
+    if (!entry || entry.currencies.size !== 1 || itemCounts.get(key) !== 1) return item;
+    return {
+      ...item,
+      originalSpend: Math.round(entry.spend * 100) / 100,
+      originalCurrency: Array.from(entry.currencies)[0]
+    };
+  });
+}
+
+const disagrees = (reported: number | null, computed: number, tolerance: number) =>
+  reported === null || Math.abs(reported - computed) > Math.max(Math.abs(computed) * tolerance, 1);
+
+/**
+ * Validate a whole response ({analysis, summary}). The summary is replaced
+ * by one computed from the valid items when it is missing or disagrees.
+ */
+export function validateAnalysisResponse(response: unknown): ValidatedAnalysis {
+  const repairs: string[] = [];
+  const quarantined: QuarantinedItem[] = [];
+  const analysis: SpendAnalysis[] = [];
+
+  const items = isObject(response) && Array.isArray(response.analysis) ? response.analysis : [];
+  items.forEach((raw, index) => {
+    const result = validateSpendAnalysis(raw, index, repairs);
+    if ('item' in result) {
+      analysis.push(result.item);
+    } else {
+      quarantined.push({ index, raw, reasons: result.reasons });
+    }
+  });
+
+  const computed = summarizeAnalysis(analysis);
+  const reported = isObject(response) && isObject(response.summary) ? response.summary : null;
+  const reportedSavings = reported && isObject(reported.potentialSavings) ? reported.potentialSavings : null;
+  const savingsKnown = analysis.length > 0 && analysis.every(item => parseSavingsRange(item.savingsRange) !== null);
+
+  const reportedPast = reported ? coerceNumber(reported.pastSpend) : null;
+  const reportedProjected = reported ? coerceNumber(reported.projectedSpend) : null;
+  const reportedMin = reportedSavings ? coerceNumber(reportedSavings.min) : null;
+  const reportedMax = reportedSavings ? coerceNumber(reportedSavings.max) : null;
+
+  const summaryRecomputed =
+    !reported ||
+    disagrees(reportedPast, computed.pastSpend, SUMMARY_TOLERANCE) ||
+    disagrees(reportedProjected, computed.projectedSpend, SUMMARY_TOLERANCE) ||
+    reportedMin === null ||
+    reportedMax === null ||
+    reportedMin > reportedMax ||
+    (savingsKnown && (
+      disagrees(reportedMin, computed.potentialSavings.min, SAVINGS_TOLERANCE) ||
+      disagrees(reportedMax, computed.potentialSavings.max, SAVINGS_TOLERANCE)
+    ));
+
+  let summary: SummaryMetrics;
+  if (summaryRecomputed) {
+    summary = computed;
+    repairs.push(reported ? 'Summary disagreed with the items and was recomputed' : 'Summary missing; computed from the items');
+  } else {
+    const roi = coerceNumber(reported!.roi);
+    summary = {
+      pastSpend: reportedPast!,
+      projectedSpend: reportedProjected!,
+      potentialSavings: { min: reportedMin!, max: reportedMax! },
+      roi: roi ?? computed.roi,
+      currency: coerceText(reported!.currency) || computed.currency
+    };
+  }
+
+  return { analysis, summary, quarantined, repairs, summaryRecomputed };
+}
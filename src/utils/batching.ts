@@ -0,0 +1,186 @@
+/**
+ * Batching for the normalization stage: split rows into payloads of bounded
+ * size, send them with bounded concurrency and merge the normalized results
+ * back into one, deduplicating vendors that appear in several batches.
+ */
+
+import { handleCancelledError } from './errorHandling';
+
+// Serialized size of one batch; keeps each request well inside model context limits
+export const MAX_BATCH_CHARS = 40000;
+// Batches in flight at once
+export const BATCH_CONCURRENCY = 3;
+
+const VENDOR_KEYS = ['vendor', 'vendorName', 'vendor_name', 'supplier', 'supplierName', 'name'];
+// Numbers that add up across batches: totals and counts. Prices, rates and
+// the like keep their first value.
+const SUMMED_FIELD = /spend|amount|count|^(rows|records|transactions|lines|items|invoices|vendors|suppliers)$/i;
+// A vendor can appear in several batches, so these are recounted from the merged records
+const VENDOR_COUNT = /^(vendors|suppliers|vendorCount|vendor_count|uniqueVendors|supplierCount)$/i;
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Greedy split so each batch's measured size stays under maxChars. An item
+ * larger than the limit gets a batch of its own rather than being dropped.
+ */
+export function splitIntoBatches<T>(
+  items: T[],
+  maxChars: number = MAX_BATCH_CHARS,
+  measure: (item: T) => number = item => JSON.stringify(item).length
+): T[][] {
+  const batches: T[][] = [];
+  let current: T[] = [];
+  let size = 0;
+
+  items.forEach(item => {
+    const itemSize = measure(item) + 1; // Separator
+    if (current.length > 0 && size + itemSize > maxChars) {
+      batches.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(item);
+    size += itemSize;
+  });
+  if (current.length > 0) batches.push(current);
+
+  return batches;
+}
+
+/**
+ * Map over items with at most `limit` calls in flight; results keep input order.
+ * The worker gets a signal that aborts with the caller's and as soon as any
+ * call fails, so no more quota is spent on a run that has already failed.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number, signal: AbortSignal) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener('abort', forwardAbort, { once: true });
+  let next = 0;
+
+  const run = async () => {
+    while (next < items.length) {
+      if (signal?.aborted) throw handleCancelledError('Batch processing');
+      if (controller.signal.aborted) return; // Another batch failed
+      const index = next++;
+      try {
+        results[index] = await worker(items[index], index, controller.signal);
+      } catch (error) {
+        controller.abort();
+        throw error;
+      }
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, run));
+  } finally {
+    signal?.removeEventListener('abort', forwardAbort);
+  }
+  return results;
+}
+
+function vendorKeyOf(record: Fields): string | null {
+  const key = VENDOR_KEYS.find(name => typeof record[name] === 'string' && (record[name] as string).trim());
+  return key ? (record[key] as string).trim().toLowerCase() : null;
+}
+
+/**
+ * Records with the same vendor become one: spend, amount and count fields are summed,
+ * other fields keep the first non-empty value. Records without a vendor are deduplicated
+ * only when identical.
+ */
+function dedupeRecords(records: unknown[]): unknown[] {
+  const byKey = new Map<string, unknown>();
+
+  records.forEach(record => {
+    const vendor = isObject(record) ? vendorKeyOf(record) : null;
+    const key = vendor ? `vendor:${vendor}` : `raw:${JSON.stringify(record)}`;
+    const existing = byKey.get(key);
+
+    if (existing === undefined) {
+      byKey.set(key, record);
+    } else if (vendor && isObject(existing) && isObject(record)) {
+      const merged: Fields = { ...existing };
+      Object.entries(record).forEach(([field, value]) => {
+        const current = merged[field];
+        if (typeof current === 'number' && typeof value === 'number') {
+          if (SUMMED_FIELD.test(field)) merged[field] = current + value;
+        }
+        else if (current === undefined || current === null || current === '') merged[field] = value;
+      });
+      byKey.set(key, merged);
+    }
+  });
+
+  return Array.from(byKey.values());
+}
+
+function mergeValues(results: unknown[]): unknown {
+  const present = results.filter(result => result !== undefined && result !== null);
+  if (present.length <= 1) return present[0];
+
+  if (present.every(Array.isArray)) return dedupeRecords(present.flat());
+  if (present.every(result => typeof result === 'string')) return present.join('\n\n');
+  if (!present.every(isObject)) return present;
+
+  const merged: Fields = {};
+  const keys = new Set(present.flatMap(result => Object.keys(result as Fields)));
+  keys.forEach(key => {
+    const values = present.map(result => (result as Fields)[key]).filter(value => value !== undefined);
+    if (values.every(Array.isArray)) merged[key] = dedupeRecords(values.flat());
+    else if (SUMMED_FIELD.test(key) && values.every(value => typeof value === 'number')) merged[key] = (values as number[]).reduce((sum, value) => sum + value, 0);
+    else if (values.every(isObject)) merged[key] = mergeValues(values);
+    else merged[key] = values[0];
+  });
+  return merged;
+}
+
+/**
+ * Distinct vendors across every record list in a merged result
+ */
+function collectVendors(value: unknown, vendors: Set<string>): Set<string> {
+  if (Array.isArray(value)) {
+    value.forEach(record => {
+      const vendor = isObject(record) ? vendorKeyOf(record) : null;
+      if (vendor) vendors.add(vendor);
+    });
+  } else if (isObject(value)) {
+    Object.values(value).forEach(child => collectVendors(child, vendors));
+  }
+  return vendors;
+}
+
+function recountVendors(value: unknown, count: number): void {
+  if (!isObject(value)) return;
+  Object.entries(value).forEach(([key, child]) => {
+    if (VENDOR_COUNT.test(key) && typeof child === 'number') value[key] = count;
+    else recountVendors(child, count);
+  });
+}
+
+/**
+ * Merge the normalized output of several batches into the shape of one.
+ * Arrays are concatenated and deduplicated; in objects, arrays under the same
+ * key are merged that way, totals and counts summed, anything else taken from
+ * the first batch. Vendor counts are taken from the merged records when
+ * there are any, since summing them would count shared vendors twice.
+ */
+export function mergeNormalizedBatches(results: unknown[]): unknown {
+  const merged = mergeValues(results);
+  if (results.filter(result => result !== undefined && result !== null).length > 1) {
+    const vendors = collectVendors(merged, new Set());
+    if (vendors.size > 0) recountVendors(merged, vendors.size);
+  }
+  return merged;
+}
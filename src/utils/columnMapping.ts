@@ -0,0 +1,268 @@
+/**
+ * Header → canonical field detection shared by every ingestion path
+ */
+
+export type CanonicalField =
+  | 'vendor'
+  | 'spend'
+  | 'category'
+  | 'segment'
+  | 'contractEnd'
+  | 'usage'
+  | 'paymentTerms'
+  | 'currency'
+  | 'date';
+
+export type ColumnMapping = Partial<Record<CanonicalField, string>>;
+
+export interface MappingDetection {
+  mapping: ColumnMapping;
+  confidence: Partial<Record<CanonicalField, number>>;
+}
+
+interface FieldDefinition {
+  field: CanonicalField;
+  label: string;
+  synonyms: string[];
+  valueKind?: 'numeric' | 'date' | 'text';
+}
+
+export const CANONICAL_FIELDS: FieldDefinition[] = [
+  {
+    field: 'vendor',
+    label: 'Vendor',
+    synonyms: [
+      'vendor name', 'vendor', 'supplier name', 'supplier', 'company name', 'company',
+      'contractor', 'service provider', 'provider', 'organization', 'payee', 'merchant'
+    ],
+    valueKind: 'text'
+  },
+  {
+    field: 'spend',
+    label: 'Spend',
+    synonyms: [
+      'annual spend', 'spend', 'total current cost', 'total cost', 'yearly cost', 'cost',
+      'total amount', 'net amount', 'invoice amount', 'amount', 'contract value',
+      'expense', 'budget', 'value', 'price', 'total'
+    ],
+    valueKind: 'numeric'
+  },
+  {
+    field: 'category',
+    label: 'Category',
+    synonyms: [
+      'category', 'spend category', 'service category', 'service type', 'product type',
+      'classification', 'commodity', 'type'
+    ],
+    valueKind: 'text'
+  },
+  {
+    field: 'segment',
+    label: 'Segment',
+    synonyms: [
+      'segment', 'department', 'division', 'business unit', 'cost center',
+      'area', 'function', 'team', 'group'
+    ],
+    valueKind: 'text'
+  },
+  {
+    field: 'contractEnd',
+    label: 'Contract end',
+    synonyms: [
+      'contract end date', 'contract end', 'contract expiry', 'expiry date', 'expiration',
+      'renewal date', 'end date', 'expires'
+    ],
+    valueKind: 'date'
+  },
+  {
+    field: 'usage',
+    label: 'Usage',
+    synonyms: [
+      'usage', 'licenses', 'seats', 'users', 'quantity ordered', 'quantity',
+      'volume', 'instances', 'count'
+    ]
+  },
+  {
+    field: 'paymentTerms',
+    label: 'Payment terms',
+    synonyms: ['payment terms', 'payment frequency', 'billing frequency', 'billing cycle', 'terms'],
+    valueKind: 'text'
+  },
+  {
+    field: 'currency',
+    label: 'Currency',
+    synonyms: ['currency code', 'currency', 'ccy', 'curr'],
+    valueKind: 'text'
+  },
+  {
+    field: 'date',
+    label: 'Date',
+    synonyms: [
+      'invoice date', 'transaction date', 'posting date', 'document date', 'order date',
+      'period', 'date'
+    ],
+    valueKind: 'date'
+  }
+];
+
+// Scores below this are not mapped automatically
+export const MIN_MAPPING_CONFIDENCE = 0.35;
+
+/**
+ * Lower-case a header and turn separators into single spaces
+ */
+export function normalizeHeader(header: string): string {
+  return header
+    .replace(/([a-z])([A-Z])/g, '$1 $2') // contractEnd → contract End
+    .toLowerCase()
+    .replace(/[_\-./()[\]:#]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Headers starting with "_" are tags added during ingestion, not data columns
+ */
+export function getDataHeaders(row: Record<string, unknown>): string[] {
+  return Object.keys(row).filter(key => !key.startsWith('_'));
+}
+
+function scoreSynonym(header: string, synonym: string): number {
+  if (header === synonym) return 1;
+
+  const padded = ` ${header} `;
+  if (padded.includes(` ${synonym} `)) {
+    // Phrase match; the more of the header it covers, the more specific it is
+    return 0.6 + 0.3 * (synonym.length / header.length);
+  }
+
+  const headerTokens = new Set(header.split(' '));
+  const synonymTokens = synonym.split(' ');
+  const overlap = synonymTokens.filter(token => headerTokens.has(token)).length;
+  return overlap > 0 ? 0.4 * (overlap / synonymTokens.length) : 0;
+}
+
+function looksNumeric(value: string): boolean {
+  return /\d/.test(value) && /^[\s(+\-−]*[A-Z]{0,3}\s*[€$£¥₹]?\s*[\d.,'\s]+\s*[A-Za-z€$£¥₹]{0,3}\)?$/.test(value);
+}
+
+function looksLikeDate(value: string): boolean {
+  return /^\d{4}-\d{1,2}-\d{1,2}/.test(value) ||
+    /^\d{1,2}[./-]\d{1,2}[./-]\d{2,4}$/.test(value) ||
+    (!/^[\d.,\s]+$/.test(value) && !isNaN(Date.parse(value)));
+}
+
+/**
+ * Share of non-empty sample values matching a value kind
+ */
+function valueRatio(values: string[], predicate: (value: string) => boolean): number {
+  const filled = values.filter(value => value !== '');
+  if (filled.length === 0) return 0.5; // No evidence either way
+  return filled.filter(predicate).length / filled.length;
+}
+
+/**
+ * Confidence (0-1) that a header holds a canonical field, from its name and sample values
+ */
+export function scoreColumn(definition: FieldDefinition, header: string, sampleValues: string[] = []): number {
+  const normalized = normalizeHeader(header);
+  if (!normalized) return 0;
+
+  const nameScore = Math.max(...definition.synonyms.map(synonym => scoreSynonym(normalized, synonym)));
+  if (nameScore === 0 || sampleValues.length === 0) return nameScore;
+
+  switch (definition.valueKind) {
+    case 'numeric':
+      return nameScore * (0.5 + 0.5 * valueRatio(sampleValues, looksNumeric));
+    case 'date':
+      return nameScore * (0.5 + 0.5 * valueRatio(sampleValues, looksLikeDate));
+    case 'text':
+      return nameScore * (1 - 0.5 * valueRatio(sampleValues, looksNumeric));
+    default:
+      return nameScore;
+  }
+}
+
+/**
+ * Detect the header used for each canonical field. Every header is assigned
+ * to at most one field, strongest matches first.
+ */
+export function detectColumnMapping(
+  headers: string[],
+  sampleRows: Record<string, unknown>[] = []
+): MappingDetection {
+  const samples = sampleRows.slice(0, 50);
+  const candidates: Array<{ field: CanonicalField; header: string; score: number }> = [];
+
+  headers.filter(header => !header.startsWith('_')).forEach(header => {
+    const values = samples.map(row => String(row[header] ?? '').trim());
+    CANONICAL_FIELDS.forEach(definition => {
+      const score = scoreColumn(definition, header, values);
+      if (score >= MIN_MAPPING_CONFIDENCE) {
+        candidates.push({ field: definition.field, header, score });
+      }
+    });
+  });
+
+  candidates.sort((a, b) => b.score - a.score);
+
+  const mapping: ColumnMapping = {};
+  const confidence: MappingDetection['confidence'] = {};
+  const usedHeaders = new Set<string>();
+
+  candidates.forEach(({ field, header, score }) => {
+    if (mapping[field] || usedHeaders.has(header)) return;
+    mapping[field] = header;
+    confidence[field] = Math.round(score * 100) / 100;
+    usedHeaders.add(header);
+  });
+
+  return { mapping, confidence };
+}
+
+/**
+ * Stable fingerprint of a header set, independent of column order
+ */
+export function headerFingerprint(headers: string[]): string {
+  const canonical = headers
+    .filter(header => !header.startsWith('_'))
+    .map(normalizeHeader)
+    .sort()
+    .join('|');
+
+  // djb2 string hash, enough to key profiles locally
+  let hash = 5381;
+  for (let i = 0; i < canonical.length; i++) {
+    hash = ((hash << 5) + hash + canonical.charCodeAt(i)) >>> 0;
+  }
+  return `hdr_${hash.toString(16)}_${headers.filter(header => !header.startsWith('_')).length}`;
+}
+
+/**
+ * Rename mapped columns to their canonical field names. Unmapped columns and
+ * ingestion tags (_fileSource, _sheetSource) are kept as they are.
+ */
+export function applyColumnMapping(
+  rows: Record<string, unknown>[],
+  mapping: ColumnMapping
+): Record<string, unknown>[] {
+  const mappedHeaders = new Set(Object.values(mapping));
+
+  return rows.map(row => {
+    const mapped: Record<string, unknown> = {};
+    Object.entries(row).forEach(([key, value]) => {
+      if (!mappedHeaders.has(key)) mapped[key] = value;
+    });
+    (Object.entries(mapping) as Array<[CanonicalField, string]>).forEach(([field, header]) => {
+      mapped[field] = row[header] ?? '';
+    });
+    return mapped;
+  });
+}
+
+export interface MappingReview extends MappingDetection {
+  overridden: CanonicalField[];
+  profileName?: string;
+  profileMissing?: CanonicalField[]; // Fields whose saved-profile column is not in this file
+  confirmed: boolean;
+}
@@ -0,0 +1,274 @@
+/**
+ * RFC 4180 CSV tokenizer shared by the CSV ingestion paths
+ */
+
+export interface CsvRowDiagnostic {
+  row: number; // 1-based data row (header excluded)
+  line: number; // 1-based physical line the record starts on
+  expected: number;
+  actual: number;
+  message: string;
+}
+
+export interface CsvParseResult {
+  headers: string[];
+  rows: Record<string, unknown>[];
+  delimiter: string;
+  diagnostics: CsvRowDiagnostic[];
+}
+
+export const CSV_DELIMITERS = [';', ',', '\t', '|'];
+
+const QUOTE = '"';
+
+/**
+ * Incremental CSV tokenizer. Text can be pushed in arbitrary chunks; complete
+ * records are returned as soon as their terminating newline has been seen.
+ * Handles quoted fields, escaped quotes (""), CRLF/LF/CR line endings,
+ * multi-line cells and a leading byte order mark.
+ */
+export class CsvTokenizer {
+  private readonly delimiter: string;
+  private field = '';
+  private record: string[] = [];
+  private inQuotes = false;
+  private quoteClosed = false;
+  private pendingCR = false;
+  private started = false;
+  private line = 1;
+  private recordLine = 1;
+  private completedLines: number[] = [];
+
+  constructor(delimiter: string) {
+    this.delimiter = delimiter;
+  }
+
+  /**
+   * Feed a chunk of text and collect the records it completes
+   */
+  push(chunk: string): string[][] {
+    const records: string[][] = [];
+    let text = chunk;
+
+    if (!this.started) {
+      if (text.length === 0) return records;
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+      this.started = true;
+    }
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      // A CR is only a line break on its own; CRLF counts once
+      if (this.pendingCR) {
+        this.pendingCR = false;
+        if (char === '\n') continue;
+      }
+
+      if (this.inQuotes) {
+        if (char === QUOTE) {
+          if (text[i + 1] === QUOTE) {
+            this.field += QUOTE;
+            i++;
+          } else {
+            // At a chunk boundary this may still turn out to be an escaped quote
+            this.inQuotes = false;
+            this.quoteClosed = true;
+          }
+        } else {
+          if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) this.line++;
+          this.field += char;
+        }
+        continue;
+      }
+
+      if (char === QUOTE) {
+        if (this.quoteClosed) {
+          // Escaped quote split across chunks: `"a""` + `b"`
+          this.field += QUOTE;
+          this.inQuotes = true;
+          this.quoteClosed = false;
+        } else if (this.field.length === 0) {
+          this.inQuotes = true;
+        } else {
+          // Stray quote inside an unquoted field, keep it literally
+          this.field += char;
+        }
+      } else if (char === this.delimiter) {
+        this.endField();
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r') this.pendingCR = true;
+        this.endField();
+        this.completedLines.push(this.recordLine);
+        records.push(this.record);
+        this.record = [];
+        this.line++;
+        this.recordLine = this.line;
+      } else {
+        this.field += char;
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Flush the final record when the input does not end with a newline
+   */
+  end(): string[][] {
+    if (this.field.length === 0 && this.record.length === 0 && !this.quoteClosed && !this.inQuotes) {
+      return [];
+    }
+    this.endField();
+    this.completedLines.push(this.recordLine);
+    const last = this.record;
+    this.record = [];
+    this.inQuotes = false;
+    return [last];
+  }
+
+  /**
+   * Line numbers of the records returned so far, in order. Draining resets the list.
+   */
+  drainRecordLines(): number[] {
+    const lines = this.completedLines;
+    this.completedLines = [];
+    return lines;
+  }
+
+  private endField(): void {
+    this.record.push(this.field);
+    this.field = '';
+    this.quoteClosed = false;
+  }
+}
+
+/**
+ * Detect the delimiter by counting candidate characters outside quoted
+ * sections of the first few records. A delimiter that appears the same
+ * number of times on every sampled record wins over one that merely
+ * appears more often.
+ */
+export function detectCsvDelimiter(text: string, sampleRecords = 5): string {
+  let bestDelimiter = ',';
+  let bestScore = 0;
+
+  for (const delimiter of CSV_DELIMITERS) {
+    const counts = countOutsideQuotes(text, delimiter, sampleRecords);
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    if (total === 0) continue;
+
+    const consistent = counts.every(count => count === counts[0]);
+    const score = (consistent ? 1000 : 0) + total;
+    if (score > bestScore) {
+      bestScore = score;
+      bestDelimiter = delimiter;
+    }
+  }
+
+  return bestDelimiter;
+}
+
+function countOutsideQuotes(text: string, delimiter: string, maxRecords: number): number[] {
+  const counts: number[] = [];
+  let count = 0;
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length && counts.length < maxRecords; i++) {
+    const char = text[i];
+    if (char === QUOTE) {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && char === delimiter) {
+      count++;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      if (count > 0 || counts.length > 0) counts.push(count);
+      count = 0;
+    }
+  }
+  if (count > 0 && counts.length < maxRecords) counts.push(count);
+
+  return counts;
+}
+
+/**
+ * Build unique, non-empty header names
+ */
+export function normalizeHeaders(rawHeaders: string[]): string[] {
+  const seen = new Map<string, number>();
+  return rawHeaders.map((raw, index) => {
+    const base = raw.trim() || `Column_${index + 1}`;
+    const occurrences = seen.get(base) || 0;
+    seen.set(base, occurrences + 1);
+    return occurrences === 0 ? base : `${base}_${occurrences + 1}`;
+  });
+}
+
+/**
+ * Incrementally turns tokenized records into keyed rows with column-count diagnostics
+ */
+export class CsvRowBuilder {
+  headers: string[] | null = null;
+  readonly diagnostics: CsvRowDiagnostic[] = [];
+  private dataRow = 0;
+
+  /**
+   * Convert records (with their starting line numbers) into row objects.
+   * The first non-empty record becomes the header row.
+   */
+  addRecords(records: string[][], lines: number[]): Record<string, unknown>[] {
+    const rows: Record<string, unknown>[] = [];
+
+    records.forEach((record, index) => {
+      if (record.every(value => value.trim() === '')) return;
+
+      if (!this.headers) {
+        this.headers = normalizeHeaders(record);
+        return;
+      }
+
+      this.dataRow++;
+      const headers = this.headers;
+      if (record.length !== headers.length) {
+        this.diagnostics.push({
+          row: this.dataRow,
+          line: lines[index] ?? 0,
+          expected: headers.length,
+          actual: record.length,
+          message: record.length > headers.length
+            ? `Row ${this.dataRow} has ${record.length - headers.length} extra field(s); extra values were kept as Column_N`
+            : `Row ${this.dataRow} is missing ${headers.length - record.length} field(s)`
+        });
+      }
+
+      const row: Record<string, unknown> = {};
+      headers.forEach((header, column) => {
+        row[header] = (record[column] ?? '').trim();
+      });
+      for (let column = headers.length; column < record.length; column++) {
+        row[`Column_${column + 1}`] = record[column].trim();
+      }
+      rows.push(row);
+    });
+
+    return rows;
+  }
+}
+
+/**
+ * Parse a complete CSV document
+ */
+export function parseCsv(text: string, delimiter: string = detectCsvDelimiter(text)): CsvParseResult {
+  const tokenizer = new CsvTokenizer(delimiter);
+  const builder = new CsvRowBuilder();
+
+  const records = [...tokenizer.push(text), ...tokenizer.end()];
+  const rows = builder.addRecords(records, tokenizer.drainRecordLines());
+
+  return {
+    headers: builder.headers || [],
+    rows,
+    delimiter,
+    diagnostics: builder.diagnostics
+  };
+}
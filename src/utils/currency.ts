@@ -0,0 +1,176 @@
+/**
+ * Currency normalization against a dated FX rate table
+ */
+
+export const SUPPORTED_CURRENCIES = ['EUR', 'USD', 'GBP', 'PLN', 'SEK', 'CHF', 'NOK', 'DKK', 'JPY', 'INR'];
+
+export const DEFAULT_REPORTING_CURRENCY = 'EUR';
+
+// One unit of `base` is worth `rate` units of `quote` during `period` (YYYY-MM)
+export interface FxRate {
+  period: string;
+  base: string;
+  quote: string;
+  rate: number;
+}
+
+// Rows per source currency in a data set, and how many of them had no rate
+export interface CurrencyUsage {
+  rows: number;
+  missingRate: number;
+  assumed: number; // Rows with no currency of their own, read as the reporting currency
+}
+
+export interface CurrencyConversion {
+  amount: number;
+  rate: number;
+  period?: string; // Period of the rate used; undefined when no conversion was needed
+  missingRate: boolean;
+}
+
+const isMonth = (value: number) => value >= 1 && value <= 12;
+const isDay = (value: number) => value >= 1 && value <= 31;
+
+/**
+ * Period key (YYYY-MM) of a date cell, or null when it can't be read
+ */
+export function toPeriod(value: unknown): string | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value.toISOString().slice(0, 7);
+  }
+
+  const text = String(value ?? '').trim();
+  if (!text) return null;
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})/);
+  if (iso) return isMonth(Number(iso[2])) ? `${iso[1]}-${iso[2].padStart(2, '0')}` : null;
+
+  // 31.12.2024, 31/12/2024: day-first is the common export layout; when the
+  // middle part can't be a month (12/31/2024), the date is month-first
+  const numeric = text.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{4})$/);
+  if (numeric) {
+    const [first, second] = [Number(numeric[1]), Number(numeric[2])];
+    const month = isMonth(second) && isDay(first) ? second : isMonth(first) && isDay(second) ? first : null;
+    return month ? `${numeric[3]}-${String(month).padStart(2, '0')}` : null;
+  }
+
+  const parsed = new Date(text);
+  return isNaN(parsed.getTime()) ? null : parsed.toISOString().slice(0, 7);
+}
+
+/**
+ * Rate for one currency pair, direct or inverted. Uses the latest period not
+ * after the requested one, falling back to the earliest known period.
+ */
+function findPairRate(rates: FxRate[], from: string, to: string, period: string | null): { rate: number; period: string } | null {
+  const candidates = rates
+    .map(rate => {
+      if (rate.base === from && rate.quote === to) return { rate: rate.rate, period: rate.period };
+      if (rate.base === to && rate.quote === from) return { rate: 1 / rate.rate, period: rate.period };
+      return null;
+    })
+    .filter((candidate): candidate is { rate: number; period: string } => candidate !== null)
+    .sort((a, b) => a.period.localeCompare(b.period));
+
+  if (candidates.length === 0) return null;
+  if (!period) return candidates[candidates.length - 1];
+
+  const onOrBefore = candidates.filter(candidate => candidate.period <= period);
+  return onOrBefore.length > 0 ? onOrBefore[onOrBefore.length - 1] : candidates[0];
+}
+
+/**
+ * Rate converting `from` into `to`, directly or through one intermediate currency
+ */
+export function findFxRate(rates: FxRate[], from: string, to: string, period: string | null): { rate: number; period: string } | null {
+  if (from === to) return { rate: 1, period: period || '' };
+
+  const direct = findPairRate(rates, from, to, period);
+  if (direct) return direct;
+
+  const intermediates = new Set(rates.flatMap(rate => [rate.base, rate.quote]));
+  for (const via of intermediates) {
+    if (via === from || via === to) continue;
+    const first = findPairRate(rates, from, via, period);
+    const second = first && findPairRate(rates, via, to, period);
+    if (first && second) {
+      return { rate: first.rate * second.rate, period: first.period < second.period ? first.period : second.period };
+    }
+  }
+  return null;
+}
+
+/**
+ * Convert an amount into the reporting currency. Without a rate the original
+ * amount is returned unchanged and flagged, so callers can warn about it.
+ */
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  rates: FxRate[],
+  period: string | null = null
+): CurrencyConversion {
+  if (!from || from === to) {
+    return { amount, rate: 1, missingRate: false };
+  }
+
+  const found = findFxRate(rates, from, to, period);
+  if (!found) {
+    return { amount, rate: 1, missingRate: true };
+  }
+
+  return {
+    amount: Math.round(amount * found.rate * 100) / 100,
+    rate: found.rate,
+    period: found.period,
+    missingRate: false
+  };
+}
+
+/**
+ * Full currency formatting, e.g. "€1,234,567"
+ */
+export function formatMoney(amount: number, currency: string = DEFAULT_REPORTING_CURRENCY): string {
+  try {
+    return new Intl.NumberFormat('en-EU', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  } catch {
+    // Unknown ISO code: Intl throws, so fall back to a plain suffix
+    return `${Math.round(amount).toLocaleString('en-US')} ${currency}`;
+  }
+}
+
+/**
+ * Compact currency formatting, e.g. "€1.2M" or "$450K"
+ */
+export function formatMoneyCompact(amount: number, currency: string = DEFAULT_REPORTING_CURRENCY): string {
+  const symbol = currencySymbol(currency);
+  const sign = amount < 0 ? '-' : '';
+  const absolute = Math.abs(amount);
+
+  if (absolute >= 1000000) {
+    return `${sign}${symbol}${(absolute / 1000000).toFixed(1)}M`;
+  } else if (absolute >= 1000) {
+    return `${sign}${symbol}${(absolute / 1000).toFixed(0)}K`;
+  }
+  return `${sign}${symbol}${absolute.toFixed(0)}`;
+}
+
+/**
+ * Narrow symbol of a currency ("€", "$", "zł"), or its code when there is none
+ */
+export function currencySymbol(currency: string): string {
+  try {
+    const part = new Intl.NumberFormat('en-US', { style: 'currency', currency, currencyDisplay: 'narrowSymbol' })
+      .formatToParts(0)
+      .find(p => p.type === 'currency');
+    return part?.value || `${currency} `;
+  } catch {
+    return `${currency} `;
+  }
+}
@@ -3,118 +3,141 @@
  */
 
 import type { ExcelRow } from '../types';
+import type { CanonicalField, ColumnMapping } from './columnMapping';
+import { detectColumnMapping, getDataHeaders } from './columnMapping';
+import type { AmountColumnResult } from './numberParsing';
+import { inferNumberLocale, parseAmount, parseAmountColumn } from './numberParsing';
+import type { VendorAliasMap } from './entityResolution';
+import { resolveVendorName, vendorKey } from './entityResolution';
 
 export interface ExtractedData {
   vendor: string;
   spend: number;
   category: string;
   segment: string;
+  contractEnd: string;
+  usage: string;
+  paymentTerms: string;
+  currency: string;
+  date: string;
 }
 
+// Detected mappings per header set, so heuristics run once per file rather than per row
+const detectedMappings = new Map<string, ColumnMapping>();
+
 /**
- * Extract vendor name from Excel row using multiple field patterns
+ * Column mapping for a row: the detected mapping of its header set
  */
-export function extractVendorName(row: ExcelRow): string {
-  // Try exact field names first
-  if (row.Supplier) return String(row.Supplier).trim();
-  if (row.supplier) return String(row.supplier).trim();
-  if (row.vendor) return String(row.vendor).trim();
-  if (row.Vendor) return String(row.Vendor).trim();
-  
-  // Then try pattern matching
-  const keys = Object.keys(row).filter(key => 
-    key.toLowerCase().includes('vendor') || 
-    key.toLowerCase().includes('supplier') ||
-    key.toLowerCase().includes('company')
-  );
-  
-  return keys.length > 0 ? String(row[keys[0]] || '').trim() : '';
+function mappingForRow(row: ExcelRow): ColumnMapping {
+  const headers = getDataHeaders(row);
+  const key = headers.join('\u0000');
+  let mapping = detectedMappings.get(key);
+  if (!mapping) {
+    mapping = detectColumnMapping(headers, [row]).mapping;
+    detectedMappings.set(key, mapping);
+  }
+  return mapping;
 }
 
 /**
- * Extract spend amount from Excel row with multiple field patterns
+ * Read a canonical field from a row, via the given mapping or the detected one
  */
-export function extractSpendAmount(row: ExcelRow): number {
-  // Try exact field names first
-  if (row.Total_Current_Cost) return Number(row.Total_Current_Cost) || 0;
-  if (row['Total Current Cost']) return Number(row['Total Current Cost']) || 0;
-  if (row.spend) return Number(row.spend) || 0;
-  if (row.Spend) return Number(row.Spend) || 0;
-  if (row.cost) return Number(row.cost) || 0;
-  if (row.Cost) return Number(row.Cost) || 0;
-  
-  // Then try pattern matching
-  const keys = Object.keys(row).filter(key => 
-    key.toLowerCase().includes('spend') || 
-    key.toLowerCase().includes('cost') ||
-    key.toLowerCase().includes('amount')
-  );
-  
-  if (keys.length > 0) {
-    const value = String(row[keys[0]] || '').replace(/[^\d.,]/g, '');
-    return parseFloat(value.replace(',', '.')) || 0;
-  }
-  return 0;
+export function getFieldValue(row: ExcelRow, field: CanonicalField, mapping: ColumnMapping = mappingForRow(row)): string {
+  const header = mapping[field];
+  if (!header || row[header] === undefined || row[header] === null) return '';
+  return String(row[header]).trim();
+}
+
+/**
+ * Extract vendor name from Excel row
+ */
+export function extractVendorName(row: ExcelRow, mapping?: ColumnMapping): string {
+  return getFieldValue(row, 'vendor', mapping);
+}
+
+/**
+ * Extract spend amount from Excel row. A single cell carries no locale
+ * evidence of its own, so prefer normalizeRows for whole data sets.
+ */
+export function extractSpendAmount(row: ExcelRow, mapping?: ColumnMapping): number {
+  const raw = row[(mapping || mappingForRow(row)).spend || ''];
+  const { locale } = inferNumberLocale([raw]);
+  return parseAmount(raw, locale).value ?? 0;
 }
 
 /**
  * Extract category from Excel row
  */
-export function extractCategory(row: ExcelRow): string {
-  if (row.category) return String(row.category).trim();
-  if (row.Category) return String(row.Category).trim();
-  
-  const keys = Object.keys(row).filter(key => 
-    key.toLowerCase().includes('category') || 
-    key.toLowerCase().includes('type')
-  );
-  return keys.length > 0 ? String(row[keys[0]] || 'Software').trim() : 'Software';
+export function extractCategory(row: ExcelRow, mapping?: ColumnMapping): string {
+  return getFieldValue(row, 'category', mapping) || 'Software';
 }
 
 /**
  * Extract segment/department from Excel row
  */
-export function extractSegment(row: ExcelRow): string {
-  if (row.segment) return String(row.segment).trim();
-  if (row.Segment) return String(row.Segment).trim();
-  
-  const keys = Object.keys(row).filter(key => 
-    key.toLowerCase().includes('segment') || 
-    key.toLowerCase().includes('department')
-  );
-  return keys.length > 0 ? String(row[keys[0]] || 'IT').trim() : 'IT';
+export function extractSegment(row: ExcelRow, mapping?: ColumnMapping): string {
+  return getFieldValue(row, 'segment', mapping) || 'IT';
 }
 
 /**
  * Normalize Excel data by extracting key fields consistently
  */
-export function normalizeExcelRow(row: ExcelRow): ExtractedData {
+export function normalizeExcelRow(row: ExcelRow, mapping: ColumnMapping = mappingForRow(row)): ExtractedData {
   return {
-    vendor: extractVendorName(row),
-    spend: extractSpendAmount(row),
-    category: extractCategory(row),
-    segment: extractSegment(row)
+    vendor: extractVendorName(row, mapping),
+    spend: extractSpendAmount(row, mapping),
+    category: extractCategory(row, mapping),
+    segment: extractSegment(row, mapping),
+    contractEnd: getFieldValue(row, 'contractEnd', mapping),
+    usage: getFieldValue(row, 'usage', mapping),
+    paymentTerms: getFieldValue(row, 'paymentTerms', mapping),
+    currency: getFieldValue(row, 'currency', mapping),
+    date: getFieldValue(row, 'date', mapping)
   };
 }
 
 /**
- * Group Excel data by vendor and sum spending
+ * Normalize a whole data set. The spend column is parsed as a column so
+ * its number locale is inferred from all of its values.
+ */
+export function normalizeRows(
+  data: ExcelRow[],
+  mapping?: ColumnMapping
+): { rows: ExtractedData[]; amounts: AmountColumnResult } {
+  const rowMappings = data.map(row => mapping || mappingForRow(row));
+  const amounts = parseAmountColumn(data.map((row, index) => row[rowMappings[index].spend || '']));
+
+  const rows = data.map((row, index) => {
+    const extracted = normalizeExcelRow(row, rowMappings[index]);
+    const amount = amounts.parsed[index];
+    return {
+      ...extracted,
+      spend: amount.value ?? 0,
+      currency: extracted.currency || amount.currency || ''
+    };
+  });
+
+  return { rows, amounts };
+}
+
+/**
+ * Group Excel data by vendor and sum spending. Name variants listed in the
+ * alias dictionary are grouped under their canonical vendor.
  */
-export function groupByVendor(data: ExcelRow[]): ExtractedData[] {
+export function groupByVendor(data: ExcelRow[], mapping?: ColumnMapping, aliases: VendorAliasMap = {}): ExtractedData[] {
   const vendorMap = new Map<string, ExtractedData>();
   
-  data.forEach(row => {
-    const extracted = normalizeExcelRow(row);
+  normalizeRows(data, mapping).rows.forEach(extracted => {
     if (!extracted.vendor || extracted.spend === 0) return;
     
-    const key = extracted.vendor.toLowerCase();
+    const key = vendorKey(extracted.vendor, aliases);
     if (vendorMap.has(key)) {
       const existing = vendorMap.get(key)!;
       existing.spend += extracted.spend;
     } else {
-      vendorMap.set(key, extracted);
+      vendorMap.set(key, { ...extracted, vendor: resolveVendorName(extracted.vendor, aliases) });
     }
   });
   
   return Array.from(vendorMap.values());
-}
\ No newline at end of file
+}
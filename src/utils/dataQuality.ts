@@ -0,0 +1,221 @@
+/**
+ * Row-level data quality checks run locally before analysis is submitted
+ */
+
+export type QualityIssue =
+  | 'emptyVendor'
+  | 'invalidAmount'
+  | 'zeroAmount'
+  | 'missingFxRate'
+  | 'currencyAssumed'
+  | 'duplicate'
+  | 'outlier'
+  | 'missingDate';
+
+interface IssueDefinition {
+  issue: QualityIssue;
+  label: string;
+  description: string;
+  excludes: boolean; // Rows with this issue are not sent to analysis
+}
+
+export const QUALITY_ISSUES: IssueDefinition[] = [
+  {
+    issue: 'emptyVendor',
+    label: 'Empty vendor name',
+    description: 'No vendor to attribute the spend to',
+    excludes: true
+  },
+  {
+    issue: 'invalidAmount',
+    label: 'Unparseable amount',
+    description: 'The spend cell is not a number',
+    excludes: true
+  },
+  {
+    issue: 'zeroAmount',
+    label: 'Zero or empty amount',
+    description: 'No spend on the row',
+    excludes: true
+  },
+  {
+    issue: 'missingFxRate',
+    label: 'No exchange rate',
+    description: 'The amount could not be converted to the reporting currency',
+    excludes: true
+  },
+  {
+    issue: 'currencyAssumed',
+    label: 'Currency assumed',
+    description: 'No currency on the row or in the amount; read as the reporting currency',
+    excludes: false
+  },
+  {
+    issue: 'duplicate',
+    label: 'Duplicate row',
+    description: 'Identical to an earlier row, possibly exported twice',
+    excludes: true // Unless the user keeps them, since identical purchases can repeat
+  },
+  {
+    issue: 'outlier',
+    label: 'Outlier amount',
+    description: 'Far outside the range of the other amounts',
+    excludes: false
+  },
+  {
+    issue: 'missingDate',
+    label: 'Missing date',
+    description: 'The date column is empty',
+    excludes: false
+  }
+];
+
+export interface QualityRowIssue {
+  index: number; // Index into the checked rows
+  issues: QualityIssue[];
+  excluded: boolean;
+}
+
+export interface DataQualityReport {
+  totalRows: number;
+  includedRows: number;
+  excludedRows: number;
+  totalSpend: number;
+  excludedSpend: number;
+  counts: Record<QualityIssue, number>;
+  rows: QualityRowIssue[]; // Only rows with at least one issue
+  hasDateColumn: boolean;
+  excludingIssues: QualityIssue[]; // Issues that excluded rows in this report
+}
+
+export interface DataQualityOptions {
+  keepDuplicates?: boolean; // Analyze duplicate rows instead of excluding them
+}
+
+// Outlier checks need enough rows for the quartiles to mean something
+const MIN_ROWS_FOR_OUTLIERS = 10;
+const OUTLIER_IQR_FACTOR = 1.5;
+
+const isBlank = (value: unknown) => String(value ?? '').trim() === '';
+
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Indices of amounts outside the interquartile fences. Spend is heavy-tailed,
+ * so the fences are computed on log10 of the absolute amounts.
+ */
+function findOutliers(amounts: Array<{ index: number; spend: number }>): Set<number> {
+  const outliers = new Set<number>();
+  if (amounts.length < MIN_ROWS_FOR_OUTLIERS) return outliers;
+
+  const logs = amounts.map(({ spend }) => Math.log10(Math.abs(spend)));
+  const sorted = [...logs].sort((a, b) => a - b);
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const fence = OUTLIER_IQR_FACTOR * (q3 - q1);
+  if (fence === 0) return outliers;
+
+  logs.forEach((value, position) => {
+    if (value < q1 - fence || value > q3 + fence) outliers.add(amounts[position].index);
+  });
+  return outliers;
+}
+
+/**
+ * Key of a row's data columns; ingestion tags are left out so the same row
+ * exported into two files still counts as a duplicate
+ */
+function rowKey(row: Record<string, unknown>): string {
+  return JSON.stringify(
+    Object.keys(row)
+      .filter(key => !key.startsWith('_'))
+      .sort()
+      .map(key => [key, row[key]])
+  );
+}
+
+/**
+ * Check mapped rows (canonical vendor/spend/date columns, spend already numeric).
+ * Rows whose spend cell could not be parsed carry an `_amountError` tag, rows
+ * left in their source currency for lack of a rate an `_fxMissing` tag, and rows
+ * without any currency of their own a `_currencyAssumed` tag.
+ */
+export function buildDataQualityReport(rows: Record<string, unknown>[], options: DataQualityOptions = {}): DataQualityReport {
+  const counts = Object.fromEntries(QUALITY_ISSUES.map(({ issue }) => [issue, 0])) as Record<QualityIssue, number>;
+  const excludingIssues = new Set(
+    QUALITY_ISSUES
+      .filter(definition => definition.excludes && !(definition.issue === 'duplicate' && options.keepDuplicates))
+      .map(definition => definition.issue)
+  );
+  const hasDateColumn = rows.some(row => 'date' in row);
+
+  const seen = new Set<string>();
+  const rowIssues: QualityIssue[][] = rows.map(row => {
+    const issues: QualityIssue[] = [];
+    const spend = Number(row.spend) || 0;
+
+    if (isBlank(row.vendor)) issues.push('emptyVendor');
+    if (row._amountError) {
+      issues.push('invalidAmount');
+    } else if (spend === 0) {
+      issues.push('zeroAmount');
+    }
+    if (row._fxMissing) issues.push('missingFxRate');
+    if (row._currencyAssumed) issues.push('currencyAssumed');
+    if (hasDateColumn && isBlank(row.date)) issues.push('missingDate');
+
+    const key = rowKey(row);
+    if (seen.has(key)) issues.push('duplicate');
+    seen.add(key);
+
+    return issues;
+  });
+
+  const outliers = findOutliers(
+    rows
+      .map((row, index) => ({ index, spend: Number(row.spend) || 0 }))
+      .filter(({ index, spend }) => spend !== 0 && !rowIssues[index].some(issue => excludingIssues.has(issue)))
+  );
+  outliers.forEach(index => rowIssues[index].push('outlier'));
+
+  let totalSpend = 0;
+  let excludedSpend = 0;
+  const flagged: QualityRowIssue[] = [];
+
+  rowIssues.forEach((issues, index) => {
+    // Unconverted amounts are in another currency, so they stay out of the totals
+    const spend = rows[index]._fxMissing ? 0 : Number(rows[index].spend) || 0;
+    const excluded = issues.some(issue => excludingIssues.has(issue));
+    totalSpend += spend;
+    if (excluded) excludedSpend += spend;
+    issues.forEach(issue => counts[issue]++);
+    if (issues.length > 0) flagged.push({ index, issues, excluded });
+  });
+
+  const excludedRows = flagged.filter(row => row.excluded).length;
+
+  return {
+    totalRows: rows.length,
+    includedRows: rows.length - excludedRows,
+    excludedRows,
+    totalSpend,
+    excludedSpend,
+    counts,
+    rows: flagged,
+    hasDateColumn,
+    excludingIssues: Array.from(excludingIssues)
+  };
+}
+
+/**
+ * Rows that pass the checks and go on to analysis
+ */
+export function filterIncludedRows<T>(rows: T[], report: DataQualityReport): T[] {
+  const excluded = new Set(report.rows.filter(row => row.excluded).map(row => row.index));
+  return rows.filter((_, index) => !excluded.has(index));
+}
@@ -0,0 +1,206 @@
+/**
+ * Vendor entity resolution: merge name variants of the same supplier
+ */
+
+// Normalized variant name → canonical vendor name
+export type VendorAliasMap = Record<string, string>;
+
+export interface MergeVariant {
+  name: string;
+  rows: number;
+  spend: number;
+}
+
+export interface MergeProposal {
+  id: string; // Stable for the same set of variants
+  canonical: string;
+  variants: MergeVariant[]; // Includes the canonical name
+  score: number; // 0-1, weakest link in the group
+}
+
+// Scores below this are not proposed
+export const MIN_MERGE_SCORE = 0.6;
+
+// Legal forms, removed before comparing names (multi-word forms first)
+const LEGAL_SUFFIXES = [
+  'sp z o o', 's a r l', 'pty ltd', 'co ltd', 'gmbh co kg',
+  'incorporated', 'corporation', 'limited', 'company', 'gmbh', 'corp', 'inc', 'ltd', 'llc', 'llp',
+  'plc', 'ag', 'sa', 'sas', 'sarl', 'srl', 'spa', 'bv', 'nv', 'oy', 'oyj', 'ab', 'as', 'asa',
+  'aps', 'kg', 'se', 'co', 'lp'
+];
+
+// Words that describe a subsidiary rather than the supplier itself
+const NOISE_TOKENS = new Set([
+  'the', 'and', 'of', 'group', 'holding', 'holdings', 'international', 'global', 'operations',
+  'europe', 'emea', 'ireland', 'uk', 'us', 'usa', 'germany', 'deutschland', 'france', 'nordic',
+  'nederland', 'sverige', 'polska', 'finland', 'branch'
+]);
+
+/**
+ * Lower-case, strip accents, punctuation and legal forms
+ */
+export function normalizeVendorName(name: string): string {
+  let normalized = ` ${name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()} `;
+
+  LEGAL_SUFFIXES.forEach(suffix => {
+    normalized = normalized.split(` ${suffix} `).join(' ');
+  });
+
+  return normalized.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * The name as written, without trailing legal forms: "Salesforce, Inc." → "Salesforce"
+ */
+export function stripLegalSuffix(name: string): string {
+  const words = name.trim().split(/\s+/);
+  const isSuffix = (word: string) => LEGAL_SUFFIXES.includes(word.toLowerCase().replace(/[^a-z]/g, ''));
+  while (words.length > 1 && isSuffix(words[words.length - 1])) words.pop();
+  return words.join(' ').replace(/[\s,.]+$/, '');
+}
+
+/**
+ * Tokens that identify the supplier, without legal forms and subsidiary noise
+ */
+export function vendorTokens(name: string): string[] {
+  const tokens = normalizeVendorName(name).split(' ').filter(Boolean);
+  const core = tokens.filter(token => !NOISE_TOKENS.has(token));
+  return core.length > 0 ? core : tokens;
+}
+
+/**
+ * "msft" → "microsoft": a ticker-like short token (no vowels after its first
+ * letter) whose letters appear in order in the long one
+ */
+function isAbbreviation(short: string, long: string): boolean {
+  if (short.length < 2 || short.length >= long.length || short[0] !== long[0]) return false;
+  if (!/^.[^aeiouy]+$/.test(short)) return false;
+  let position = 0;
+  for (const char of long) {
+    if (char === short[position]) position++;
+    if (position === short.length) return true;
+  }
+  return false;
+}
+
+function tokensMatch(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length >= 4 && b.length >= 4 && (a.startsWith(b) || b.startsWith(a))) return 0.9;
+  if (isAbbreviation(a, b) || isAbbreviation(b, a)) return 0.8;
+  return 0;
+}
+
+/**
+ * Similarity (0-1) of two vendor names from their core tokens
+ */
+export function vendorSimilarity(a: string, b: string): number {
+  const tokensA = vendorTokens(a);
+  const tokensB = vendorTokens(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+  if (tokensA.join(' ') === tokensB.join(' ')) return 1;
+
+  // Best match for every token of the shorter name, scaled by how much of the longer one it covers
+  const [shorter, longer] = tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+  const matched = shorter.map(token => Math.max(...longer.map(other => tokensMatch(token, other))));
+  const total = matched.reduce((sum, score) => sum + score, 0);
+  if (matched[0] === 0) return 0; // The leading word names the supplier; without it there's no match
+
+  const coverage = total / shorter.length;
+  const lengthPenalty = shorter.length / longer.length;
+  return Math.round(coverage * (0.7 + 0.3 * lengthPenalty) * 100) / 100;
+}
+
+/**
+ * Canonical name for a vendor from the alias dictionary, or the name itself
+ */
+export function resolveVendorName(name: string, aliases: VendorAliasMap = {}): string {
+  return aliases[normalizeVendorName(name)] || name;
+}
+
+/**
+ * Grouping key of a vendor after aliases are applied
+ */
+export function vendorKey(name: string, aliases: VendorAliasMap = {}): string {
+  return resolveVendorName(name, aliases).toLowerCase().trim();
+}
+
+/**
+ * Id of a merge decision, independent of variant order
+ */
+export function mergeProposalId(names: string[]): string {
+  return names.map(normalizeVendorName).sort().join('|');
+}
+
+/**
+ * Propose merges among vendor names. Names are compared within blocks that
+ * share a first letter, linked when their similarity clears MIN_MERGE_SCORE,
+ * and every connected group becomes one proposal. The variant with the most
+ * spend is suggested as canonical name.
+ */
+export function proposeVendorMerges(
+  variants: MergeVariant[],
+  rejected: string[] = []
+): MergeProposal[] {
+  const rejectedIds = new Set(rejected);
+  const parent = variants.map((_, index) => index);
+  const linkScore = new Map<number, number>();
+
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const blocks = new Map<string, number[]>();
+  variants.forEach((variant, index) => {
+    const first = vendorTokens(variant.name)[0]?.[0];
+    if (!first) return;
+    blocks.set(first, [...(blocks.get(first) || []), index]);
+  });
+
+  blocks.forEach(indices => {
+    for (let i = 0; i < indices.length; i++) {
+      for (let j = i + 1; j < indices.length; j++) {
+        const a = indices[i];
+        const b = indices[j];
+        const score = vendorSimilarity(variants[a].name, variants[b].name);
+        if (score < MIN_MERGE_SCORE) continue;
+        if (rejectedIds.has(mergeProposalId([variants[a].name, variants[b].name]))) continue;
+
+        const rootA = find(a);
+        const rootB = find(b);
+        const weakest = Math.min(score, linkScore.get(rootA) ?? 1, linkScore.get(rootB) ?? 1);
+        parent[rootB] = rootA;
+        linkScore.set(rootA, weakest);
+      }
+    }
+  });
+
+  const groups = new Map<number, MergeVariant[]>();
+  variants.forEach((variant, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) || []), variant]);
+  });
+
+  return Array.from(groups.entries())
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => {
+      const sorted = [...members].sort((a, b) => b.spend - a.spend || b.rows - a.rows);
+      return {
+        id: mergeProposalId(members.map(member => member.name)),
+        canonical: sorted[0].name,
+        variants: sorted,
+        score: linkScore.get(root) ?? 1
+      };
+    })
+    .filter(proposal => !rejectedIds.has(proposal.id))
+    .sort((a, b) => b.score - a.score);
+}
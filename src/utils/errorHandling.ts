@@ -7,7 +7,8 @@ export const ErrorType = {
   PARSING_ERROR: 'PARSING_ERROR',
   VALIDATION_ERROR: 'VALIDATION_ERROR',
   NETWORK_ERROR: 'NETWORK_ERROR',
-  CONFIG_ERROR: 'CONFIG_ERROR'
+  CONFIG_ERROR: 'CONFIG_ERROR',
+  CANCELLED: 'CANCELLED'
 } as const;
 
 export type ErrorType = typeof ErrorType[keyof typeof ErrorType];
@@ -16,21 +17,31 @@ export class ValoriesError extends Error {
   public readonly type: ErrorType;
   public readonly statusCode?: number;
   public readonly originalError?: Error;
+  public readonly retriable: boolean; // Trying the same request again may succeed
 
   constructor(
     type: ErrorType,
     message: string,
     statusCode?: number,
-    originalError?: Error
+    originalError?: Error,
+    retriable = false
   ) {
     super(message);
     this.name = 'ValoriesError';
     this.type = type;
     this.statusCode = statusCode;
     this.originalError = originalError;
+    this.retriable = retriable;
   }
 }
 
+/**
+ * Rate limits and server errors are transient; other statuses are not
+ */
+export function isRetriableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
 /**
  * Handle API response errors consistently
  */
@@ -40,7 +51,7 @@ export function handleApiError(
   context: string
 ): ValoriesError {
   const message = `${context} failed: ${response.status} - ${errorText}`;
-  return new ValoriesError(ErrorType.API_ERROR, message, response.status);
+  return new ValoriesError(ErrorType.API_ERROR, message, response.status, undefined, isRetriableStatus(response.status));
 }
 
 /**
@@ -69,7 +80,21 @@ export function handleNetworkError(
   originalError: Error
 ): ValoriesError {
   const message = `${context} - network error`;
-  return new ValoriesError(ErrorType.NETWORK_ERROR, message, undefined, originalError);
+  return new ValoriesError(ErrorType.NETWORK_ERROR, message, undefined, originalError, true);
+}
+
+/**
+ * Create the error used when the user cancels a running operation
+ */
+export function handleCancelledError(context: string): ValoriesError {
+  return new ValoriesError(ErrorType.CANCELLED, `${context} cancelled`);
+}
+
+/**
+ * Whether an error comes from a user cancellation rather than a failure
+ */
+export function isCancelledError(error: unknown): boolean {
+  return error instanceof ValoriesError && error.type === ErrorType.CANCELLED;
 }
 
 /**
@@ -0,0 +1,403 @@
+/**
+ * Markdown parsing for chat messages. Covers what the assistant writes:
+ * headings, paragraphs, nested lists, fenced code, GFM tables, quotes, rules,
+ * emphasis, inline code and links, plus a ```chart fence holding a JSON chart
+ * spec. The result is a tree rendered as React elements, never as HTML, so
+ * raw HTML in a message shows up as text.
+ */
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'emphasis' | 'strike'; children: InlineNode[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: InlineNode[] };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type ChartType = 'bar' | 'line' | 'pie';
+
+export interface ChartSpec {
+  type: ChartType;
+  title?: string;
+  x: string; // Key of the category or label in each data point
+  y: string[]; // Keys of the plotted values; a pie uses the first
+  data: Record<string, string | number>[];
+  currency?: string; // Values are amounts in this ISO currency
+}
+
+export type BlockNode =
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'list'; ordered: boolean; start: number; items: BlockNode[][] }
+  | { type: 'code'; language: string; text: string; closed: boolean }
+  | { type: 'chart'; spec: ChartSpec | null; source: string; error?: string; closed: boolean }
+  | { type: 'table'; align: TableAlign[]; header: InlineNode[][]; rows: InlineNode[][][] }
+  | { type: 'quote'; children: BlockNode[] }
+  | { type: 'rule' };
+
+export const MAX_CHART_POINTS = 50;
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w-]*)/;
+const HEADING = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^ {0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+const SAFE_URL = /^(?:https?:|mailto:)/i;
+const ESCAPABLE = /[\\`*_{}[\]()#+\-.!|~>]/;
+
+const isBlank = (line: string) => line.trim() === '';
+
+const indentOf = (line: string) => line.length - line.trimStart().length;
+
+const isTableStart = (lines: string[], i: number) =>
+  lines[i].includes('|') && i + 1 < lines.length && TABLE_DELIMITER.test(lines[i + 1]) && lines[i + 1].includes('-');
+
+function startsBlock(lines: string[], i: number): boolean {
+  const line = lines[i];
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line) || isTableStart(lines, i);
+}
+
+/**
+ * Cells of a table row; escaped pipes stay inside their cell
+ */
+function splitRow(line: string): string[] {
+  const trimmed = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+  return trimmed.split(/(?<!\\)\|/).map(cell => cell.trim());
+}
+
+function parseAlign(cell: string): TableAlign {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  if (left) return 'left';
+  return null;
+}
+
+/**
+ * Inline markup of one paragraph, heading or cell
+ */
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    const rest = text.slice(i);
+
+    if (char === '\\' && i + 1 < text.length && ESCAPABLE.test(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      const ticks = rest.match(/^`+/)![0];
+      const end = text.indexOf(ticks, i + ticks.length);
+      if (end !== -1) {
+        flush();
+        nodes.push({ type: 'code', text: text.slice(i + ticks.length, end).trim() });
+        i = end + ticks.length;
+        continue;
+      }
+    }
+
+    const pair = rest.startsWith('**') || rest.startsWith('__') ? rest.slice(0, 2) : rest.startsWith('~~') ? '~~' : null;
+    if (pair) {
+      const end = text.indexOf(pair, i + 2);
+      if (end > i + 2) {
+        flush();
+        nodes.push({ type: pair === '~~' ? 'strike' : 'strong', children: parseInline(text.slice(i + 2, end)) });
+        i = end + 2;
+        continue;
+      }
+    }
+
+    if ((char === '*' || char === '_') && text[i + 1] && !/\s/.test(text[i + 1])) {
+      // Underscores inside words (snake_case) are not emphasis
+      const opensWord = char === '*' || i === 0 || !/[\p{L}\p{N}]/u.test(text[i - 1]);
+      let end = text.indexOf(char, i + 1);
+      while (end !== -1 && (/\s/.test(text[end - 1]) || text[end + 1] === char)) end = text.indexOf(char, end + 2);
+      if (opensWord && end !== -1 && (char === '*' || !/[\p{L}\p{N}]/u.test(text[end + 1] ?? ''))) {
+        flush();
+        nodes.push({ type: 'emphasis', children: parseInline(text.slice(i + 1, end)) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const link = rest.match(/^\[([^\]]+)\]\(\s*([^()\s]+(?:\([^()\s]*\)[^()\s]*)*)(?:\s+"[^"]*")?\s*\)/);
+      if (link) {
+        flush();
+        const children = parseInline(link[1]);
+        // Unsafe schemes (javascript: and the like) keep the text and lose the link
+        if (SAFE_URL.test(link[2])) nodes.push({ type: 'link', href: link[2], children });
+        else nodes.push(...children);
+        i += link[0].length;
+        continue;
+      }
+    }
+
+    if (char === 'h' && (i === 0 || /[\s(]/.test(text[i - 1]))) {
+      const url = rest.match(/^https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"]/);
+      if (url) {
+        flush();
+        nodes.push({ type: 'link', href: url[0], children: [{ type: 'text', text: url[0] }] });
+        i += url[0].length;
+        continue;
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+  flush();
+  return nodes;
+}
+
+/**
+ * Chart spec from a ```chart fence, or why it can't be drawn
+ */
+export function parseChartSpec(source: string): { spec: ChartSpec } | { error: string } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(source);
+  } catch {
+    return { error: 'Chart data is not valid JSON' };
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return { error: 'Chart must be a JSON object' };
+  const value = raw as Record<string, unknown>;
+
+  const type: ChartType = value.type === 'line' || value.type === 'pie' ? value.type : 'bar';
+  if (!Array.isArray(value.data) || value.data.length === 0) return { error: 'Chart has no data' };
+  const points = value.data
+    .slice(0, MAX_CHART_POINTS)
+    .filter((point): point is Record<string, unknown> => typeof point === 'object' && point !== null && !Array.isArray(point));
+  if (points.length === 0) return { error: 'Chart data must be a list of objects' };
+
+  const keys = Object.keys(points[0]);
+  const isNumeric = (entry: unknown) => (typeof entry === 'number' || (typeof entry === 'string' && entry.trim() !== '')) && Number.isFinite(Number(entry));
+  const x = typeof value.x === 'string' && keys.includes(value.x)
+    ? value.x
+    : keys.find(key => typeof points[0][key] === 'string') ?? keys[0];
+  const requested = Array.isArray(value.y) ? value.y : typeof value.y === 'string' ? [value.y] : null;
+  const y = (requested ?? keys.filter(key => key !== x && isNumeric(points[0][key])))
+    .filter((key): key is string => typeof key === 'string' && key !== x && keys.includes(key));
+  if (y.length === 0) return { error: 'Chart has no numeric values to plot' };
+
+  const data = points.map(point => Object.fromEntries([
+    [x, String(point[x] ?? '')],
+    ...y.map(key => [key, isNumeric(point[key]) ? Number(point[key]) : 0])
+  ]));
+  const currency = typeof value.currency === 'string' && /^[A-Z]{3}$/.test(value.currency) ? value.currency : undefined;
+  const title = typeof value.title === 'string' ? value.title : undefined;
+
+  return { spec: { type, title, x, y, data, currency } };
+}
+
+function parseList(lines: string[], start: number): { node: BlockNode; next: number } {
+  const first = LIST_ITEM.exec(lines[start])!;
+  const indent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: BlockNode[][] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const item = LIST_ITEM.exec(lines[i]);
+    if (!item || item[1].length !== indent || /\d/.test(item[2]) !== ordered) break;
+    const contentIndent = indent + item[2].length + 1;
+    const content = [item[3]];
+    i++;
+
+    while (i < lines.length) {
+      const line = lines[i];
+      if (isBlank(line)) {
+        // Blank lines stay in the item only when it continues after them
+        let next = i;
+        while (next < lines.length && isBlank(lines[next])) next++;
+        if (next < lines.length && indentOf(lines[next]) > indent) {
+          content.push('');
+          i++;
+          continue;
+        }
+        break;
+      }
+      const lead = indentOf(line);
+      if (lead > indent) {
+        content.push(line.slice(Math.min(lead, contentIndent)));
+      } else if (!startsBlock(lines, i) && !isBlank(content[content.length - 1])) {
+        content.push(line.trim()); // Lazy continuation of the item's paragraph
+      } else {
+        break;
+      }
+      i++;
+    }
+    items.push(parseBlocks(content));
+
+    // A sibling item after blank lines continues the list
+    let next = i;
+    while (next < lines.length && isBlank(lines[next])) next++;
+    const sibling = next < lines.length ? LIST_ITEM.exec(lines[next]) : null;
+    if (sibling && sibling[1].length === indent && /\d/.test(sibling[2]) === ordered) i = next;
+  }
+
+  return { node: { type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items }, next: i };
+}
+
+function parseBlocks(lines: string[]): BlockNode[] {
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const marker = fence[1];
+      const language = fence[2].toLowerCase();
+      const body: string[] = [];
+      let closed = false;
+      i++;
+      while (i < lines.length) {
+        const trimmed = lines[i].trim();
+        if (trimmed.startsWith(marker[0].repeat(marker.length)) && /^[`~]+$/.test(trimmed)) {
+          closed = true;
+          i++;
+          break;
+        }
+        body.push(lines[i]);
+        i++;
+      }
+      const text = body.join('\n');
+      if (language === 'chart') {
+        // Complete JSON is drawn even when the closing fence never came
+        const parsed = parseChartSpec(text);
+        blocks.push({
+          type: 'chart',
+          spec: 'spec' in parsed ? parsed.spec : null,
+          source: text,
+          error: 'error' in parsed ? parsed.error : undefined,
+          closed
+        });
+      } else {
+        blocks.push({ type: 'code', language, text, closed });
+      }
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && !isBlank(lines[i]) && (QUOTE.test(lines[i]) || !startsBlock(lines, i))) {
+        quoted.push(lines[i].replace(QUOTE, ''));
+        i++;
+      }
+      blocks.push({ type: 'quote', children: parseBlocks(quoted) });
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitRow(line);
+      const align = splitRow(lines[i + 1]).map(parseAlign);
+      const rows: InlineNode[][][] = [];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+        const cells = splitRow(lines[i]);
+        rows.push(header.map((_, column) => parseInline(cells[column] ?? '')));
+        i++;
+      }
+      blocks.push({ type: 'table', align: header.map((_, column) => align[column] ?? null), header: header.map(parseInline), rows });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const { node, next } = parseList(lines, i);
+      blocks.push(node);
+      i = next;
+      continue;
+    }
+
+    const paragraph: string[] = [line.trim()];
+    i++;
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines, i)) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+}
+
+/**
+ * Parse a whole message
+ */
+export function parseMarkdown(markdown: string): BlockNode[] {
+  return parseBlocks(markdown.replace(/\r\n?/g, '\n').split('\n'));
+}
+
+function inlineText(nodes: InlineNode[]): string {
+  return nodes.map(node => ('children' in node ? inlineText(node.children) : node.text)).join('');
+}
+
+function blockText(block: BlockNode, depth: number): string {
+  const pad = '  '.repeat(depth);
+  switch (block.type) {
+    case 'heading':
+    case 'paragraph':
+      return pad + inlineText(block.children).replace(/\n/g, `\n${pad}`);
+    case 'list':
+      return block.items.map((item, index) => {
+        const marker = block.ordered ? `${block.start + index}.` : '-';
+        const [head, ...rest] = item.map(child => blockText(child, depth + 1).trimStart());
+        return [`${pad}${marker} ${head ?? ''}`, ...rest.map(text => `${pad}  ${text}`)].join('\n');
+      }).join('\n');
+    case 'code':
+      return block.text;
+    case 'chart':
+      if (!block.spec) return block.source;
+      return [
+        block.spec.title ?? 'Chart',
+        ...block.spec.data.map(point => `${point[block.spec!.x]}: ${block.spec!.y.map(key => point[key]).join(', ')}`)
+      ].join('\n');
+    case 'table':
+      return [block.header, ...block.rows].map(row => row.map(inlineText).join('\t')).join('\n');
+    case 'quote':
+      return block.children.map(child => blockText(child, depth)).join('\n\n');
+    case 'rule':
+      return '';
+  }
+}
+
+/**
+ * The message as plain text: markup removed, tables tab-separated, charts as their data
+ */
+export function markdownToPlainText(markdown: string): string {
+  return parseMarkdown(markdown)
+    .map(block => blockText(block, 0))
+    .filter(Boolean)
+    .join('\n\n');
+}
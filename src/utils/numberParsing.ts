@@ -0,0 +1,230 @@
+/**
+ * Locale-aware amount parsing shared by every ingestion path
+ */
+
+// Which separator marks decimals: "1,234.56" vs "1.234,56"
+export type NumberLocale = 'dot-decimal' | 'comma-decimal';
+
+export interface ParsedAmount {
+  raw: string;
+  value: number | null;
+  currency?: string;
+  negative: boolean;
+  ambiguous: boolean; // Separator could be read either way and the column gave no answer
+  error?: string;
+}
+
+export interface AmountColumnResult {
+  locale: NumberLocale;
+  evidence: { dotDecimal: number; commaDecimal: number };
+  parsed: ParsedAmount[];
+  ambiguous: number[]; // Row indices
+  invalid: number[]; // Row indices of non-empty cells that are not amounts
+}
+
+// Global, so every occurrence is stripped: "€35,000 €" or "USD 1,200 USD"
+const CURRENCY_SYMBOLS: Array<[RegExp, string]> = [
+  [/€/g, 'EUR'],
+  [/£/g, 'GBP'],
+  [/US\$|\$/g, 'USD'],
+  [/¥/g, 'JPY'],
+  [/₹/g, 'INR'],
+  [/zł/gi, 'PLN'],
+  [/\bkr\b|\bkr\./gi, 'SEK']
+];
+
+const ISO_CODE = /\b[A-Z]{3}\b/g;
+
+// Markers that turn an amount negative: credit notes and SAP-style "CR"
+const CREDIT_MARKER = /\b(CR|Cr|cr|credit)\b\.?/;
+const DEBIT_MARKER = /\b(DR|Dr|dr|debit)\b\.?/;
+
+interface SeparatorReading {
+  digits: string; // Normalized "1234.56" string
+  locale: NumberLocale | null; // Locale the value proves, if any
+  dependsOnLocale: boolean; // A single separator followed by exactly three digits
+}
+
+/**
+ * Read the separators of a number stripped of signs, currency and spaces
+ */
+function readSeparators(core: string, locale: NumberLocale): SeparatorReading | null {
+  if (!/^\d[\d.,]*$|^[.,]\d+$/.test(core)) return null;
+
+  const lastDot = core.lastIndexOf('.');
+  const lastComma = core.lastIndexOf(',');
+
+  if (lastDot !== -1 && lastComma !== -1) {
+    // Both present: the last one is the decimal separator
+    const decimalIndex = Math.max(lastDot, lastComma);
+    const decimal = core[decimalIndex];
+    const thousands = decimal === '.' ? ',' : '.';
+    const integer = core.slice(0, decimalIndex);
+    const fraction = core.slice(decimalIndex + 1);
+    const grouping = new RegExp(`^\\d{1,3}(\\${thousands}\\d{3})*$`);
+    if (!grouping.test(integer) || !/^\d+$/.test(fraction)) return null;
+    return {
+      digits: `${integer.split(thousands).join('')}.${fraction}`,
+      locale: decimal === '.' ? 'dot-decimal' : 'comma-decimal',
+      dependsOnLocale: false
+    };
+  }
+
+  const separator = lastDot !== -1 ? '.' : lastComma !== -1 ? ',' : null;
+  if (!separator) return { digits: core, locale: null, dependsOnLocale: false };
+
+  const parts = core.split(separator);
+  const separatorLocale: NumberLocale = separator === '.' ? 'dot-decimal' : 'comma-decimal';
+  const otherLocale: NumberLocale = separator === '.' ? 'comma-decimal' : 'dot-decimal';
+
+  if (parts.length > 2) {
+    // Repeated separator can only be grouping: 1,234,567 / 1.234.567
+    if (!parts.slice(1).every(part => part.length === 3)) return null;
+    return { digits: parts.join(''), locale: otherLocale, dependsOnLocale: false };
+  }
+
+  const [integer, fraction] = parts;
+  if (fraction.length !== 3 || integer === '' || integer === '0' || integer.length > 3) {
+    // 1,5 / 12.25 / 0,514 / 1234,567 can only be decimals
+    return { digits: `${integer || '0'}.${fraction}`, locale: separatorLocale, dependsOnLocale: false };
+  }
+
+  // 1,234 or 1.234: grouping or decimal depending on the locale
+  return {
+    digits: locale === separatorLocale ? `${integer}.${fraction}` : `${integer}${fraction}`,
+    locale: null,
+    dependsOnLocale: true
+  };
+}
+
+/**
+ * Split a cell into sign, currency and numeric core
+ */
+function tokenize(raw: string): { core: string; negative: boolean; currency?: string } {
+  let text = raw.trim();
+  let negative = false;
+  let currency: string | undefined;
+
+  if (/^\(.*\)$/.test(text)) {
+    negative = true; // Accounting negative: (1,234.00)
+    text = text.slice(1, -1).trim();
+  }
+  if (CREDIT_MARKER.test(text)) {
+    negative = true;
+    text = text.replace(CREDIT_MARKER, '');
+  }
+  text = text.replace(DEBIT_MARKER, '');
+
+  for (const [pattern, code] of CURRENCY_SYMBOLS) {
+    // replace() rather than test(): test() on a global pattern keeps state between calls
+    const stripped = text.replace(pattern, '');
+    if (stripped !== text) {
+      currency = code;
+      text = stripped;
+      break;
+    }
+  }
+  const iso = text.match(ISO_CODE);
+  if (iso) {
+    currency = iso[0];
+    text = text.replace(ISO_CODE, '');
+  }
+
+  text = text.replace(/[\s']/g, ''); // Space, NBSP and Swiss apostrophe grouping
+  if (/^[-−]/.test(text)) {
+    negative = true;
+    text = text.slice(1);
+  }
+  if (/[-−]$/.test(text)) {
+    negative = true; // Trailing minus, e.g. SAP "1.234,56-"
+    text = text.slice(0, -1);
+  }
+  if (/^\+/.test(text)) text = text.slice(1);
+
+  return { core: text, negative, currency };
+}
+
+/**
+ * Parse one cell with a known locale, e.g. "€1.234,56", "(1,234.00)",
+ * "1.234,56-", "1,234.00 CR", "EUR 1,234" or "€35,000 €"
+ */
+export function parseAmount(input: unknown, locale: NumberLocale = 'dot-decimal'): ParsedAmount {
+  if (typeof input === 'number') {
+    return { raw: String(input), value: isFinite(input) ? input : null, negative: input < 0, ambiguous: false };
+  }
+
+  const raw = String(input ?? '').trim();
+  if (raw === '') {
+    return { raw, value: null, negative: false, ambiguous: false };
+  }
+
+  const { core, negative, currency } = tokenize(raw);
+  const reading = readSeparators(core, locale);
+  if (!reading) {
+    return { raw, value: null, currency, negative, ambiguous: false, error: `"${raw}" is not a number` };
+  }
+
+  const magnitude = parseFloat(reading.digits);
+  if (isNaN(magnitude)) {
+    return { raw, value: null, currency, negative, ambiguous: false, error: `"${raw}" is not a number` };
+  }
+
+  return {
+    raw,
+    value: negative ? -magnitude : magnitude,
+    currency,
+    negative,
+    ambiguous: reading.dependsOnLocale
+  };
+}
+
+/**
+ * Infer the column's locale from every value that can only be read one way
+ */
+export function inferNumberLocale(values: unknown[]): { locale: NumberLocale; evidence: AmountColumnResult['evidence'] } {
+  const evidence = { dotDecimal: 0, commaDecimal: 0 };
+
+  values.forEach(value => {
+    if (typeof value === 'number') return;
+    const raw = String(value ?? '').trim();
+    if (!raw) return;
+    const reading = readSeparators(tokenize(raw).core, 'dot-decimal');
+    if (reading?.locale === 'dot-decimal') evidence.dotDecimal++;
+    if (reading?.locale === 'comma-decimal') evidence.commaDecimal++;
+  });
+
+  return {
+    locale: evidence.commaDecimal > evidence.dotDecimal ? 'comma-decimal' : 'dot-decimal',
+    evidence
+  };
+}
+
+/**
+ * Parse a whole column. Cells like "1,234" are resolved with the column's
+ * locale; they are only reported as ambiguous when the column has no
+ * unambiguous values or its values contradict each other.
+ */
+export function parseAmountColumn(values: unknown[]): AmountColumnResult {
+  const { locale, evidence } = inferNumberLocale(values);
+  const conclusive = (evidence.dotDecimal > 0) !== (evidence.commaDecimal > 0);
+
+  const ambiguous: number[] = [];
+  const invalid: number[] = [];
+
+  const parsed = values.map((value, index) => {
+    const result = parseAmount(value, locale);
+    if (result.error) invalid.push(index);
+    if (result.ambiguous && conclusive) result.ambiguous = false;
+    if (result.ambiguous) ambiguous.push(index);
+    return result;
+  });
+
+  return { locale, evidence, parsed, ambiguous, invalid };
+}
+
+/**
+ * Human-readable form of a locale, for UI hints
+ */
+export function describeNumberLocale(locale: NumberLocale): string {
+  return locale === 'comma-decimal' ? '1.234,56' : '1,234.56';
+}
@@ -0,0 +1,93 @@
+import type { SpendAnalysis } from '../types';
+import { parseSavingsRange } from './analysisValidation';
+import { stripLegalSuffix } from './entityResolution';
+
+/**
+ * Vendor citations: analysis vendors named in a chat answer, so the answer can
+ * link to their rows and its transcript can be checked against the data.
+ * A vendor is cited by its full name or its name without the legal form
+ * ("Salesforce" for "Salesforce, Inc."), as a whole word, in any case.
+ */
+
+export interface VendorMatcher {
+  pattern: RegExp;
+  vendorFor: (text: string) => string | undefined; // Canonical name for matched text
+}
+
+export type CitationSegment = string | { text: string; vendor: string };
+
+export interface VendorCitations {
+  vendorMentioned: string[]; // In order of first mention
+  savingsCalculated?: number; // Midpoint of the cited vendors' savings ranges; absent when unknown
+  currency?: string;
+}
+
+// Shorter names match too many ordinary words
+const MIN_NAME_LENGTH = 3;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * A matcher for the given vendor names; null when none can be matched
+ */
+export function createVendorMatcher(vendors: string[]): VendorMatcher | null {
+  const byName = new Map<string, string>();
+  // Full names first, so a stripped name never takes over another vendor's full name
+  vendors.forEach(vendor => {
+    const name = vendor.trim().toLowerCase();
+    if (name.length >= MIN_NAME_LENGTH && !byName.has(name)) byName.set(name, vendor);
+  });
+  vendors.forEach(vendor => {
+    const name = stripLegalSuffix(vendor).toLowerCase();
+    if (name.length >= MIN_NAME_LENGTH && !byName.has(name)) byName.set(name, vendor);
+  });
+  if (byName.size === 0) return null;
+
+  // Longest first, so "Oracle Cloud" wins over "Oracle"
+  const alternatives = [...byName.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  return {
+    pattern: new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'giu'),
+    vendorFor: text => byName.get(text.toLowerCase())
+  };
+}
+
+/**
+ * Text split into plain runs and vendor mentions
+ */
+export function splitVendorMentions(text: string, matcher: VendorMatcher | null): CitationSegment[] {
+  if (!matcher) return [text];
+  const segments: CitationSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(matcher.pattern)) {
+    const vendor = matcher.vendorFor(match[0]);
+    if (!vendor || match.index === undefined) continue;
+    if (match.index > last) segments.push(text.slice(last, match.index));
+    segments.push({ text: match[0], vendor });
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) segments.push(text.slice(last));
+  return segments;
+}
+
+/**
+ * The analysis vendors an answer names, and the savings they account for
+ */
+export function findVendorCitations(text: string, items: SpendAnalysis[]): VendorCitations {
+  const matcher = createVendorMatcher(items.map(item => item.vendor));
+  const cited: string[] = [];
+  splitVendorMentions(text, matcher).forEach(segment => {
+    if (typeof segment !== 'string' && !cited.includes(segment.vendor)) cited.push(segment.vendor);
+  });
+  if (cited.length === 0) return { vendorMentioned: [] };
+
+  // Every row of a cited vendor counts, since one vendor can supply several items
+  const rows = items.filter(item => cited.includes(item.vendor));
+  const ranges = rows.map(item => parseSavingsRange(item.savingsRange));
+  const known = ranges.filter((range): range is { min: number; max: number } => range !== null);
+  const savings = known.reduce((sum, range) => sum + (range.min + range.max) / 2, 0);
+  return {
+    vendorMentioned: cited,
+    savingsCalculated: savings > 0 ? Math.round(savings) : undefined,
+    currency: rows[0]?.currency
+  };
+}
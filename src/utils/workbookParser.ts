@@ -0,0 +1,102 @@
+/**
+ * Worksheet extraction for multi-sheet Excel workbooks
+ */
+
+import type { WorkBook, WorkSheet } from 'xlsx';
+import type { WorkbookSheet } from '../types';
+import { normalizeHeaders } from './csvParser';
+
+type XlsxModule = typeof import('xlsx');
+
+// Labels Excel writes into every pivot table layout
+const PIVOT_LABELS = ['row labels', 'column labels', 'grand total'];
+const PIVOT_VALUE_PREFIXES = ['sum of ', 'count of ', 'average of ', 'max of ', 'min of '];
+
+/**
+ * Find the header row: the first row with at least two filled cells.
+ * Title rows and blank banners above the table are skipped.
+ */
+function findHeaderRow(grid: unknown[][]): number {
+  const index = grid.findIndex(row => row.filter(cell => String(cell ?? '').trim() !== '').length >= 2);
+  return index === -1 ? 0 : index;
+}
+
+/**
+ * Detect sheets whose only content is pivot table output. SheetJS does not
+ * parse pivot definitions, but the cached layout always carries Excel's
+ * pivot captions ("Row Labels", "Grand Total", "Sum of ...").
+ */
+export function isPivotOnlySheet(grid: unknown[][]): boolean {
+  const cells = grid.flat().map(cell => String(cell ?? '').trim().toLowerCase()).filter(Boolean);
+  if (cells.length === 0) return false;
+
+  const hasPivotLabel = cells.some(cell => PIVOT_LABELS.includes(cell));
+  const hasValueCaption = cells.some(cell => PIVOT_VALUE_PREFIXES.some(prefix => cell.startsWith(prefix)));
+  return hasPivotLabel && hasValueCaption;
+}
+
+/**
+ * Convert a worksheet into keyed rows using its detected header row
+ */
+export function extractWorksheet(
+  XLSX: XlsxModule,
+  worksheet: WorkSheet
+): { headers: string[]; rows: Record<string, unknown>[]; grid: unknown[][] } {
+  const grid = XLSX.utils.sheet_to_json<unknown[]>(worksheet, {
+    defval: '', // Default value for empty cells
+    raw: false, // Format numbers as strings to preserve formatting
+    dateNF: 'YYYY-MM-DD', // Normalize date format
+    blankrows: false, // Skip blank rows
+    header: 1 // Return the raw grid; the header row is detected below
+  });
+
+  if (grid.length === 0) {
+    return { headers: [], rows: [], grid };
+  }
+
+  const headerIndex = findHeaderRow(grid);
+  const width = grid.reduce((max, row) => Math.max(max, row.length), 0);
+  const rawHeaders = Array.from({ length: width }, (_, column) => String(grid[headerIndex][column] ?? ''));
+  const headers = normalizeHeaders(rawHeaders);
+
+  const rows = grid.slice(headerIndex + 1)
+    .filter(row => row.some(cell => String(cell ?? '').trim() !== ''))
+    .map(row => {
+      const record: Record<string, unknown> = {};
+      headers.forEach((header, column) => {
+        record[header] = row[column] ?? '';
+      });
+      return record;
+    });
+
+  return { headers, rows, grid };
+}
+
+/**
+ * Extract every sheet of a workbook with its visibility and pivot flags
+ */
+export function extractWorkbookSheets(XLSX: XlsxModule, workbook: WorkBook): WorkbookSheet[] {
+  return workbook.SheetNames.map((name, index) => {
+    const { headers, rows, grid } = extractWorksheet(XLSX, workbook.Sheets[name]);
+    const hidden = (workbook.Workbook?.Sheets?.[index]?.Hidden ?? 0) !== 0;
+    const pivotOnly = isPivotOnlySheet(grid);
+
+    return {
+      name,
+      hidden,
+      pivotOnly,
+      headers,
+      rows,
+      includedByDefault: !hidden && !pivotOnly && rows.length > 0
+    };
+  });
+}
+
+/**
+ * Flatten the chosen sheets into one row list, tagging each row with its sheet
+ */
+export function combineSheets(sheets: WorkbookSheet[], sheetNames: string[]): Record<string, unknown>[] {
+  return sheets
+    .filter(sheet => sheetNames.includes(sheet.name))
+    .flatMap(sheet => sheet.rows.map(row => ({ ...row, _sheetSource: sheet.name })));
+}
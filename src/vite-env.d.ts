@@ -1 +1,25 @@
 /// <reference types="vite/client" />
+
+// Non-secret build-time overrides read by services/appConfig.ts
+interface ImportMetaEnv {
+  readonly VITE_OPENAI_BASE_URL?: string
+  readonly VITE_OPENAI_CHAT_MODEL?: string
+  readonly VITE_CHAT_CONTEXT_BUDGET?: string
+  readonly VITE_LLM_PROVIDER?: string
+  readonly VITE_LLM_ALLOW_EXTERNAL?: string
+  readonly VITE_LLM_BASE_URL?: string
+  readonly VITE_LLM_MODEL?: string
+  readonly VITE_N8N_STANDARD_NORMALIZE_URL?: string
+  readonly VITE_N8N_STANDARD_ENRICH_URL?: string
+  readonly VITE_N8N_ENHANCED_NORMALIZE_URL?: string
+  readonly VITE_N8N_ENHANCED_ENRICH_URL?: string
+  readonly VITE_N8N_NORMALIZATION_URL?: string
+  readonly VITE_N8N_ENRICHMENT_URL?: string
+  readonly VITE_FEATURE_CHAT?: string
+  readonly VITE_FEATURE_ENHANCED_ANALYSIS?: string
+  readonly VITE_FEATURE_TWO_STAGE_ANALYSIS?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}
@@ -0,0 +1,80 @@
+/**
+ * Parses uploaded CSV and Excel files off the main thread. CSV files are
+ * streamed in chunks; workbooks are read whole and parsed with xlsx.
+ */
+
+import * as XLSX from 'xlsx';
+import { CsvRowBuilder, CsvTokenizer, detectCsvDelimiter } from '../utils/csvParser';
+import { extractWorkbookSheets } from '../utils/workbookParser';
+import { getErrorMessage } from '../utils/errorHandling';
+import type { ParseRequest, ParseResponse } from './parserMessages';
+
+// Large enough for delimiter detection from the first chunk, small enough for frequent progress
+const CHUNK_SIZE = 1024 * 1024;
+
+const post = (message: ParseResponse) => self.postMessage(message);
+
+async function parseCsvStream(file: File): Promise<void> {
+  const decoder = new TextDecoder('utf-8');
+  const builder = new CsvRowBuilder();
+  const rows: Record<string, unknown>[] = [];
+  let tokenizer: CsvTokenizer | null = null;
+  let delimiter = ',';
+
+  const collect = (records: string[][]) => {
+    if (!tokenizer) return;
+    const built = builder.addRecords(records, tokenizer.drainRecordLines());
+    for (const row of built) rows.push(row);
+  };
+
+  for (let offset = 0; offset < file.size; offset += CHUNK_SIZE) {
+    const end = Math.min(offset + CHUNK_SIZE, file.size);
+    const buffer = await file.slice(offset, end).arrayBuffer();
+    const text = decoder.decode(buffer, { stream: end < file.size });
+
+    if (!tokenizer) {
+      delimiter = detectCsvDelimiter(text);
+      tokenizer = new CsvTokenizer(delimiter);
+    }
+    collect(tokenizer.push(text));
+
+    post({ type: 'progress', stage: 'parsing', bytesRead: end, totalBytes: file.size, rowsParsed: rows.length });
+  }
+
+  if (tokenizer) collect(tokenizer.end());
+
+  post({
+    type: 'csv',
+    rows,
+    headers: builder.headers || [],
+    delimiter,
+    diagnostics: builder.diagnostics
+  });
+}
+
+async function parseWorkbook(file: File): Promise<void> {
+  post({ type: 'progress', stage: 'reading', bytesRead: 0, totalBytes: file.size, rowsParsed: 0 });
+
+  const data = new Uint8Array(await file.arrayBuffer());
+  post({ type: 'progress', stage: 'parsing', bytesRead: file.size, totalBytes: file.size, rowsParsed: 0 });
+
+  const workbook = XLSX.read(data, { type: 'array' });
+  const sheets = extractWorkbookSheets(XLSX, workbook);
+  const rowsParsed = sheets.reduce((sum, sheet) => sum + sheet.rows.length, 0);
+  post({ type: 'progress', stage: 'parsing', bytesRead: file.size, totalBytes: file.size, rowsParsed });
+
+  post({ type: 'workbook', sheets });
+}
+
+self.addEventListener('message', async (event: MessageEvent<ParseRequest>) => {
+  const { file, kind } = event.data;
+  try {
+    if (kind === 'csv') {
+      await parseCsvStream(file);
+    } else {
+      await parseWorkbook(file);
+    }
+  } catch (error) {
+    post({ type: 'error', message: getErrorMessage(error) });
+  }
+});
@@ -0,0 +1,27 @@
+/**
+ * Messages exchanged between the UI and the file parser worker
+ */
+
+import type { WorkbookSheet } from '../types';
+import type { CsvRowDiagnostic } from '../utils/csvParser';
+
+export type ParseKind = 'csv' | 'excel';
+
+export interface ParseRequest {
+  type: 'parse';
+  file: File;
+  kind: ParseKind;
+}
+
+export interface ParseProgress {
+  stage: 'reading' | 'parsing'; // Excel files are read completely before the workbook is parsed
+  bytesRead: number;
+  totalBytes: number;
+  rowsParsed: number;
+}
+
+export type ParseResponse =
+  | ({ type: 'progress' } & ParseProgress)
+  | { type: 'csv'; rows: Record<string, unknown>[]; headers: string[]; delimiter: string; diagnostics: CsvRowDiagnostic[] }
+  | { type: 'workbook'; sheets: WorkbookSheet[] }
+  | { type: 'error'; message: string };
@@ -1,8 +1,94 @@
-import { defineConfig } from 'vite'
+import { existsSync, readFileSync, rmSync } from 'node:fs'
+import { join, resolve } from 'node:path'
+import { defineConfig, loadEnv } from 'vite'
+import type { Plugin, ProxyOptions } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// VITE_* variables are compiled into the client bundle and config.json is
+// downloaded by every browser, so keys live only in the proxy below
+const SECRET_NAME = /KEY|SECRET|TOKEN|PASSWORD/i
+const RUNTIME_CONFIG = 'public/config.json'
+
+/**
+ * Setting paths in config.json that look like credentials
+ */
+function secretPaths(value: unknown, prefix = ''): string[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return []
+  return Object.entries(value).flatMap(([key, child]) => {
+    const path = prefix ? `${prefix}.${key}` : key
+    return SECRET_NAME.test(key) ? [path] : secretPaths(child, path)
+  })
+}
+
+function checkRuntimeConfig(): void {
+  if (!existsSync(RUNTIME_CONFIG)) return
+  let config: unknown
+  try {
+    config = JSON.parse(readFileSync(RUNTIME_CONFIG, 'utf8'))
+  } catch (error) {
+    throw new Error(`${RUNTIME_CONFIG} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`)
+  }
+  const secrets = secretPaths(config)
+  if (secrets.length > 0) {
+    throw new Error(`${RUNTIME_CONFIG} would be served to every browser but contains ${secrets.join(', ')}; set keys as proxy environment variables instead (see .env.example)`)
+  }
+}
+
+/**
+ * config.json belongs to each deployment, not to the build
+ */
+function excludeRuntimeConfig(): Plugin {
+  let outDir = 'dist'
+  return {
+    name: 'valoris:exclude-runtime-config',
+    apply: 'build',
+    configResolved(config) {
+      outDir = resolve(config.root, config.build.outDir)
+    },
+    closeBundle() {
+      rmSync(join(outDir, 'config.json'), { force: true })
+    }
+  }
+}
+
+/**
+ * Same-origin routes that add the keys on the server, so the client sends
+ * none. Production deployments need the same routes in their reverse proxy.
+ */
+function keyProxies(env: Record<string, string>): Record<string, ProxyOptions> {
+  const proxies: Record<string, ProxyOptions> = {}
+  const route = (prefix: string, target: string, headers: Record<string, string>) => {
+    proxies[prefix] = {
+      target,
+      changeOrigin: true,
+      rewrite: path => path.slice(prefix.length),
+      headers
+    }
+  }
+
+  route('/api/openai', env.OPENAI_PROXY_TARGET || 'https://api.openai.com',
+    env.OPENAI_API_KEY ? { Authorization: `Bearer ${env.OPENAI_API_KEY}` } : {})
+  if (env.N8N_PROXY_TARGET) {
+    route('/api/n8n', env.N8N_PROXY_TARGET, env.N8N_API_KEY ? { 'API-KEY': env.N8N_API_KEY } : {})
+  }
+  return proxies
+}
+
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react()],
-  base: '/',
+export default defineConfig(({ mode }) => {
+  const bundledSecrets = Object.keys(loadEnv(mode, '.', 'VITE_')).filter(name => SECRET_NAME.test(name))
+  if (bundledSecrets.length > 0) {
+    throw new Error(`${bundledSecrets.join(', ')} would be bundled into client code; set keys as proxy environment variables instead (see .env.example)`)
+  }
+  checkRuntimeConfig()
+
+  // Server-side only: without the VITE_ prefix these never reach the client
+  const proxy = keyProxies(loadEnv(mode, '.', ''))
+
+  return {
+    plugins: [react(), excludeRuntimeConfig()],
+    base: '/',
+    server: { proxy },
+    preview: { proxy },
+  }
 })